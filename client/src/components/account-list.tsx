@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
-import { ChildAccount } from "@shared/schema";
+import { PublicChildAccount } from "@shared/schema";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -35,7 +35,7 @@ export default function AccountList({ userId }: AccountListProps) {
   const [accountToDelete, setAccountToDelete] = useState<number | null>(null);
   
   // Fetch child accounts
-  const { data: accounts, isLoading } = useQuery<ChildAccount[]>({
+  const { data: accounts, isLoading } = useQuery<PublicChildAccount[]>({
     queryKey: ["/api/child-accounts", { userId }],
     queryFn: getQueryFn(),
     enabled: !!userId,
@@ -71,7 +71,7 @@ export default function AccountList({ userId }: AccountListProps) {
       });
       return await res.json();
     },
-    onSuccess: (updatedAccount: ChildAccount) => {
+    onSuccess: (updatedAccount: PublicChildAccount) => {
       toast({
         title: `Account ${updatedAccount.is_active ? "activated" : "deactivated"}`,
         description: `Email monitoring for ${updatedAccount.display_name} has been ${
@@ -112,7 +112,7 @@ export default function AccountList({ userId }: AccountListProps) {
     },
   });
   
-  const handleToggleActive = (account: ChildAccount) => {
+  const handleToggleActive = (account: PublicChildAccount) => {
     toggleActiveMutation.mutate({
       id: account.id,
       isActive: !account.is_active,
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { getQueryFn } from "@/lib/queryClient";
-import { ActivityLog, ChildAccount } from "@shared/schema";
+import { ActivityLog, PublicChildAccount, ContentCategory, contentCategoryLabels } from "@shared/schema";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -11,15 +11,24 @@ import {
   Bell,
   Clock,
   Shield,
+  ShieldCheck,
   RefreshCw, 
   AlertTriangle,
   CheckCircle,
   Trash,
-  Ban
+  Ban,
+  Tag
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 
+// Specific threats identified by a check, shown next to the activity type
+const threatTypeLabels: Record<string, string> = {
+  malware: "Malware",
+  suspicious_link: "Suspicious Links",
+  phishing: "Phishing",
+};
+
 interface ActivityLogsListProps {
   userId?: number;
 }
@@ -31,7 +40,7 @@ export default function ActivityLogsList({ userId }: ActivityLogsListProps) {
   const [limit, setLimit] = useState(50);
   
   // Fetch child accounts for the filter
-  const { data: childAccounts } = useQuery<ChildAccount[]>({
+  const { data: childAccounts } = useQuery<PublicChildAccount[]>({
     queryKey: ["/api/child-accounts", { userId }],
     queryFn: getQueryFn(),
     enabled: !!userId,
@@ -78,6 +87,22 @@ export default function ActivityLogsList({ userId }: ActivityLogsListProps) {
         return <Shield className="h-4 w-4 text-green-500" />;
       case "error":
         return <AlertTriangle className="h-4 w-4 text-amber-500" />;
+      case "quarantine_restored":
+      case "approval_approved":
+        return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case "approval_pending":
+        return <Clock className="h-4 w-4 text-amber-500" />;
+      case "filter_match":
+        return <AlertTriangle className="h-4 w-4 text-red-500" />;
+      case "outgoing_pii":
+        return <Bell className="h-4 w-4 text-amber-500" />;
+      case "outgoing_risk":
+        return <AlertTriangle className="h-4 w-4 text-red-600" />;
+      case "approval_rejected":
+        return <Ban className="h-4 w-4 text-red-500" />;
+      case "quarantine_purged":
+      case "quarantine_expired":
+        return <Trash className="h-4 w-4 text-gray-500" />;
       default:
         return <Activity className="h-4 w-4 text-muted-foreground" />;
     }
@@ -88,15 +113,33 @@ export default function ActivityLogsList({ userId }: ActivityLogsListProps) {
       case "check":
         return "Check";
       case "inappropriate_deleted":
-        return "Deleted (Inappropriate)";
+        return "Quarantined (Inappropriate)";
       case "deleted":
-        return "Deleted";
+        return "Quarantined";
       case "kept":
         return "Kept";
       case "trusted_sender":
         return "Trusted Sender";
       case "error":
         return "Error";
+      case "quarantine_restored":
+        return "Restored";
+      case "quarantine_purged":
+        return "Purged";
+      case "quarantine_expired":
+        return "Expired";
+      case "filter_match":
+        return "Flagged";
+      case "outgoing_pii":
+        return "Shared Personal Info";
+      case "outgoing_risk":
+        return "Worrying Sent Mail";
+      case "approval_pending":
+        return "Awaiting Approval";
+      case "approval_approved":
+        return "Approved";
+      case "approval_rejected":
+        return "Rejected";
       default:
         return type.charAt(0).toUpperCase() + type.slice(1);
     }
@@ -173,6 +216,8 @@ export default function ActivityLogsList({ userId }: ActivityLogsListProps) {
               <TabsTrigger value="deleted">Deleted</TabsTrigger>
               <TabsTrigger value="kept">Kept</TabsTrigger>
               <TabsTrigger value="trusted_sender">Trusted</TabsTrigger>
+              <TabsTrigger value="outgoing_pii">Personal Info</TabsTrigger>
+              <TabsTrigger value="outgoing_risk">Worrying Sent</TabsTrigger>
               <TabsTrigger value="error">Errors</TabsTrigger>
             </TabsList>
           </Tabs>
@@ -198,6 +243,24 @@ export default function ActivityLogsList({ userId }: ActivityLogsListProps) {
                         <Activity className="h-3 w-3" />
                         <span>{getActivityLabel(log.activity_type)}</span>
                       </div>
+                      {log.threat_type && (
+                        <div className="flex items-center gap-1 text-destructive">
+                          <AlertTriangle className="h-3 w-3" />
+                          <span>{threatTypeLabels[log.threat_type] || log.threat_type}</span>
+                        </div>
+                      )}
+                      {log.category && (
+                        <div className="flex items-center gap-1">
+                          <Tag className="h-3 w-3" />
+                          <span>{contentCategoryLabels[log.category as ContentCategory] || log.category}</span>
+                        </div>
+                      )}
+                      {log.dkim_domain && (
+                        <div className="flex items-center gap-1">
+                          <ShieldCheck className="h-3 w-3" />
+                          <span>Signed by {log.dkim_domain}</span>
+                        </div>
+                      )}
                       {log.child_account_id && (
                         <div className="flex items-center gap-1">
                           <Shield className="h-3 w-3" />
@@ -0,0 +1,224 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { LearningMode, ModelPrediction } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+
+interface AdaptiveLearningPanelProps {
+  userId?: number;
+}
+
+interface LearningStatus {
+  enabled: boolean;
+  learningRate: string;
+  learningMode: LearningMode;
+  trainedExamples: { safe: number; unsafe: number };
+}
+
+interface ModeAgreement {
+  mode: LearningMode;
+  predictions: number;
+  compared: number;
+  agreed: number;
+  overridden: number;
+  shadow: {
+    changed: number;
+    warningsSettled: number;
+    unsafeByModel: number;
+  };
+}
+
+interface AgreementReport {
+  modes: ModeAgreement[];
+  recent: ModelPrediction[];
+}
+
+const learningModeDescriptions: Record<LearningMode, string> = {
+  passive: "The model's predictions are recorded and shown beside the rules' verdicts, but never change them.",
+  active: "The model settles warnings, making them safe or unsafe when it is confident.",
+  aggressive: "As active, and the model can quarantine a message on its own when it is very confident.",
+};
+
+const verdictColors: Record<string, string> = {
+  safe: "bg-green-100 text-green-800",
+  warning: "bg-amber-100 text-amber-800",
+  unsafe: "bg-red-100 text-red-800",
+};
+
+export default function AdaptiveLearningPanel({ userId }: AdaptiveLearningPanelProps) {
+  const { toast } = useToast();
+
+  const { data: status } = useQuery<LearningStatus>({
+    queryKey: ["/api/adaptive-learning/status"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!userId,
+  });
+
+  const { data: report, isLoading } = useQuery<AgreementReport>({
+    queryKey: ["/api/adaptive-learning/agreement"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!userId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { enabled?: boolean; learningMode?: LearningMode }) => {
+      const res = await apiRequest("POST", "/api/adaptive-learning/toggle", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/adaptive-learning/status"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save adaptive learning settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const percent = (part: number, whole: number) => whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Adaptive Learning</CardTitle>
+          <CardDescription>
+            A model trained from your corrections and from what you do with quarantined email
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium">Use the adaptive model</div>
+              <div className="text-xs text-muted-foreground">
+                Learned from {status?.trainedExamples.safe ?? 0} safe and {status?.trainedExamples.unsafe ?? 0} unsafe examples
+              </div>
+            </div>
+            <Switch
+              checked={status?.enabled ?? false}
+              onCheckedChange={(checked) => updateMutation.mutate({ enabled: checked })}
+              disabled={!status || updateMutation.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Learning Mode</label>
+            <Select
+              value={status?.learningMode ?? "passive"}
+              onValueChange={(value) => updateMutation.mutate({ learningMode: value as LearningMode })}
+              disabled={!status || updateMutation.isPending}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="passive">Passive</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="aggressive">Aggressive</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {learningModeDescriptions[status?.learningMode ?? "passive"]}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Model Agreement</CardTitle>
+          <CardDescription>
+            How the model's predictions compare with the filter rules. The shadow columns show what each mode would have done with every prediction so far.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-4 text-muted-foreground">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mode</TableHead>
+                  <TableHead className="text-right">Predictions</TableHead>
+                  <TableHead className="text-right">Agreed with rules</TableHead>
+                  <TableHead className="text-right">Verdicts changed</TableHead>
+                  <TableHead className="text-right">Shadow: would change</TableHead>
+                  <TableHead className="text-right">Shadow: warnings settled</TableHead>
+                  <TableHead className="text-right">Shadow: quarantined by model</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(report?.modes || []).map((row) => (
+                  <TableRow key={row.mode}>
+                    <TableCell className="capitalize">
+                      {row.mode}
+                      {row.mode === status?.learningMode && (
+                        <Badge variant="outline" className="ml-2">Current</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{row.predictions}</TableCell>
+                    <TableCell className="text-right">{percent(row.agreed, row.compared)}</TableCell>
+                    <TableCell className="text-right">{row.overridden}</TableCell>
+                    <TableCell className="text-right">{row.shadow.changed}</TableCell>
+                    <TableCell className="text-right">{row.shadow.warningsSettled}</TableCell>
+                    <TableCell className="text-right">{row.shadow.unsafeByModel}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Predictions</CardTitle>
+          <CardDescription>The model's prediction beside the rules' verdict for recently checked email</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!report || report.recent.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">
+              No predictions yet. The model needs a few safe and unsafe examples before it predicts.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Final</TableHead>
+                  <TableHead>Mode</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.recent.map((prediction) => (
+                  <TableRow key={prediction.id}>
+                    <TableCell className="max-w-xs truncate">{prediction.subject || "(no subject)"}</TableCell>
+                    <TableCell>
+                      <Badge className={verdictColors[prediction.rule_verdict]}>{prediction.rule_verdict}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={verdictColors[prediction.predicted]}>{prediction.predicted}</Badge>
+                      <span className="ml-2 text-xs text-muted-foreground">{prediction.probability}% unsafe</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={verdictColors[prediction.final_verdict]}>{prediction.final_verdict}</Badge>
+                    </TableCell>
+                    <TableCell className="capitalize">{prediction.learning_mode}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,10 +9,14 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { insertChildAccountSchema } from "@shared/schema";
 
+// "Other (IMAP)" has no preset servers; the parent enters them
+const OTHER_PROVIDER_ID = 8;
+
 // Form schema based on the insert schema
 const formSchema = z.object({
   user_id: z.number(),
@@ -23,7 +27,15 @@ const formSchema = z.object({
   password: z.string().optional(),
   forwarding_email: z.string().email("Please enter a valid forwarding email address"),
   check_interval: z.coerce.number().min(5, "Minimum interval is 5 minutes").optional(),
-  filter_level: z.enum(["low", "medium", "high"]).optional()
+  filter_level: z.enum(["low", "medium", "high"]).optional(),
+  custom_imap_host: z.string().optional(),
+  custom_imap_port: z.coerce.number().int().min(1).max(65535).optional(),
+  custom_imap_secure: z.boolean().optional(),
+  custom_smtp_host: z.string().optional(),
+  custom_smtp_port: z.coerce.number().int().min(1).max(65535).optional()
+}).refine(values => values.provider_id !== OTHER_PROVIDER_ID || !!values.custom_imap_host?.trim(), {
+  message: "Please enter the IMAP server",
+  path: ["custom_imap_host"]
 });
 
 interface AddChildAccountDialogProps {
@@ -47,7 +59,12 @@ export default function AddChildAccountDialog({ open, onOpenChange, userId }: Ad
       password: "",
       forwarding_email: "",
       check_interval: 15,
-      filter_level: "medium"
+      filter_level: "medium",
+      custom_imap_host: "",
+      custom_imap_port: 993,
+      custom_imap_secure: true,
+      custom_smtp_host: "",
+      custom_smtp_port: 465
     },
   });
   
@@ -83,6 +100,15 @@ export default function AddChildAccountDialog({ open, onOpenChange, userId }: Ad
       delete values.password;
     }
     
+    // Server settings only apply to providers without a preset
+    if (values.provider_id !== OTHER_PROVIDER_ID) {
+      delete values.custom_imap_host;
+      delete values.custom_imap_port;
+      delete values.custom_imap_secure;
+      delete values.custom_smtp_host;
+      delete values.custom_smtp_port;
+    }
+    
     addAccountMutation.mutate(values);
   }
   
@@ -90,17 +116,17 @@ export default function AddChildAccountDialog({ open, onOpenChange, userId }: Ad
   const watchProvider = form.watch("provider_id");
   
   // Update auth method when provider changes
-  // iCloud (1) uses password, Gmail (2) and Outlook (3) use OAuth2
+  // Gmail (2) and Outlook (3) use OAuth2, every other provider uses a password
   const handleProviderChange = (providerId: string) => {
     const id = parseInt(providerId);
-    const method = id === 1 ? "password" : "oauth2";
+    const method = id === 2 || id === 3 ? "oauth2" : "password";
     setAuthMethod(method);
     form.setValue("auth_method", method);
   };
   
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add Child Account</DialogTitle>
           <DialogDescription>
@@ -162,6 +188,11 @@ export default function AddChildAccountDialog({ open, onOpenChange, userId }: Ad
                       <SelectItem value="1">iCloud</SelectItem>
                       <SelectItem value="2">Gmail</SelectItem>
                       <SelectItem value="3">Outlook</SelectItem>
+                      <SelectItem value="4">Yahoo Mail</SelectItem>
+                      <SelectItem value="5">AOL Mail</SelectItem>
+                      <SelectItem value="6">Proton Mail (Bridge)</SelectItem>
+                      <SelectItem value="7">Zoho Mail</SelectItem>
+                      <SelectItem value="8">Other (IMAP)</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormDescription>Select the email service provider</FormDescription>
@@ -170,6 +201,89 @@ export default function AddChildAccountDialog({ open, onOpenChange, userId }: Ad
               )}
             />
             
+            {Number(watchProvider) === OTHER_PROVIDER_ID && (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="custom_imap_host"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>IMAP Server</FormLabel>
+                        <FormControl>
+                          <Input placeholder="imap.example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="custom_imap_port"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Port</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={65535} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                
+                <FormField
+                  control={form.control}
+                  name="custom_imap_secure"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Use SSL/TLS</FormLabel>
+                        <FormDescription>
+                          Turn off only for servers that expect STARTTLS or a local bridge
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="custom_smtp_host"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>SMTP Server</FormLabel>
+                        <FormControl>
+                          <Input placeholder="smtp.example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="custom_smtp_port"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Port</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={65535} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            )}
+            
             {authMethod === "password" && (
               <FormField
                 control={form.control}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { PendingApproval, PublicChildAccount } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Bell,
+  Check,
+  Clock,
+  RefreshCw,
+  Shield,
+  UserCheck,
+  X
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ApprovalQueueProps {
+  userId?: number;
+}
+
+export default function ApprovalQueue({ userId }: ApprovalQueueProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("pending");
+  const [selectedAccount, setSelectedAccount] = useState<string>("all");
+
+  // Fetch child accounts for the filter
+  const { data: childAccounts } = useQuery<PublicChildAccount[]>({
+    queryKey: ["/api/child-accounts", { userId }],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!userId,
+  });
+
+  // Fetch held messages
+  const params = new URLSearchParams();
+  if (status !== "all") params.set("status", status);
+  if (selectedAccount !== "all") params.set("childAccountId", selectedAccount);
+  const { data: approvals, isLoading } = useQuery<PendingApproval[]>({
+    queryKey: [`/api/approvals?${params.toString()}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!userId,
+  });
+
+  const invalidateApprovals = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/approvals"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/trusted-senders"] });
+  };
+
+  // Approve or reject a held message
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, action, trustSender }: { id: number; action: "approve" | "reject"; trustSender?: boolean }) => {
+      const res = await apiRequest("POST", `/api/approvals/${id}/${action}`, { trustSender });
+      return await res.json();
+    },
+    onSuccess: (record: PendingApproval, { action, trustSender }) => {
+      toast({
+        title: action === "approve" ? "Email approved" : "Email rejected",
+        description: action === "reject"
+          ? "The email has been deleted."
+          : trustSender
+            ? `The email was delivered and ${record.sender_email} is now a trusted sender.`
+            : "The email was delivered to the inbox.",
+      });
+      invalidateApprovals();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getAccountName = (accountId: number) => {
+    const account = childAccounts?.find(a => a.id === accountId);
+    return account ? account.display_name : "Unknown";
+  };
+
+  const getStatusBadge = (value: string) => {
+    switch (value) {
+      case "pending":
+        return <Badge variant="secondary">Waiting</Badge>;
+      case "approved":
+        return <Badge variant="outline">Approved</Badge>;
+      default:
+        return <Badge variant="destructive">Rejected</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Queue</CardTitle>
+        <CardDescription>
+          For accounts that only accept trusted senders, mail from anyone else waits here until you decide.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {/* Filters */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Tabs value={status} onValueChange={setStatus} className="flex-1">
+              <TabsList>
+                <TabsTrigger value="pending">Waiting</TabsTrigger>
+                <TabsTrigger value="approved">Approved</TabsTrigger>
+                <TabsTrigger value="rejected">Rejected</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="w-full sm:w-[200px]">
+              <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {childAccounts?.map((account) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center p-8">
+              <RefreshCw className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : approvals && approvals.length > 0 ? (
+            <div className="space-y-3 pt-2">
+              {approvals.map((approval) => (
+                <div key={approval.id} className="flex flex-col lg:flex-row lg:items-center gap-3 border rounded-md p-3">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{approval.subject || "No Subject"}</span>
+                      {getStatusBadge(approval.status)}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      <div className="flex items-center gap-1">
+                        <Bell className="h-3 w-3" />
+                        <span>{approval.sender_email}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Shield className="h-3 w-3" />
+                        <span>{getAccountName(approval.child_account_id)}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        <span>{new Date(approval.held_at).toLocaleString()}</span>
+                      </div>
+                    </div>
+                  </div>
+                  {approval.status === "pending" && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: approval.id, action: "approve" })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Check className="mr-2 h-3 w-3" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: approval.id, action: "approve", trustSender: true })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <UserCheck className="mr-2 h-3 w-3" />
+                        Approve &amp; Trust Sender
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resolveMutation.mutate({ id: approval.id, action: "reject" })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <X className="mr-2 h-3 w-3" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No emails waiting for approval
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
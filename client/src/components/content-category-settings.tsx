@@ -0,0 +1,86 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategorySetting, ContentCategory, contentCategoryLabels } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+
+const categoryDescriptions: Record<ContentCategory, string> = {
+  adult: "Explicit sexual content, pornography and nudity",
+  gambling: "Casinos, betting and lotteries",
+  drugs: "Recreational drugs and pharmaceuticals sold online",
+  violence: "Threats and graphic violence",
+  self_harm: "Encouragement of self-harm, suicide and eating disorders",
+  scams: "Prize scams, loans and credit offers",
+  dating: "Dating sites and hookups",
+  weight_loss: "Diet pills and weight-loss products",
+};
+
+// Categories that were never changed come back with the defaults and no ID
+type CategorySettingState = Pick<CategorySetting, "child_account_id" | "category" | "enabled" | "sensitivity">;
+
+// Which content categories are filtered for one child account, saved as soon as they change
+export default function ContentCategorySettings({ accountId }: { accountId: number }) {
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<CategorySettingState[]>({
+    queryKey: [`/api/child-accounts/${accountId}/category-settings`],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ category, ...data }: Pick<CategorySettingState, "category"> & Partial<Pick<CategorySettingState, "enabled" | "sensitivity">>) => {
+      const res = await apiRequest("PUT", `/api/child-accounts/${accountId}/category-settings/${category}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/child-accounts/${accountId}/category-settings`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save content category",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Content Categories</label>
+      <p className="text-xs text-muted-foreground">
+        Built-in and custom filter rules belong to these categories. Higher sensitivity makes a category's matches count for more.
+      </p>
+      <div className="space-y-2">
+        {(settings || []).map((setting) => (
+          <div key={setting.category} className="flex items-center gap-3 rounded-md border px-3 py-2">
+            <Switch
+              checked={setting.enabled}
+              onCheckedChange={(checked) => updateMutation.mutate({ category: setting.category, enabled: checked })}
+              disabled={updateMutation.isPending}
+            />
+            <div className="flex-1">
+              <div className="text-sm font-medium">{contentCategoryLabels[setting.category]}</div>
+              <div className="text-xs text-muted-foreground">{categoryDescriptions[setting.category]}</div>
+            </div>
+            <Select
+              value={setting.sensitivity}
+              onValueChange={(value) => updateMutation.mutate({ category: setting.category, sensitivity: value as CategorySettingState["sensitivity"] })}
+              disabled={!setting.enabled}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -8,13 +8,15 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { EmailPreview, ContentSafety } from "./email-preview";
+import { EmailPreview, ContentSafety, ScoreItem, ScoreThresholds, LearnedPrediction, DetectedLanguage } from "./email-preview";
+import { ContentCategory, contentCategoryLabels } from "@shared/schema";
 import { X } from "lucide-react";
 
 type MatchedRule = {
   id: number;
   rule_text: string;
   is_regex: boolean;
+  normalization?: string | null;
 };
 
 interface EmailPreviewModalProps {
@@ -28,6 +30,12 @@ interface EmailPreviewModalProps {
     contentText: string;
     safety: ContentSafety;
     matchedRules?: MatchedRule[];
+    score?: number;
+    thresholds?: ScoreThresholds;
+    breakdown?: ScoreItem[];
+    category?: string;
+    prediction?: LearnedPrediction;
+    language?: DetectedLanguage;
   } | null;
   onDelete?: () => Promise<void>;
   onMarkSafe?: () => Promise<void>;
@@ -75,6 +83,12 @@ export const EmailPreviewModal: React.FC<EmailPreviewModalProps> = ({
             contentText={email.contentText}
             safety={email.safety}
             matchedRules={email.matchedRules}
+            score={email.score}
+            thresholds={email.thresholds}
+            breakdown={email.breakdown}
+            category={email.category && (contentCategoryLabels[email.category as ContentCategory] || email.category)}
+            prediction={email.prediction}
+            language={email.language}
           />
         </div>
 
@@ -7,6 +7,7 @@ import {
   Mail,
   User,
   Calendar,
+  Languages,
   ShieldCheck,
   ShieldAlert,
   Eye,
@@ -17,6 +18,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import { FilterLanguage, filterLanguageLabels } from "@shared/schema";
 
 export enum ContentSafety {
   SAFE = "safe",
@@ -25,10 +27,50 @@ export enum ContentSafety {
   UNKNOWN = "unknown"
 }
 
+// How a disguised term was uncovered, e.g. "p0rn" by decoding leetspeak
+const normalizationLabels: Record<string, string> = {
+  unicode: "special characters",
+  invisible: "hidden characters",
+  lookalikes: "lookalike letters",
+  separators: "spaced-out letters",
+  leetspeak: "leetspeak",
+};
+
 type MatchedRule = {
   id: number;
   rule_text: string;
   is_regex: boolean;
+  normalization?: string | null;
+};
+
+export type ScoreItem = {
+  source: string;
+  detail: string;
+  score: number;
+  normalization?: string;
+};
+
+export type ScoreThresholds = {
+  warning: number;
+  unsafe: number;
+};
+
+export type LearnedPrediction = {
+  mode: "passive" | "active" | "aggressive";
+  predicted: "safe" | "unsafe";
+  probability: number; // Chance that the message is unsafe, from 0 to 1
+  ruleVerdict: "safe" | "warning" | "unsafe";
+};
+
+export type DetectedLanguage = {
+  language: string; // Language code, e.g. "es"
+  confidence: number;
+};
+
+const learningModeEffects: Record<LearnedPrediction["mode"], string> = {
+  passive: "recorded only",
+  active: "settles warnings",
+  aggressive: "can quarantine on its own",
 };
 
 interface EmailPreviewProps {
@@ -39,6 +81,12 @@ interface EmailPreviewProps {
   contentText: string;
   safety: ContentSafety;
   matchedRules?: MatchedRule[];
+  score?: number;
+  thresholds?: ScoreThresholds;
+  breakdown?: ScoreItem[];
+  category?: string; // Label of the content category that added the most points
+  prediction?: LearnedPrediction;
+  language?: DetectedLanguage;
   previewOnly?: boolean;
   onClose?: () => void;
 }
@@ -51,6 +99,12 @@ export const EmailPreview: React.FC<EmailPreviewProps> = ({
   contentText,
   safety,
   matchedRules = [],
+  score,
+  thresholds,
+  breakdown = [],
+  category,
+  prediction,
+  language,
   previewOnly = false,
   onClose
 }) => {
@@ -167,6 +221,12 @@ export const EmailPreview: React.FC<EmailPreviewProps> = ({
                 <Calendar className="w-4 h-4" />
                 <span>{date}</span>
               </div>
+              {language && (
+                <div className="flex items-center gap-2 text-sm mt-1">
+                  <Languages className="w-4 h-4" />
+                  <span>{filterLanguageLabels[language.language as FilterLanguage] || language.language}</span>
+                </div>
+              )}
             </CardDescription>
           </div>
           <div className="flex flex-col items-end gap-2">
@@ -240,6 +300,7 @@ export const EmailPreview: React.FC<EmailPreviewProps> = ({
                   className="bg-red-100 text-red-800 border-red-200"
                 >
                   {rule.is_regex ? "Regex: " : ""}{rule.rule_text}
+                  {rule.normalization && ` (via ${normalizationLabels[rule.normalization] || rule.normalization})`}
                 </Badge>
               ))}
             </div>
@@ -247,6 +308,62 @@ export const EmailPreview: React.FC<EmailPreviewProps> = ({
         </>
       )}
       
+      {breakdown.length > 0 && (
+        <>
+          <Separator />
+          <CardFooter className="flex-col items-start pt-4">
+            <h4 className="text-sm font-medium mb-2">
+              Score Breakdown{score !== undefined && `: ${score}`}
+              {thresholds && (
+                <span className="font-normal text-muted-foreground">
+                  {" "}(warning at {thresholds.warning}, unsafe at {thresholds.unsafe})
+                </span>
+              )}
+            </h4>
+            {category && (
+              <p className="text-sm mb-2">Category: {category}</p>
+            )}
+
+            <ul className="text-sm text-muted-foreground space-y-1 w-full">
+              {[...breakdown].sort((a, b) => b.score - a.score).map((item, index) => (
+                <li key={index} className="flex justify-between gap-4">
+                  <span>{item.detail}</span>
+                  <span className="font-medium text-foreground">{item.score >= 0 ? "+" : ""}{item.score}</span>
+                </li>
+              ))}
+            </ul>
+          </CardFooter>
+        </>
+      )}
+      
+      {prediction && (
+        <>
+          <Separator />
+          <CardFooter className="flex-col items-start pt-4">
+            <h4 className="text-sm font-medium mb-2">Adaptive Model</h4>
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              <span className="text-muted-foreground">Rules:</span>
+              <span className="capitalize">{prediction.ruleVerdict}</span>
+              <span className="text-muted-foreground">Model:</span>
+              <span>
+                <span className="capitalize">{prediction.predicted}</span>
+                {" "}({Math.round((prediction.predicted === "unsafe" ? prediction.probability : 1 - prediction.probability) * 100)}% sure)
+              </span>
+              <span className="text-muted-foreground">Mode:</span>
+              <span>
+                <span className="capitalize">{prediction.mode}</span>
+                {" "}({learningModeEffects[prediction.mode]})
+              </span>
+            </div>
+            {prediction.ruleVerdict !== safety && (
+              <p className="text-sm text-amber-600 mt-2">
+                The model changed the verdict from {prediction.ruleVerdict} to {safety}.
+              </p>
+            )}
+          </CardFooter>
+        </>
+      )}
+      
       {onClose && (
         <CardFooter className="pt-2 pb-4 flex justify-end">
           <Button onClick={onClose} variant="outline">Close</Button>
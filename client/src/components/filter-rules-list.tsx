@@ -1,11 +1,11 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
-import { FilterRule, ChildAccount, TrustedSender } from "@shared/schema";
+import { FilterRule, PublicChildAccount, TrustedSender, contentCategories, contentCategoryLabels } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -19,9 +19,11 @@ import {
   Plus,
   ShieldAlert,
   Check,
-  Users
+  Users,
+  FlaskConical
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import RuleSimulationResults, { RuleSimulation } from "@/components/rule-simulation-results";
 import {
   Dialog,
   DialogContent,
@@ -48,9 +50,26 @@ const filterRuleSchema = z.object({
   child_account_id: z.coerce.number().optional().nullable(),
   rule_text: z.string().min(2, "Rule text must be at least 2 characters"),
   is_regex: z.boolean().default(false),
+  match_mode: z.enum(["word", "prefix", "stem"]).default("word"),
+  match_phrase: z.boolean().default(true),
+  weight: z.coerce.number().int().min(1).max(100).default(50),
+  category: z.enum(contentCategories).nullable().default(null),
   description: z.string().optional(),
 });
 
+const matchModeLabels: Record<string, string> = {
+  prefix: "Word start",
+  stem: "Word forms",
+};
+
+// Points a match adds to an email's score
+const weightLabels: Record<number, string> = {
+  10: "Minor",
+  25: "Moderate",
+  50: "Serious",
+  100: "Always block",
+};
+
 const trustedSenderSchema = z.object({
   user_id: z.number(),
   child_account_id: z.coerce.number().optional().nullable(),
@@ -71,7 +90,7 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
   const [senderToDelete, setSenderToDelete] = useState<number | null>(null);
   
   // Fetch child accounts for the filter
-  const { data: childAccounts } = useQuery<ChildAccount[]>({
+  const { data: childAccounts } = useQuery<PublicChildAccount[]>({
     queryKey: ["/api/child-accounts", { userId }],
     queryFn: getQueryFn(),
     enabled: !!userId,
@@ -99,6 +118,10 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
       child_account_id: null,
       rule_text: "",
       is_regex: false,
+      match_mode: "word",
+      match_phrase: true,
+      weight: 50,
+      category: null,
       description: "",
     },
   });
@@ -131,6 +154,10 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
         child_account_id: null,
         rule_text: "",
         is_regex: false,
+        match_mode: "word",
+        match_phrase: true,
+        weight: 50,
+        category: null,
         description: "",
       });
       setFilterDialogOpen(false);
@@ -144,6 +171,30 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
     },
   });
   
+  // Try the rule in the dialog against recently processed mail before it is saved
+  const simulateMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof filterRuleSchema>) => {
+      const { user_id, description, ...rule } = values;
+      const res = await apiRequest("POST", "/api/filter-rules/simulate", {
+        rules: [{ ...rule, child_account_id: rule.child_account_id ?? null }],
+      });
+      return await res.json() as RuleSimulation;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to test filter rule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // A test result is only shown for the rule as it was tested
+  useEffect(() => {
+    const subscription = filterForm.watch(() => simulateMutation.reset());
+    return () => subscription.unsubscribe();
+  }, [filterForm]);
+  
   // Delete filter rule mutation
   const deleteFilterRuleMutation = useMutation({
     mutationFn: async (ruleId: number) => {
@@ -301,6 +352,18 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
                           {rule.is_regex && (
                             <span className="text-xs bg-muted px-2 py-0.5 rounded-full">Regex</span>
                           )}
+                          {!rule.is_regex && matchModeLabels[rule.match_mode] && (
+                            <span className="text-xs bg-muted px-2 py-0.5 rounded-full">{matchModeLabels[rule.match_mode]}</span>
+                          )}
+                          {!rule.is_regex && !rule.match_phrase && (
+                            <span className="text-xs bg-muted px-2 py-0.5 rounded-full">Any order</span>
+                          )}
+                          <span className="text-xs bg-muted px-2 py-0.5 rounded-full">
+                            {weightLabels[rule.weight] || `${rule.weight} points`}
+                          </span>
+                          {rule.category && (
+                            <span className="text-xs bg-muted px-2 py-0.5 rounded-full">{contentCategoryLabels[rule.category]}</span>
+                          )}
                         </div>
                         {rule.description && (
                           <p className="text-sm text-muted-foreground mb-2">{rule.description}</p>
@@ -391,7 +454,7 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
       
       {/* Add Filter Rule Dialog */}
       <Dialog open={filterDialogOpen} onOpenChange={setFilterDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Add Filter Rule</DialogTitle>
             <DialogDescription>
@@ -439,6 +502,114 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
                 )}
               />
               
+              {!filterForm.watch("is_regex") && (
+                <>
+                  <FormField
+                    control={filterForm.control}
+                    name="match_mode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Match</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="word">Whole words only</SelectItem>
+                            <SelectItem value="prefix">Words starting with the text</SelectItem>
+                            <SelectItem value="stem">Other forms of the words (bet, bets, betting)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          Whole words stop "bet" from matching "alphabet"
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={filterForm.control}
+                    name="match_phrase"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                        <div className="space-y-0.5">
+                          <FormLabel>Match as a Phrase</FormLabel>
+                          <FormDescription>
+                            Turn off to match when all the words appear anywhere in the email
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+              
+              <FormField
+                control={filterForm.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Severity</FormLabel>
+                    <Select onValueChange={value => field.onChange(Number(value))} defaultValue={String(field.value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="10">Minor (10 points)</SelectItem>
+                        <SelectItem value="25">Moderate (25 points)</SelectItem>
+                        <SelectItem value="50">Serious (50 points)</SelectItem>
+                        <SelectItem value="100">Always block (100 points)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Each match adds these points; the child's filter level decides how many make an email unsafe
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={filterForm.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select
+                      onValueChange={value => field.onChange(value === "none" ? null : value)}
+                      defaultValue={field.value ?? "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No category (always applies)</SelectItem>
+                        {contentCategories.map(category => (
+                          <SelectItem key={category} value={category}>{contentCategoryLabels[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The rule follows the category's on/off switch and sensitivity for each child
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={filterForm.control}
                 name="description"
@@ -488,6 +659,10 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
                 )}
               />
               
+              {simulateMutation.data && (
+                <RuleSimulationResults simulation={simulateMutation.data} />
+              )}
+              
               <DialogFooter>
                 <Button
                   type="button"
@@ -496,6 +671,15 @@ export default function FilterRulesList({ userId }: FilterRulesListProps) {
                 >
                   Cancel
                 </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  onClick={filterForm.handleSubmit(values => simulateMutation.mutate(values))}
+                  disabled={simulateMutation.isPending}
+                >
+                  <FlaskConical className="mr-2 h-4 w-4" />
+                  {simulateMutation.isPending ? "Testing..." : "Test on Recent Mail"}
+                </Button>
                 <Button
                   type="submit"
                   disabled={addFilterRuleMutation.isPending}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { PublicChildAccount, QuarantinedMessage } from "@shared/schema";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Clock,
+  RefreshCw,
+  RotateCcw,
+  Shield,
+  Trash,
+  Bell
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface QuarantineListProps {
+  userId?: number;
+}
+
+export default function QuarantineList({ userId }: QuarantineListProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("quarantined");
+  const [selectedAccount, setSelectedAccount] = useState<string>("all");
+  const [purgeTarget, setPurgeTarget] = useState<QuarantinedMessage | null>(null);
+
+  // Fetch child accounts for the filter
+  const { data: childAccounts } = useQuery<PublicChildAccount[]>({
+    queryKey: ["/api/child-accounts", { userId }],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!userId,
+  });
+
+  // Fetch quarantined messages
+  const params = new URLSearchParams();
+  if (status !== "all") params.set("status", status);
+  if (selectedAccount !== "all") params.set("childAccountId", selectedAccount);
+  const { data: messages, isLoading } = useQuery<QuarantinedMessage[]>({
+    queryKey: [`/api/quarantine?${params.toString()}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !!userId,
+  });
+
+  const invalidateQuarantine = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/quarantine"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+  };
+
+  // Restore a message to the folder it was quarantined from
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/quarantine/${id}/restore`);
+      return await res.json();
+    },
+    onSuccess: (record: QuarantinedMessage) => {
+      toast({
+        title: "Email restored",
+        description: `The email was moved back to ${record.original_folder}.`,
+      });
+      invalidateQuarantine();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Permanently delete a quarantined message
+  const purgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/quarantine/${id}/purge`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Email deleted",
+        description: "The quarantined email has been permanently deleted.",
+      });
+      invalidateQuarantine();
+      setPurgeTarget(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete email",
+        description: error.message,
+        variant: "destructive",
+      });
+      setPurgeTarget(null);
+    },
+  });
+
+  const getAccountName = (accountId: number) => {
+    const account = childAccounts?.find(a => a.id === accountId);
+    return account ? account.display_name : "Unknown";
+  };
+
+  const getStatusBadge = (value: string) => {
+    switch (value) {
+      case "quarantined":
+        return <Badge variant="destructive">Quarantined</Badge>;
+      case "restored":
+        return <Badge variant="secondary">Restored</Badge>;
+      case "expired":
+        return <Badge variant="outline">Expired</Badge>;
+      default:
+        return <Badge variant="outline">Deleted</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quarantined Emails</CardTitle>
+        <CardDescription>
+          Flagged emails are moved to a "KidMail Quarantine" folder instead of being deleted.
+          Restore anything that was caught by mistake; the rest is deleted when its retention period ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {/* Filters */}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Tabs value={status} onValueChange={setStatus} className="flex-1">
+              <TabsList>
+                <TabsTrigger value="quarantined">Quarantined</TabsTrigger>
+                <TabsTrigger value="restored">Restored</TabsTrigger>
+                <TabsTrigger value="purged">Deleted</TabsTrigger>
+                <TabsTrigger value="expired">Expired</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="w-full sm:w-[200px]">
+              <Select value={selectedAccount} onValueChange={setSelectedAccount}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Accounts</SelectItem>
+                  {childAccounts?.map((account) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center p-8">
+              <RefreshCw className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : messages && messages.length > 0 ? (
+            <div className="space-y-3 pt-2">
+              {messages.map((message) => (
+                <div key={message.id} className="flex flex-col sm:flex-row sm:items-center gap-3 border rounded-md p-3">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{message.subject || "No Subject"}</span>
+                      {getStatusBadge(message.status)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{message.reason}</div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      {message.sender_email && (
+                        <div className="flex items-center gap-1">
+                          <Bell className="h-3 w-3" />
+                          <span>{message.sender_email}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-1">
+                        <Shield className="h-3 w-3" />
+                        <span>{getAccountName(message.child_account_id)}</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        <span>
+                          {message.status === "quarantined"
+                            ? `Deleted on ${new Date(message.expires_at).toLocaleDateString()}`
+                            : `Quarantined ${new Date(message.quarantined_at).toLocaleString()}`}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                  {message.status === "quarantined" && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(message.id)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-3 w-3" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPurgeTarget(message)}
+                        disabled={purgeMutation.isPending}
+                      >
+                        <Trash className="mr-2 h-3 w-3" />
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No quarantined emails
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Purge confirmation */}
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this email permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{purgeTarget?.subject || "No Subject"}" will be removed from the quarantine folder and cannot be restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { Badge } from "@/components/ui/badge";
+
+type Verdict = "safe" | "warning" | "unsafe";
+
+type TextSpan = {
+  start: number;
+  end: number;
+};
+
+export interface RuleSimulation {
+  messages: number;
+  matched: number;
+  hits: Array<{ rule_text: string; is_regex: boolean; count: number }>;
+  samples: Array<{
+    id: number;
+    subject: string;
+    subjectSpans: TextSpan[];
+    snippet: string;
+    snippetSpans: TextSpan[];
+    rules: string[];
+    verdict: Verdict;
+    draftVerdict: Verdict;
+  }>;
+  verdictChanges: Array<{ from: Verdict; to: Verdict; count: number }>;
+}
+
+const verdictColors: Record<Verdict, string> = {
+  safe: "bg-green-100 text-green-800",
+  warning: "bg-amber-100 text-amber-800",
+  unsafe: "bg-red-100 text-red-800",
+};
+
+// Text with the matched spans marked
+function Highlighted({ text, spans }: { text: string; spans: TextSpan[] }) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  spans.forEach((span, index) => {
+    parts.push(<span key={`text-${index}`}>{text.slice(position, span.start)}</span>);
+    parts.push(<mark key={`mark-${index}`} className="bg-yellow-200 rounded px-0.5">{text.slice(span.start, span.end)}</mark>);
+    position = span.end;
+  });
+  parts.push(<span key="rest">{text.slice(position)}</span>);
+  return <>{parts}</>;
+}
+
+// What a draft rule would have done to recently processed mail
+export default function RuleSimulationResults({ simulation }: { simulation: RuleSimulation }) {
+  if (simulation.messages === 0) {
+    return (
+      <div className="rounded-lg border p-3 text-sm text-muted-foreground">
+        No recently processed email to test against yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3 text-sm">
+      <div className="font-medium">
+        Would match {simulation.matched} of {simulation.messages} recent emails
+      </div>
+
+      {simulation.hits.length > 1 && (
+        <ul className="space-y-1">
+          {simulation.hits.map((hit, index) => (
+            <li key={index} className="flex justify-between gap-4">
+              <span className={hit.is_regex ? "font-mono" : ""}>{hit.rule_text}</span>
+              <span className="text-muted-foreground">{hit.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {simulation.verdictChanges.length === 0 ? (
+        <div className="text-muted-foreground">No verdicts would change.</div>
+      ) : (
+        <div className="space-y-1">
+          <div className="text-muted-foreground">Verdicts that would change:</div>
+          {simulation.verdictChanges.map((change) => (
+            <div key={`${change.from}-${change.to}`} className="flex items-center gap-2">
+              <Badge className={verdictColors[change.from]}>{change.from}</Badge>
+              <span>→</span>
+              <Badge className={verdictColors[change.to]}>{change.to}</Badge>
+              <span className="text-muted-foreground">{change.count} {change.count === 1 ? "email" : "emails"}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {simulation.samples.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-muted-foreground">Matched emails:</div>
+          {simulation.samples.map((sample) => (
+            <div key={sample.id} className="border-t pt-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">
+                  <Highlighted text={sample.subject || "(no subject)"} spans={sample.subject ? sample.subjectSpans : []} />
+                </span>
+                {sample.verdict !== sample.draftVerdict && (
+                  <span className="flex items-center gap-1 shrink-0">
+                    <Badge className={verdictColors[sample.verdict]}>{sample.verdict}</Badge>
+                    <span>→</span>
+                    <Badge className={verdictColors[sample.draftVerdict]}>{sample.draftVerdict}</Badge>
+                  </span>
+                )}
+              </div>
+              {sample.snippet && (
+                <div className="text-xs text-muted-foreground line-clamp-2">
+                  <Highlighted text={sample.snippet} spans={sample.snippetSpans} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,12 +13,13 @@ import { Separator } from "@/components/ui/separator";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { ChildAccount, JunkMailPreferences } from "@shared/schema";
+import { PublicChildAccount, JunkMailPreferences, MonitoredFolder, AttachmentPolicy } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import ContentCategorySettings from "@/components/content-category-settings";
 
 interface SettingsPanelProps {
   userId?: number;
-  childAccounts: ChildAccount[];
+  childAccounts: PublicChildAccount[];
 }
 
 // Form schema for junk mail preferences
@@ -29,8 +30,402 @@ const junkMailSchema = z.object({
   keep_receipts: z.boolean().default(false),
   keep_social_media: z.boolean().default(false),
   auto_delete_all: z.boolean().default(false),
+  quarantine_retention_days: z.coerce.number().int().min(1).max(365).default(30),
 });
 
+// Providers that support the OAuth connect flow, keyed by provider ID
+const oauthProviders: Record<number, { type: string; label: string }> = {
+  2: { type: "gmail", label: "Google" },
+  3: { type: "outlook", label: "Microsoft" },
+};
+
+interface ResolvedFolder {
+  path: string;
+  source: "custom" | "special-use" | "provider-default" | "name-match";
+}
+
+type AccountFolders = Partial<Record<"inbox" | "junk" | "trash" | "sent", ResolvedFolder>> & {
+  resolvedAt: string;
+};
+
+const folderSourceLabels: Record<ResolvedFolder["source"], string> = {
+  "custom": "set by you",
+  "special-use": "reported by server",
+  "provider-default": "provider default",
+  "name-match": "matched by name",
+};
+
+// Folders detected on the mail server for one child account
+function DetectedFolders({ accountId }: { accountId: number }) {
+  const { data: folders, isLoading, isError, refetch, isFetching } = useQuery<AccountFolders>({
+    queryKey: [`/api/child-accounts/${accountId}/folders`],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    retry: false,
+  });
+  
+  const rescan = async () => {
+    const res = await apiRequest("GET", `/api/child-accounts/${accountId}/folders?refresh=true`);
+    queryClient.setQueryData([`/api/child-accounts/${accountId}/folders`], await res.json());
+  };
+  
+  const roles: Array<{ key: "inbox" | "junk" | "trash" | "sent"; label: string }> = [
+    { key: "inbox", label: "Inbox" },
+    { key: "junk", label: "Junk" },
+    { key: "trash", label: "Trash" },
+    { key: "sent", label: "Sent" },
+  ];
+  
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Detected Folders</label>
+        <Button variant="ghost" size="sm" onClick={() => rescan().catch(() => refetch())} disabled={isFetching}>
+          Rescan
+        </Button>
+      </div>
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Looking up folders...</p>
+      ) : isError || !folders ? (
+        <p className="text-xs text-muted-foreground">Could not connect to the mailbox to list folders.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {roles.map(({ key, label }) => (
+            <div key={key} className="rounded-md border px-3 py-2">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className="text-sm font-medium">{folders[key]?.path || "Not found"}</div>
+              {folders[key] && (
+                <div className="text-xs text-muted-foreground">{folderSourceLabels[folders[key]!.source]}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const folderActionLabels: Record<string, string> = {
+  quarantine: "Quarantine",
+  delete: "Delete",
+  log: "Log only",
+};
+
+// Folders scanned on each check for one child account, each with its own action
+function MonitoredFolders({ accountId }: { accountId: number }) {
+  const { toast } = useToast();
+  const [newFolder, setNewFolder] = useState("inbox");
+  const [customPath, setCustomPath] = useState("");
+  const [newAction, setNewAction] = useState("quarantine");
+  
+  const { data: folders } = useQuery<MonitoredFolder[]>({
+    queryKey: [`/api/child-accounts/${accountId}/monitored-folders`],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update monitored folders",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/child-accounts/${accountId}/monitored-folders`] });
+  };
+  
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const data = newFolder === "custom"
+        ? { folder_path: customPath.trim(), action: newAction }
+        : { folder_role: newFolder, action: newFolder === "sent" ? "log" : newAction };
+      const res = await apiRequest("POST", `/api/child-accounts/${accountId}/monitored-folders`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setCustomPath("");
+      invalidate();
+    },
+    onError,
+  });
+  
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; action?: string; is_active?: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/monitored-folders/${id}`, data);
+      return await res.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+  
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/monitored-folders/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+  
+  const folderLabel = (folder: MonitoredFolder) =>
+    folder.folder_role === "inbox" ? "Inbox"
+      : folder.folder_role === "junk" ? "Junk"
+      : folder.folder_role === "sent" ? "Sent"
+      : folder.folder_path;
+  
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Monitored Folders</label>
+      <p className="text-xs text-muted-foreground">
+        What happens to inappropriate mail found in each folder. On Gmail, the Promotions and Social tabs are part of the Inbox.
+        Sent mail is checked for personal details and worrying language, and only ever produces alerts.
+      </p>
+      {folders && folders.length > 0 ? (
+        <div className="space-y-2">
+          {folders.map((folder) => (
+            <div key={folder.id} className="flex items-center gap-3 rounded-md border px-3 py-2">
+              <Switch
+                checked={folder.is_active}
+                onCheckedChange={(checked) => updateMutation.mutate({ id: folder.id, is_active: checked })}
+              />
+              <span className="flex-1 text-sm font-medium">{folderLabel(folder)}</span>
+              <Select
+                value={folder.action}
+                onValueChange={(value) => updateMutation.mutate({ id: folder.id, action: value })}
+                disabled={folder.folder_role === "sent"}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(folderActionLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(folder.id)}>
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No folders are being scanned for this account.</p>
+      )}
+      <div className="flex flex-col md:flex-row gap-2">
+        <Select value={newFolder} onValueChange={setNewFolder}>
+          <SelectTrigger className="md:w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="inbox">Inbox</SelectItem>
+            <SelectItem value="junk">Junk</SelectItem>
+            <SelectItem value="sent">Sent (alerts only)</SelectItem>
+            <SelectItem value="custom">Other folder...</SelectItem>
+          </SelectContent>
+        </Select>
+        {newFolder === "custom" && (
+          <Input
+            placeholder="Folder path, e.g. Promotions"
+            value={customPath}
+            onChange={(e) => setCustomPath(e.target.value)}
+          />
+        )}
+        <Select value={newFolder === "sent" ? "log" : newAction} onValueChange={setNewAction} disabled={newFolder === "sent"}>
+          <SelectTrigger className="md:w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(folderActionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => addMutation.mutate()}
+          disabled={addMutation.isPending || (newFolder === "custom" && !customPath.trim())}
+        >
+          Add Folder
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Age group and walled-garden mode for one child account, saved as soon as they change
+function SenderApprovalSettings({ account }: { account: PublicChildAccount }) {
+  const { toast } = useToast();
+  
+  const updateMutation = useMutation({
+    mutationFn: async (data: { age_group?: string; approval_mode?: string }) => {
+      const res = await apiRequest("PATCH", `/api/child-accounts/${account.id}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/child-accounts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save setting",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Mirrors approvalService.requiresApproval on the server
+  const autoApproval = account.age_group === "young_child" ||
+    (account.age_group === "pre_teen" && account.filter_level === "high");
+  
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Age Group</label>
+        <Select
+          value={account.age_group || "all"}
+          onValueChange={(value) => updateMutation.mutate({ age_group: value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select age group" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="young_child">Young child (under 9)</SelectItem>
+            <SelectItem value="pre_teen">Pre-teen (9-12)</SelectItem>
+            <SelectItem value="teen">Teen (13+)</SelectItem>
+            <SelectItem value="all">Not specified</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Unknown Senders</label>
+        <Select
+          value={account.approval_mode || "auto"}
+          onValueChange={(value) => updateMutation.mutate({ approval_mode: value })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select approval mode" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Based on age group</SelectItem>
+            <SelectItem value="allowlist">Hold for my approval</SelectItem>
+            <SelectItem value="off">Deliver normally</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {account.approval_mode === "allowlist" || (account.approval_mode === "auto" && autoApproval)
+            ? "Only trusted senders reach the inbox; other mail waits in the approval queue."
+            : "Mail from any sender reaches the inbox after filtering."}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// How strictly one child account's mail is scored, saved as soon as it changes
+function FilterLevelSetting({ account }: { account: PublicChildAccount }) {
+  const { toast } = useToast();
+  
+  const updateMutation = useMutation({
+    mutationFn: async (data: { filter_level: string }) => {
+      const res = await apiRequest("PATCH", `/api/child-accounts/${account.id}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/child-accounts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save setting",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Filter Level</label>
+      <Select
+        value={account.filter_level || "medium"}
+        onValueChange={(value) => updateMutation.mutate({ filter_level: value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select filter level" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="low">Low (minimal filtering)</SelectItem>
+          <SelectItem value="medium">Medium (standard filtering)</SelectItem>
+          <SelectItem value="high">High (strict filtering)</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        Sets how much suspicious content an email may contain before it is flagged. Younger age groups are filtered more strictly.
+      </p>
+    </div>
+  );
+}
+
+// Attachment types blocked for one child account
+type AttachmentPolicyToggle = "block_executables" | "block_scripts" | "block_macro_documents" | "block_encrypted_archives";
+
+const attachmentPolicyToggles: Array<{ key: AttachmentPolicyToggle; label: string; description: string }> = [
+  { key: "block_executables", label: "Programs", description: "Windows, Mac, Android and Java apps, installers and shortcuts" },
+  { key: "block_scripts", label: "Scripts", description: "JavaScript, VBScript, PowerShell, batch and shell scripts" },
+  { key: "block_macro_documents", label: "Documents with macros", description: "Word, Excel and PowerPoint files that contain macros" },
+  { key: "block_encrypted_archives", label: "Locked archives", description: "Password-protected archives, and archives too large or deep to check" },
+];
+
+function AttachmentPolicySettings({ accountId }: { accountId: number }) {
+  const { toast } = useToast();
+  
+  const { data: policy } = useQuery<AttachmentPolicy>({
+    queryKey: [`/api/child-accounts/${accountId}/attachment-policy`],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<AttachmentPolicy, AttachmentPolicyToggle>>) => {
+      const res = await apiRequest("PUT", `/api/child-accounts/${accountId}/attachment-policy`, { ...policy, ...data });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/child-accounts/${accountId}/attachment-policy`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save attachment policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Blocked Attachments</label>
+      <p className="text-xs text-muted-foreground">
+        Attachments are identified from their contents, not their name, and archives are opened to check the files inside.
+        This applies to trusted senders too.
+      </p>
+      <div className="space-y-2">
+        {attachmentPolicyToggles.map((toggle) => (
+          <div key={toggle.key} className="flex items-center gap-3 rounded-md border px-3 py-2">
+            <Switch
+              checked={policy ? policy[toggle.key] : true}
+              onCheckedChange={(checked) => updateMutation.mutate({ [toggle.key]: checked })}
+              disabled={!policy || updateMutation.isPending}
+            />
+            <div className="flex-1">
+              <div className="text-sm font-medium">{toggle.label}</div>
+              <div className="text-xs text-muted-foreground">{toggle.description}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 export default function SettingsPanel({ userId, childAccounts }: SettingsPanelProps) {
   const { toast } = useToast();
   const [selectedAccount, setSelectedAccount] = useState<string>("all");
@@ -38,6 +433,29 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
   // Parse the selected account ID
   const selectedAccountId = selectedAccount === "all" ? null : parseInt(selectedAccount);
   
+  // Report the result of an OAuth connect flow once we are redirected back
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const result = params.get("oauth");
+    if (!result) return;
+    
+    if (result === "success") {
+      toast({
+        title: "Account connected",
+        description: "The email account was connected successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/child-accounts"] });
+    } else {
+      toast({
+        title: "Connection failed",
+        description: `Could not connect the email account (${params.get("reason") || "unknown error"}).`,
+        variant: "destructive",
+      });
+    }
+    
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [toast]);
+  
   // Fetch junk mail preferences
   const { data: junkPreferences, isLoading } = useQuery<JunkMailPreferences>({
     queryKey: ["/api/junk-mail-preferences", { userId, childAccountId: selectedAccountId }],
@@ -55,6 +473,7 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
       keep_receipts: false,
       keep_social_media: false,
       auto_delete_all: false,
+      quarantine_retention_days: 30,
     },
   });
   
@@ -68,6 +487,7 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
         keep_receipts: junkPreferences.keep_receipts,
         keep_social_media: junkPreferences.keep_social_media,
         auto_delete_all: junkPreferences.auto_delete_all,
+        quarantine_retention_days: junkPreferences.quarantine_retention_days,
       });
     }
   }, [junkPreferences, userId, selectedAccountId, junkForm]);
@@ -220,9 +640,9 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
                   render={({ field }) => (
                     <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 border-amber-200 bg-amber-50">
                       <div className="space-y-0.5">
-                        <FormLabel>Auto-Delete All Junk</FormLabel>
+                        <FormLabel>Auto-Quarantine All Junk</FormLabel>
                         <FormDescription>
-                          Automatically delete all junk mail (except from trusted senders)
+                          Move all junk mail to quarantine (except from trusted senders)
                         </FormDescription>
                       </div>
                       <FormControl>
@@ -234,6 +654,23 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
                     </FormItem>
                   )}
                 />
+                
+                <FormField
+                  control={junkForm.control}
+                  name="quarantine_retention_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quarantine Retention (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={365} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Quarantined emails are permanently deleted after this many days
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               
               <div className="flex justify-end pt-4">
@@ -300,8 +737,7 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
                       <label className="text-sm font-medium">App Password</label>
                       <Input 
                         type="password" 
-                        placeholder="••••••••••••••••" 
-                        defaultValue={account.app_password || ""}
+                        placeholder={account.has_app_password ? "Saved (enter a new password to replace it)" : "Not set"} 
                       />
                       <p className="text-xs text-muted-foreground">
                         {account.provider_id === 1 
@@ -310,6 +746,32 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
                       </p>
                     </div>
                     
+                    {oauthProviders[account.provider_id] && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">OAuth Connection</label>
+                        <div className="flex items-center justify-between gap-4">
+                          <p className="text-xs text-muted-foreground">
+                            {account.auth_method === "oauth2" && account.has_oauth_token
+                              ? "Connected. The access token renews automatically."
+                              : `Sign in with ${oauthProviders[account.provider_id].label} to grant access without a password`}
+                          </p>
+                          <Button variant="outline" asChild>
+                            <a href={`/api/oauth/${oauthProviders[account.provider_id].type}/start?childAccountId=${account.id}`}>
+                              {account.auth_method === "oauth2" && account.has_oauth_token ? "Reconnect" : "Connect"} with {oauthProviders[account.provider_id].label}
+                            </a>
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                    
+                    <DetectedFolders accountId={account.id} />
+                    
+                    <MonitoredFolders accountId={account.id} />
+                    
+                    <SenderApprovalSettings account={account} />
+                    
+                    <AttachmentPolicySettings accountId={account.id} />
+                    
                     <div className="space-y-2">
                       <label className="text-sm font-medium">Parent Email for Notifications</label>
                       <Input 
@@ -317,19 +779,9 @@ export default function SettingsPanel({ userId, childAccounts }: SettingsPanelPr
                       />
                     </div>
                     
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">Filter Level</label>
-                      <Select defaultValue={account.filter_level || "medium"}>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select filter level" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="low">Low (minimal filtering)</SelectItem>
-                          <SelectItem value="medium">Medium (standard filtering)</SelectItem>
-                          <SelectItem value="high">High (strict filtering)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                    <FilterLevelSetting account={account} />
+                    
+                    <ContentCategorySettings accountId={account.id} />
                     
                     <div className="flex justify-end pt-4">
                       <Button>
@@ -1,6 +1,6 @@
 import { createContext, ReactNode, useContext } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { insertUserSchema, User } from "@shared/schema";
+import { insertUserSchema, PublicUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -10,7 +10,7 @@ type LoginData = {
 };
 
 type AuthContextType = {
-  user: User | null;
+  user: PublicUser | null;
   isLoading: boolean;
   error: Error | null;
   loginMutation: ReturnType<typeof useLoginMutation>;
@@ -26,7 +26,7 @@ function useLoginMutation() {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: User) => {
+    onSuccess: (user: PublicUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
     onError: (error: Error) => {
@@ -46,7 +46,7 @@ function useRegisterMutation() {
       const res = await apiRequest("POST", "/api/register", userData);
       return await res.json();
     },
-    onSuccess: (user: User) => {
+    onSuccess: (user: PublicUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
     onError: (error: Error) => {
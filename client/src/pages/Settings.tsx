@@ -33,6 +33,8 @@ import { z } from "zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { UserPlus, Filter, Shield, Settings as SettingsIcon } from "lucide-react";
+import ContentCategorySettings from "@/components/content-category-settings";
+import { PublicChildAccount } from "@shared/schema";
 
 // Form validation schemas
 const newAccountSchema = z.object({
@@ -55,7 +57,7 @@ export default function Settings() {
   const queryClient = useQueryClient();
 
   // Fetch child accounts
-  const { data: accounts = [], isLoading: accountsLoading } = useQuery({
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery<PublicChildAccount[]>({
     queryKey: ['/api/child-accounts'],
   });
 
@@ -428,50 +430,27 @@ export default function Settings() {
             <CardHeader>
               <CardTitle>Default Filters</CardTitle>
               <CardDescription>
-                The system includes built-in filters for common inappropriate content
+                The system includes built-in filters for common inappropriate content, grouped into categories you can tune for each account
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                <div className="border rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <Shield className="h-5 w-5 text-primary" />
-                      <h3 className="font-medium">Adult Content Filter</h3>
-                    </div>
-                    <Switch checked={true} disabled />
-                  </div>
-                  <p className="text-sm text-neutral-medium mt-2">
-                    Filters explicit sexual content, pornography, and nudity
-                  </p>
-                </div>
-                
-                <div className="border rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <Shield className="h-5 w-5 text-primary" />
-                      <h3 className="font-medium">Gambling Filter</h3>
-                    </div>
-                    <Switch checked={true} disabled />
-                  </div>
-                  <p className="text-sm text-neutral-medium mt-2">
-                    Filters gambling, betting, casino, and lottery content
-                  </p>
+              {accounts.length === 0 ? (
+                <div className="text-center py-4 text-neutral-medium">
+                  Add a child account to choose which categories are filtered.
                 </div>
-                
-                <div className="border rounded-lg p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <Shield className="h-5 w-5 text-primary" />
-                      <h3 className="font-medium">Medication & Drugs Filter</h3>
+              ) : (
+                <div className="space-y-6">
+                  {accounts.map(account => (
+                    <div key={account.id} className="space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <Shield className="h-5 w-5 text-primary" />
+                        <h3 className="font-medium">{account.display_name}</h3>
+                      </div>
+                      <ContentCategorySettings accountId={account.id} />
                     </div>
-                    <Switch checked={true} disabled />
-                  </div>
-                  <p className="text-sm text-neutral-medium mt-2">
-                    Filters pharmaceutical and recreational drug content
-                  </p>
+                  ))}
                 </div>
-              </div>
+              )}
             </CardContent>
           </Card>
           
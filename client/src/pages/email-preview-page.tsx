@@ -1,6 +1,6 @@
 import React, { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { EmailPreview, EmailPreviewList, ContentSafety } from "@/components/email-preview";
+import { EmailPreview, EmailPreviewList, ContentSafety, LearnedPrediction, DetectedLanguage } from "@/components/email-preview";
 import { EmailPreviewModal } from "@/components/email-preview-modal";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -35,10 +35,25 @@ interface EmailContentAnalysis {
   contentHtml: string;
   contentText: string;
   safety: ApiSafety;
+  score?: number;
+  thresholds?: {
+    warning: number;
+    unsafe: number;
+  };
+  breakdown?: Array<{
+    source: string;
+    detail: string;
+    score: number;
+    normalization?: string;
+  }>;
+  category?: string;
+  prediction?: LearnedPrediction;
+  language?: DetectedLanguage;
   matchedRules?: Array<{
     id: number;
     rule_text: string;
     is_regex: boolean;
+    normalization?: string | null;
   }>;
 }
 
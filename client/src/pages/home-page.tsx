@@ -3,7 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { getQueryFn } from "@/lib/queryClient";
-import { Activity, Inbox, Mail, Settings, Shield, Users, Bell, RefreshCw } from "lucide-react";
+import { Activity, Inbox, Mail, Settings, Shield, Users, Bell, RefreshCw, Archive, UserCheck, Brain } from "lucide-react";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -11,12 +11,15 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 
-import { ChildAccount, ActivityLog, SystemStatus } from "@shared/schema";
+import { PublicChildAccount, ActivityLog, SystemStatus } from "@shared/schema";
 import AddChildAccountDialog from "@/components/add-child-account-dialog";
 import AccountList from "@/components/account-list";
 import ActivityLogsList from "@/components/activity-logs-list";
 import FilterRulesList from "@/components/filter-rules-list";
+import QuarantineList from "@/components/quarantine-list";
+import ApprovalQueue from "@/components/approval-queue";
 import SettingsPanel from "@/components/settings-panel";
+import AdaptiveLearningPanel from "@/components/adaptive-learning-panel";
 
 export default function HomePage() {
   const [activeTab, setActiveTab] = useState("dashboard");
@@ -26,7 +29,7 @@ export default function HomePage() {
   const [addAccountOpen, setAddAccountOpen] = useState(false);
   
   // Fetch child accounts
-  const { data: childAccounts } = useQuery<ChildAccount[]>({
+  const { data: childAccounts } = useQuery<PublicChildAccount[]>({
     queryKey: ["/api/child-accounts", { userId: user?.id }],
     queryFn: getQueryFn({ on401: "returnNull" }),
     enabled: !!user,
@@ -102,6 +105,22 @@ export default function HomePage() {
                 <Activity className="mr-2 h-4 w-4" />
                 Activity
               </Button>
+              <Button 
+                variant={activeTab === "quarantine" ? "default" : "ghost"} 
+                className="justify-start" 
+                onClick={() => setActiveTab("quarantine")}
+              >
+                <Archive className="mr-2 h-4 w-4" />
+                Quarantine
+              </Button>
+              <Button 
+                variant={activeTab === "approvals" ? "default" : "ghost"} 
+                className="justify-start" 
+                onClick={() => setActiveTab("approvals")}
+              >
+                <UserCheck className="mr-2 h-4 w-4" />
+                Approvals
+              </Button>
               <Button 
                 variant={activeTab === "filters" ? "default" : "ghost"} 
                 className="justify-start" 
@@ -110,6 +129,14 @@ export default function HomePage() {
                 <Shield className="mr-2 h-4 w-4" />
                 Filters
               </Button>
+              <Button 
+                variant={activeTab === "learning" ? "default" : "ghost"} 
+                className="justify-start" 
+                onClick={() => setActiveTab("learning")}
+              >
+                <Brain className="mr-2 h-4 w-4" />
+                Learning
+              </Button>
               <Button 
                 variant={activeTab === "settings" ? "default" : "ghost"} 
                 className="justify-start" 
@@ -263,6 +290,9 @@ export default function HomePage() {
                               {log.activity_type === "error" && <Bell className="h-4 w-4 text-amber-500" />}
                               {log.activity_type === "deleted" && <Bell className="h-4 w-4 text-gray-500" />}
                               {log.activity_type === "trusted_sender" && <Shield className="h-4 w-4 text-green-500" />}
+                              {log.activity_type.startsWith("quarantine_") && <Archive className="h-4 w-4 text-gray-500" />}
+                              {log.activity_type.startsWith("approval_") && <UserCheck className="h-4 w-4 text-blue-500" />}
+                              {log.activity_type.startsWith("outgoing_") && <Bell className="h-4 w-4 text-red-600" />}
                             </div>
                             <div>
                               <div className="text-sm font-medium">
@@ -303,6 +333,26 @@ export default function HomePage() {
                 <ActivityLogsList userId={user?.id} />
               </TabsContent>
               
+              <TabsContent value="quarantine">
+                <div className="mb-6">
+                  <h2 className="text-2xl font-bold tracking-tight">Quarantine</h2>
+                  <p className="text-muted-foreground">
+                    Review flagged emails and restore any that were caught by mistake
+                  </p>
+                </div>
+                <QuarantineList userId={user?.id} />
+              </TabsContent>
+              
+              <TabsContent value="approvals">
+                <div className="mb-6">
+                  <h2 className="text-2xl font-bold tracking-tight">Approvals</h2>
+                  <p className="text-muted-foreground">
+                    Decide which unknown senders can reach your child
+                  </p>
+                </div>
+                <ApprovalQueue userId={user?.id} />
+              </TabsContent>
+              
               <TabsContent value="filters">
                 <div className="mb-6">
                   <h2 className="text-2xl font-bold tracking-tight">Filter Rules</h2>
@@ -313,6 +363,16 @@ export default function HomePage() {
                 <FilterRulesList userId={user?.id} />
               </TabsContent>
               
+              <TabsContent value="learning">
+                <div className="mb-6">
+                  <h2 className="text-2xl font-bold tracking-tight">Adaptive Learning</h2>
+                  <p className="text-muted-foreground">
+                    Decide how much say the learned model has, and see how it compares with the rules
+                  </p>
+                </div>
+                <AdaptiveLearningPanel userId={user?.id} />
+              </TabsContent>
+              
               <TabsContent value="settings">
                 <div className="mb-6">
                   <h2 className="text-2xl font-bold tracking-tight">Settings</h2>
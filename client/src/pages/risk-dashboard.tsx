@@ -16,7 +16,7 @@ import { useToast } from "@/hooks/use-toast";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { AlertTriangle, CheckCircle, Info, Shield, Mail, ArrowRight, Calendar, Activity, X, RefreshCw, Inbox } from "lucide-react";
 
-import { ChildAccount, ActivityLog } from "@shared/schema";
+import { PublicChildAccount, ActivityLog } from "@shared/schema";
 
 // Color palette for risk levels
 const RISK_COLORS = {
@@ -228,7 +228,7 @@ export default function RiskDashboard() {
   const [selectedChildId, setSelectedChildId] = useState<number | null>(null);
   
   // Get child accounts
-  const { data: childAccounts, isLoading: isLoadingAccounts } = useQuery<ChildAccount[]>({
+  const { data: childAccounts, isLoading: isLoadingAccounts } = useQuery<PublicChildAccount[]>({
     queryKey: ["/api/child-accounts", { userId: user?.id }],
     queryFn: async () => {
       const res = await apiRequest('GET', `/api/child-accounts?userId=${user?.id}`);
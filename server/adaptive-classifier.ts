@@ -0,0 +1,302 @@
+import { storage } from './storage';
+import { MlFeedback, QuarantinedMessage, LearningMode, learningModes } from '@shared/schema';
+import { tokenize } from './term-matcher';
+import { textNormalizer } from './text-normalizer';
+import { htmlExtractor } from './html-extractor';
+import { applyLearningMode } from './filter-scoring';
+
+export type TokenCounts = Record<string, number>;
+
+export type ClassifierLabel = 'safe' | 'unsafe';
+
+type ClassStats = {
+  examples: number; // Number of examples learned
+  documents: number; // Weighted number of examples, after fading
+  tokens: number; // Weighted sum of all word counts
+  counts: TokenCounts;
+};
+
+export type NaiveBayesModel = Record<ClassifierLabel, ClassStats>;
+
+export type Assessment = {
+  probability: number; // Chance that the message is unsafe, from 0 to 1
+  examples: number; // Number of examples the model has learned
+};
+
+export type ModeAgreement = {
+  mode: LearningMode;
+  predictions: number; // Messages checked while this mode was in force
+  compared: number; // Of those, the ones the rules called safe or unsafe
+  agreed: number; // Of those, the ones the model agreed with
+  overridden: number; // Messages whose verdict the model changed in this mode
+  // Shadow comparison: what this mode would have done with every recorded prediction
+  shadow: {
+    changed: number; // Verdicts it would have changed
+    warningsSettled: number; // Warnings it would have made safe or unsafe
+    unsafeByModel: number; // Messages the rules passed as safe that it would have quarantined
+  };
+};
+
+// Distinct words kept per message, most frequent first
+const MAX_FEATURES = 300;
+// Examples of each class needed before the model gives an opinion
+const MIN_EXAMPLES = 3;
+// Decayed counts below this are dropped to keep the model small
+const PRUNE_BELOW = 0.01;
+
+/**
+ * Adaptive Classifier
+ *
+ * A multinomial Naive Bayes model per user, trained from the user's ML
+ * feedback: corrections to the filter's verdicts, and what parents do with
+ * quarantined mail (restoring it marks it safe, deleting it marks it unsafe).
+ * Training is incremental: only feedback newer than the last run is added,
+ * and the learning rate controls how quickly older examples fade.
+ */
+class AdaptiveClassifier {
+  private models: Map<number, { model: NaiveBayesModel; lastFeedbackId: number }> = new Map();
+  // Training in progress per user, so concurrent checks never learn the same feedback twice
+  private training: Map<number, Promise<NaiveBayesModel>> = new Map();
+
+  /**
+   * The word counts a message is classified by
+   * @param html The raw HTML part; only the text a reader sees is used
+   */
+  features(subject: string, text: string, html: string = ''): TokenCounts {
+    const visible = html ? htmlExtractor.extract(html).visibleText : '';
+    const counts: TokenCounts = {};
+
+    tokenize(textNormalizer.normalize([subject, text, visible].join('\n'))).forEach(token => {
+      if (token.length < 2 || token.length > 30 || /^\d+$/.test(token)) {
+        return;
+      }
+      counts[token] = (counts[token] || 0) + 1;
+    });
+
+    const kept: TokenCounts = {};
+    Object.keys(counts)
+      .sort((a, b) => counts[b] - counts[a])
+      .slice(0, MAX_FEATURES)
+      .forEach(token => kept[token] = counts[token]);
+    return kept;
+  }
+
+  /**
+   * Add any feedback the user's model has not seen yet, and save it
+   * @returns The up-to-date model
+   */
+  async train(userId: number): Promise<NaiveBayesModel> {
+    const pending = this.training.get(userId);
+    if (pending) {
+      return pending;
+    }
+
+    const run = this.learnNewFeedback(userId).finally(() => this.training.delete(userId));
+    this.training.set(userId, run);
+    return run;
+  }
+
+  /**
+   * How likely a message is to be unsafe, going by what the user has taught
+   * the model so far
+   * @returns null until the model has seen enough of both safe and unsafe mail
+   */
+  async assess(userId: number, tokens: TokenCounts): Promise<Assessment | null> {
+    const model = await this.train(userId);
+    if (model.safe.examples < MIN_EXAMPLES || model.unsafe.examples < MIN_EXAMPLES) {
+      return null;
+    }
+
+    const vocabulary = new Set(Object.keys(model.safe.counts).concat(Object.keys(model.unsafe.counts))).size;
+    const documents = model.safe.documents + model.unsafe.documents;
+    const logLikelihood = (stats: ClassStats) => {
+      let total = Math.log(stats.documents / documents);
+      Object.keys(tokens).forEach(token => {
+        // Laplace smoothing, so unseen words do not rule a class out
+        total += tokens[token] * Math.log(((stats.counts[token] || 0) + 1) / (stats.tokens + vocabulary));
+      });
+      return total;
+    };
+
+    const difference = logLikelihood(model.safe) - logLikelihood(model.unsafe);
+    return {
+      probability: 1 / (1 + Math.exp(Math.max(-50, Math.min(50, difference)))),
+      examples: model.safe.examples + model.unsafe.examples
+    };
+  }
+
+  /**
+   * Learn from what a parent did with a quarantined message: restoring it
+   * means it was safe, deleting it means the filter was right
+   */
+  async recordOutcome(record: QuarantinedMessage, outcome: 'restored' | 'purged'): Promise<void> {
+    const tokens = record.features as TokenCounts | null;
+    if (!tokens || Object.keys(tokens).length === 0) {
+      return;
+    }
+
+    await storage.createMlFeedback({
+      user_id: record.user_id,
+      child_account_id: record.child_account_id,
+      email_subject: record.subject,
+      original_classification: 'unsafe',
+      corrected_classification: outcome === 'restored' ? 'safe' : 'unsafe',
+      feedback_notes: outcome === 'restored' ? 'Restored from quarantine' : 'Deleted from quarantine',
+      feature_data: { tokens }
+    });
+    await this.train(record.user_id);
+  }
+
+  /**
+   * Number of safe and unsafe examples the user's model has learned
+   */
+  async stats(userId: number): Promise<Record<ClassifierLabel, number>> {
+    const model = await this.train(userId);
+    return {
+      safe: model.safe.examples,
+      unsafe: model.unsafe.examples
+    };
+  }
+
+  /**
+   * How the model's predictions compare with the rules, per learning mode:
+   * agreement among the messages checked under each mode, and a shadow run
+   * of each mode over every prediction recorded so far
+   */
+  async agreementReport(userId: number): Promise<ModeAgreement[]> {
+    const predictions = await storage.getModelPredictions(userId);
+
+    return learningModes.map(mode => {
+      const recorded = predictions.filter(prediction => prediction.learning_mode === mode);
+      const compared = recorded.filter(prediction => prediction.rule_verdict !== 'warning');
+      const shadow = { changed: 0, warningsSettled: 0, unsafeByModel: 0 };
+
+      predictions.forEach(prediction => {
+        const verdict = applyLearningMode(prediction.rule_verdict, prediction.probability / 100, mode);
+        if (verdict === prediction.rule_verdict) {
+          return;
+        }
+        shadow.changed++;
+        if (prediction.rule_verdict === 'warning') {
+          shadow.warningsSettled++;
+        } else if (verdict === 'unsafe') {
+          shadow.unsafeByModel++;
+        }
+      });
+
+      return {
+        mode,
+        predictions: recorded.length,
+        compared: compared.length,
+        agreed: compared.filter(prediction => prediction.predicted === prediction.rule_verdict).length,
+        overridden: recorded.filter(prediction => prediction.final_verdict !== prediction.rule_verdict).length,
+        shadow
+      };
+    });
+  }
+
+  private async learnNewFeedback(userId: number): Promise<NaiveBayesModel> {
+    const state = await this.load(userId);
+    const feedback = (await storage.getMlFeedback(userId))
+      .filter(entry => entry.id > state.lastFeedbackId)
+      .sort((a, b) => a.id - b.id);
+
+    if (feedback.length === 0) {
+      return state.model;
+    }
+
+    // Every new example fades everything learned before it by the learning rate
+    const rate = await this.learningRate();
+    this.scale(state.model, Math.pow(1 - rate, feedback.length));
+    feedback.forEach((entry, index) => {
+      this.add(state.model, this.labelFor(entry.corrected_classification), this.tokensOf(entry), Math.pow(1 - rate, feedback.length - 1 - index));
+    });
+    this.prune(state.model);
+
+    state.lastFeedbackId = feedback[feedback.length - 1].id;
+    await storage.saveClassifierModel({
+      user_id: userId,
+      model: state.model,
+      last_feedback_id: state.lastFeedbackId
+    });
+
+    return state.model;
+  }
+
+  private async load(userId: number): Promise<{ model: NaiveBayesModel; lastFeedbackId: number }> {
+    const cached = this.models.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const saved = await storage.getClassifierModel(userId);
+    const state = saved
+      ? { model: saved.model as NaiveBayesModel, lastFeedbackId: saved.last_feedback_id }
+      : { model: { safe: this.emptyStats(), unsafe: this.emptyStats() }, lastFeedbackId: 0 };
+    this.models.set(userId, state);
+    return state;
+  }
+
+  /**
+   * The learning rate from the adaptive learning settings, kept below 1 so
+   * a new example never erases everything before it
+   */
+  private async learningRate(): Promise<number> {
+    const status = await storage.getSystemStatus();
+    const rate = parseFloat(status.learning_rate || '0.1');
+    return isNaN(rate) ? 0.1 : Math.max(0, Math.min(0.9, rate));
+  }
+
+  private labelFor(classification: string): ClassifierLabel {
+    // A warning means the parent wanted the message caught too
+    return classification === 'safe' ? 'safe' : 'unsafe';
+  }
+
+  /**
+   * Word counts recorded with the feedback, or the subject's words when the
+   * feedback was given without them
+   */
+  private tokensOf(feedback: MlFeedback): TokenCounts {
+    const data = feedback.feature_data as { tokens?: TokenCounts } | null;
+    if (data && data.tokens && typeof data.tokens === 'object') {
+      return data.tokens;
+    }
+    return this.features(feedback.email_subject || '', '');
+  }
+
+  private add(model: NaiveBayesModel, label: ClassifierLabel, tokens: TokenCounts, weight: number) {
+    const stats = model[label];
+    stats.examples += 1;
+    stats.documents += weight;
+    Object.keys(tokens).forEach(token => {
+      const count = Number(tokens[token]) || 0;
+      stats.counts[token] = (stats.counts[token] || 0) + count * weight;
+      stats.tokens += count * weight;
+    });
+  }
+
+  private scale(model: NaiveBayesModel, factor: number) {
+    [model.safe, model.unsafe].forEach(stats => {
+      stats.documents *= factor;
+      stats.tokens *= factor;
+      Object.keys(stats.counts).forEach(token => stats.counts[token] *= factor);
+    });
+  }
+
+  private prune(model: NaiveBayesModel) {
+    [model.safe, model.unsafe].forEach(stats => {
+      Object.keys(stats.counts).forEach(token => {
+        if (stats.counts[token] < PRUNE_BELOW) {
+          stats.tokens -= stats.counts[token];
+          delete stats.counts[token];
+        }
+      });
+    });
+  }
+
+  private emptyStats(): ClassStats {
+    return { examples: 0, documents: 0, tokens: 0, counts: {} };
+  }
+}
+
+export const adaptiveClassifier = new AdaptiveClassifier();
@@ -0,0 +1,256 @@
+import { storage } from './storage';
+import { ChildAccount, PendingApproval } from '@shared/schema';
+import { EmailProviderManager, EmailProviderInterface, EmailMessage, findOrCreateFolder } from './providers';
+import { extractEmailAddress } from './email-address';
+
+export const PENDING_FOLDER_NAME = 'KidMail Pending Approval';
+
+/**
+ * Approval Service
+ *
+ * Walled-garden mode for young children: mail from anyone who is not a trusted
+ * sender is moved out of the inbox into a "KidMail Pending Approval" folder
+ * until a parent approves or rejects it.
+ */
+class ApprovalService {
+  private storageService: typeof storage | null = null;
+  private folderPaths: Map<number, string> = new Map();
+
+  init(storageService: typeof storage) {
+    this.storageService = storageService;
+  }
+
+  /**
+   * Check whether an account only accepts mail from trusted senders.
+   * In 'auto' mode this follows the account's age group and filter level.
+   * @param account The child account
+   */
+  requiresApproval(account: ChildAccount): boolean {
+    switch (account.approval_mode) {
+      case 'allowlist':
+        return true;
+      case 'off':
+        return false;
+      default:
+        return account.age_group === 'young_child' ||
+          (account.age_group === 'pre_teen' && account.filter_level === 'high');
+    }
+  }
+
+  /**
+   * Find or create the pending folder on an account
+   * @param account The child account
+   * @param provider A connected provider for the account
+   * @returns The folder path, or null if it could not be created
+   */
+  async ensurePendingFolder(account: ChildAccount, provider: EmailProviderInterface): Promise<string | null> {
+    const cached = this.folderPaths.get(account.id);
+    if (cached) {
+      return cached;
+    }
+
+    const path = await findOrCreateFolder(provider, PENDING_FOLDER_NAME);
+    if (path) {
+      this.folderPaths.set(account.id, path);
+      return path;
+    }
+
+    console.error(`Could not create pending folder for ${account.email}:`, provider.getLastError());
+    return null;
+  }
+
+  /**
+   * Move messages from unknown senders into the pending folder and queue them for a parent
+   * @param account The child account
+   * @param provider A connected provider with the source folder selected
+   * @param sourceFolder The folder the messages are in now
+   * @param messages The messages to hold
+   */
+  async holdMessages(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    sourceFolder: string,
+    messages: EmailMessage[]
+  ): Promise<void> {
+    if (!this.storageService) {
+      throw new Error('Approval service not initialized');
+    }
+
+    if (messages.length === 0) {
+      return;
+    }
+
+    const pendingFolder = await this.ensurePendingFolder(account, provider);
+    if (!pendingFolder) {
+      await this.storageService.createActivityLog({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        activity_type: 'error',
+        details: `Could not create the ${PENDING_FOLDER_NAME} folder; ${messages.length} email(s) from unknown senders were left in ${sourceFolder}`
+      });
+      return;
+    }
+
+    for (const message of messages) {
+      const moved = await provider.moveMessage(message.id, pendingFolder);
+      if (!moved) {
+        console.error(`Error holding message ${message.id} for approval:`, provider.getLastError());
+        continue;
+      }
+
+      const senderEmail = extractEmailAddress(message.from || '');
+      await this.storageService.createPendingApproval({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        original_folder: sourceFolder,
+        pending_folder: pendingFolder,
+        message_id_header: message.messageIdHeader ?? null,
+        subject: message.subject || null,
+        sender_email: senderEmail
+      });
+
+      await this.storageService.createActivityLog({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        activity_type: 'approval_pending',
+        details: `Held email from unknown sender for approval: ${message.subject || 'No Subject'}`,
+        sender_email: senderEmail
+      });
+    }
+  }
+
+  /**
+   * Check whether a parent approved a message, so it is not held again when
+   * it reappears in the inbox
+   */
+  async wasApproved(childAccountId: number, messageIdHeader: string): Promise<boolean> {
+    if (!this.storageService) {
+      return false;
+    }
+
+    const record = await this.storageService.findPendingApprovalByHeader(childAccountId, messageIdHeader);
+    return record?.status === 'approved';
+  }
+
+  /**
+   * Deliver a held message to the folder it came from
+   * @param record The pending approval
+   * @param options Whether to also add the sender to the trusted senders
+   * @returns The updated record
+   */
+  async approve(record: PendingApproval, options: { trustSender?: boolean } = {}): Promise<PendingApproval> {
+    if (!this.storageService) {
+      throw new Error('Approval service not initialized');
+    }
+
+    await this.withPendingMessage(record, async (provider, uid) => {
+      const moved = await provider.moveMessage(uid, record.original_folder);
+      if (!moved) {
+        throw new Error(`Could not move the message to ${record.original_folder}`);
+      }
+    });
+
+    let trustedSenderId: number | null = null;
+    if (options.trustSender) {
+      const alreadyTrusted = await this.storageService.isEmailTrusted(record.sender_email, record.user_id, record.child_account_id);
+      if (!alreadyTrusted) {
+        const trustedSender = await this.storageService.createTrustedSender({
+          user_id: record.user_id,
+          child_account_id: record.child_account_id,
+          email_address: record.sender_email,
+          description: 'Approved from the pending queue'
+        });
+        trustedSenderId = trustedSender.id;
+      }
+    }
+
+    const details = trustedSenderId
+      ? `Approved email and trusted sender ${record.sender_email}: ${record.subject || 'No Subject'}`
+      : `Approved email: ${record.subject || 'No Subject'}`;
+    return await this.resolve(record, 'approved', details, trustedSenderId);
+  }
+
+  /**
+   * Delete a held message without delivering it
+   * @param record The pending approval
+   * @returns The updated record
+   */
+  async reject(record: PendingApproval): Promise<PendingApproval> {
+    await this.withPendingMessage(record, async (provider, uid) => {
+      if (!(await provider.deleteMessage(uid))) {
+        throw new Error('Could not delete the message from the pending folder');
+      }
+    }, { allowMissing: true });
+
+    return await this.resolve(record, 'rejected', `Rejected email: ${record.subject || 'No Subject'}`);
+  }
+
+  private async resolve(
+    record: PendingApproval,
+    status: 'approved' | 'rejected',
+    details: string,
+    trustedSenderId: number | null = null
+  ): Promise<PendingApproval> {
+    if (!this.storageService) {
+      throw new Error('Approval service not initialized');
+    }
+
+    const updated = await this.storageService.updatePendingApproval(record.id, {
+      status,
+      resolved_at: new Date(),
+      trusted_sender_id: trustedSenderId
+    });
+
+    await this.storageService.createActivityLog({
+      user_id: record.user_id,
+      child_account_id: record.child_account_id,
+      activity_type: `approval_${status}`,
+      details,
+      sender_email: record.sender_email
+    });
+
+    return updated;
+  }
+
+  /**
+   * Locate a held message in the pending folder and run a task on it
+   * @param options allowMissing skips the task instead of failing when the message is gone
+   */
+  private async withPendingMessage(
+    record: PendingApproval,
+    task: (provider: EmailProviderInterface, uid: string) => Promise<void>,
+    options: { allowMissing?: boolean } = {}
+  ): Promise<void> {
+    if (!this.storageService) {
+      throw new Error('Approval service not initialized');
+    }
+
+    if (!record.message_id_header) {
+      if (options.allowMissing) {
+        return;
+      }
+      throw new Error('This message has no Message-ID and cannot be located in the pending folder');
+    }
+
+    const account = await this.storageService.getChildAccount(record.child_account_id);
+    if (!account) {
+      throw new Error(`Child account ${record.child_account_id} not found`);
+    }
+
+    const providerManager = EmailProviderManager.getInstance();
+    providerManager.setProviderSettings(await this.storageService.getAllEmailProviders());
+    await providerManager.withProvider(account, async provider => {
+      const uid = await provider.findMessageByHeader(record.pending_folder, 'Message-ID', record.message_id_header!);
+      if (!uid) {
+        if (options.allowMissing) {
+          return;
+        }
+        throw new Error('The message is no longer in the pending folder');
+      }
+
+      await task(provider, uid);
+    }, { keepSelection: true });
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -0,0 +1,487 @@
+import { inflateRawSync, gunzipSync } from 'zlib';
+import { AttachmentPolicy } from '@shared/schema';
+
+export type AttachmentFileKind =
+  | 'executable'
+  | 'script'
+  | 'macro_document'
+  | 'document'
+  | 'archive'
+  | 'pdf'
+  | 'image'
+  | 'text'
+  | 'unknown';
+
+/**
+ * One file found in an attachment, either the attachment itself or a file
+ * inside an archive
+ */
+export interface InspectedFile {
+  path: string; // e.g. "photos.zip/holiday/run.exe"
+  kind: AttachmentFileKind;
+  description: string;
+  size: number;
+  encrypted: boolean;
+}
+
+export interface AttachmentInspection {
+  files: InspectedFile[];
+  // Archives that could not be fully listed (limits hit, unsupported formats)
+  problems: string[];
+}
+
+export interface AttachmentVerdict {
+  blocked: boolean;
+  reason: string;
+  files: InspectedFile[];
+}
+
+export type AttachmentPolicySettings = Pick<
+  AttachmentPolicy,
+  'block_executables' | 'block_scripts' | 'block_macro_documents' | 'block_encrypted_archives' | 'max_archive_depth'
+>;
+
+// Used for accounts that have not saved a policy of their own
+export const defaultAttachmentPolicy: AttachmentPolicySettings = {
+  block_executables: true,
+  block_scripts: true,
+  block_macro_documents: true,
+  block_encrypted_archives: true,
+  max_archive_depth: 3
+};
+
+type Attachment = { filename: string; contentType: string; content: Buffer };
+
+// Script formats are plain text, so they can only be recognised by name
+const scriptExtensions = [
+  'js', 'jse', 'vbs', 'vbe', 'wsf', 'wsh', 'ps1', 'psm1', 'bat', 'cmd', 'sh',
+  'hta', 'scr', 'applescript', 'command', 'py', 'pl', 'rb'
+];
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const TAR_BLOCK = 512;
+
+/**
+ * Attachment Inspector
+ *
+ * Works out what each attachment really is from its magic bytes, ignoring the
+ * content type and extension the sender claims, and lists the contents of zip,
+ * tar and gzip archives recursively within size and depth limits.
+ */
+class AttachmentInspector {
+  private maxEntries: number = 500;
+  private maxEntrySize: number = 25 * 1024 * 1024; // 25 MB
+  private maxTotalSize: number = 100 * 1024 * 1024; // 100 MB across one attachment
+
+  /**
+   * Check a message's attachments against a policy
+   * @param attachments The parsed attachments
+   * @param policy The child's attachment policy
+   * @returns Whether to block the message, and why
+   */
+  evaluate(attachments: Attachment[], policy: AttachmentPolicySettings = defaultAttachmentPolicy): AttachmentVerdict {
+    const allFiles: InspectedFile[] = [];
+
+    for (const attachment of attachments) {
+      const content = Buffer.isBuffer(attachment.content) ? attachment.content : Buffer.from(attachment.content);
+      const inspection = this.inspect(attachment.filename, content, policy.max_archive_depth);
+      allFiles.push(...inspection.files);
+
+      const blockedFile = inspection.files.find(file => this.isBlocked(file, policy));
+      if (blockedFile) {
+        const claimed = blockedFile.path === attachment.filename && attachment.contentType
+          ? ` although it claims to be ${attachment.contentType}`
+          : '';
+        return {
+          blocked: true,
+          reason: `Blocked attachment: ${blockedFile.path} is ${this.withArticle(blockedFile.description)}${claimed}`,
+          files: allFiles
+        };
+      }
+
+      if (policy.block_encrypted_archives && inspection.problems.length > 0) {
+        return {
+          blocked: true,
+          reason: `Blocked attachment: ${attachment.filename} could not be inspected (${inspection.problems[0]})`,
+          files: allFiles
+        };
+      }
+    }
+
+    return { blocked: false, reason: '', files: allFiles };
+  }
+
+  /**
+   * List an attachment and, for archives, everything inside it
+   * @param filename The attachment's file name
+   * @param content The attachment's bytes
+   * @param maxDepth How many levels of nested archives to open
+   */
+  inspect(filename: string, content: Buffer, maxDepth: number = defaultAttachmentPolicy.max_archive_depth): AttachmentInspection {
+    const inspection: AttachmentInspection = { files: [], problems: [] };
+    const budget = { entries: 0, bytes: 0 };
+    this.inspectFile(filename, content, 0, maxDepth, inspection, budget);
+    return inspection;
+  }
+
+  /**
+   * Identify a file from its first bytes
+   * @param content The file's bytes
+   * @param filename Only used for formats without magic bytes (scripts, installers)
+   */
+  sniff(content: Buffer, filename: string): { kind: AttachmentFileKind; description: string } {
+    const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+    const startsWith = (...bytes: number[]) => bytes.every((byte, index) => content[index] === byte);
+
+    if (startsWith(0x4d, 0x5a)) {
+      return { kind: 'executable', description: 'Windows executable' };
+    }
+    if (startsWith(0x7f, 0x45, 0x4c, 0x46)) {
+      return { kind: 'executable', description: 'Linux executable' };
+    }
+    if (startsWith(0xfe, 0xed, 0xfa, 0xce) || startsWith(0xfe, 0xed, 0xfa, 0xcf) ||
+        startsWith(0xce, 0xfa, 0xed, 0xfe) || startsWith(0xcf, 0xfa, 0xed, 0xfe)) {
+      return { kind: 'executable', description: 'macOS executable' };
+    }
+    if (startsWith(0xca, 0xfe, 0xba, 0xbe)) {
+      return { kind: 'executable', description: 'macOS or Java executable' };
+    }
+    if (startsWith(0x64, 0x65, 0x78, 0x0a)) {
+      return { kind: 'executable', description: 'Android executable' };
+    }
+    if (startsWith(0x4c, 0x00, 0x00, 0x00, 0x01, 0x14, 0x02, 0x00)) {
+      return { kind: 'executable', description: 'Windows shortcut' };
+    }
+    if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) {
+      return this.sniffCompoundFile(content, extension);
+    }
+    if (startsWith(0x50, 0x4b, 0x03, 0x04) || startsWith(0x50, 0x4b, 0x05, 0x06)) {
+      return this.sniffZip(content);
+    }
+    if (startsWith(0x1f, 0x8b)) {
+      return { kind: 'archive', description: 'gzip archive' };
+    }
+    if (content.length > 262 && content.toString('latin1', 257, 262) === 'ustar') {
+      return { kind: 'archive', description: 'tar archive' };
+    }
+    if (startsWith(0x52, 0x61, 0x72, 0x21, 0x1a, 0x07)) {
+      return { kind: 'archive', description: 'RAR archive' };
+    }
+    if (startsWith(0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c)) {
+      return { kind: 'archive', description: '7-Zip archive' };
+    }
+    if (startsWith(0x25, 0x50, 0x44, 0x46)) {
+      return { kind: 'pdf', description: 'PDF document' };
+    }
+    if (startsWith(0x89, 0x50, 0x4e, 0x47) || startsWith(0xff, 0xd8, 0xff) || startsWith(0x47, 0x49, 0x46, 0x38)) {
+      return { kind: 'image', description: 'image' };
+    }
+    if (startsWith(0x23, 0x21)) {
+      return { kind: 'script', description: 'script' };
+    }
+
+    if (this.looksLikeText(content)) {
+      if (scriptExtensions.includes(extension)) {
+        return { kind: 'script', description: `${extension.toUpperCase()} script` };
+      }
+      return { kind: 'text', description: 'text file' };
+    }
+
+    return { kind: 'unknown', description: 'unrecognised file' };
+  }
+
+  private inspectFile(
+    path: string,
+    content: Buffer,
+    depth: number,
+    maxDepth: number,
+    inspection: AttachmentInspection,
+    budget: { entries: number; bytes: number },
+    encrypted: boolean = false
+  ) {
+    if (encrypted) {
+      inspection.files.push({ path, kind: 'unknown', description: 'password-protected file', size: content.length, encrypted: true });
+      return;
+    }
+
+    const { kind, description } = this.sniff(content, path);
+    inspection.files.push({ path, kind, description, size: content.length, encrypted: false });
+
+    if (kind !== 'archive') {
+      return;
+    }
+
+    if (depth >= maxDepth) {
+      inspection.problems.push(`${path} is nested more than ${maxDepth} level(s) deep`);
+      return;
+    }
+
+    if (description === 'zip archive') {
+      this.inspectZip(path, content, depth, maxDepth, inspection, budget);
+    } else if (description === 'tar archive') {
+      this.inspectTar(path, content, depth, maxDepth, inspection, budget);
+    } else if (description === 'gzip archive') {
+      const inner = this.readLimited(path, () => gunzipSync(content, { maxOutputLength: this.maxEntrySize }), inspection, budget);
+      if (inner) {
+        const name = path.split('/').pop()!.replace(/\.(t?gz|gzip)$/i, match => (match.toLowerCase() === '.tgz' ? '.tar' : ''));
+        this.inspectFile(`${path}/${name}`, inner, depth + 1, maxDepth, inspection, budget);
+      }
+    } else {
+      inspection.problems.push(`${path} is ${this.withArticle(description)}, which cannot be opened`);
+    }
+  }
+
+  private inspectZip(
+    path: string,
+    content: Buffer,
+    depth: number,
+    maxDepth: number,
+    inspection: AttachmentInspection,
+    budget: { entries: number; bytes: number }
+  ) {
+    const entries = this.readZipDirectory(content);
+    if (!entries) {
+      inspection.problems.push(`${path} is a damaged zip archive`);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.endsWith('/')) {
+        continue;
+      }
+      if (++budget.entries > this.maxEntries) {
+        inspection.problems.push(`${path} contains more than ${this.maxEntries} files`);
+        return;
+      }
+
+      const entryPath = `${path}/${entry.name}`;
+      if (entry.encrypted) {
+        this.inspectFile(entryPath, Buffer.alloc(0), depth + 1, maxDepth, inspection, budget, true);
+        continue;
+      }
+      if (entry.uncompressedSize > this.maxEntrySize) {
+        inspection.problems.push(`${entryPath} is too large to inspect`);
+        continue;
+      }
+
+      const data = this.readLimited(entryPath, () => this.readZipEntry(content, entry), inspection, budget);
+      if (data) {
+        this.inspectFile(entryPath, data, depth + 1, maxDepth, inspection, budget);
+      }
+    }
+  }
+
+  private inspectTar(
+    path: string,
+    content: Buffer,
+    depth: number,
+    maxDepth: number,
+    inspection: AttachmentInspection,
+    budget: { entries: number; bytes: number }
+  ) {
+    let offset = 0;
+    let longName: string | null = null;
+
+    while (offset + TAR_BLOCK <= content.length) {
+      const header = content.subarray(offset, offset + TAR_BLOCK);
+      if (header.every(byte => byte === 0)) {
+        break;
+      }
+
+      const size = parseInt(this.readString(header, 124, 12).trim() || '0', 8);
+      const type = String.fromCharCode(header[156] || 0x30);
+      const prefix = this.readString(header, 345, 155);
+      const name = longName ?? (prefix ? `${prefix}/` : '') + this.readString(header, 0, 100);
+      const dataStart = offset + TAR_BLOCK;
+      const data = content.subarray(dataStart, dataStart + size);
+      offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+      longName = null;
+
+      if (isNaN(size)) {
+        inspection.problems.push(`${path} is a damaged tar archive`);
+        return;
+      }
+      if (type === 'L') {
+        // GNU long name: the real name is the data of this entry
+        longName = data.toString('utf8').replace(/\0+$/, '');
+        continue;
+      }
+      if (type !== '0' && type !== '\0' && type !== '7') {
+        continue;
+      }
+      if (++budget.entries > this.maxEntries) {
+        inspection.problems.push(`${path} contains more than ${this.maxEntries} files`);
+        return;
+      }
+      if ((budget.bytes += size) > this.maxTotalSize) {
+        inspection.problems.push(`${path} is too large to inspect`);
+        return;
+      }
+
+      this.inspectFile(`${path}/${name}`, data, depth + 1, maxDepth, inspection, budget);
+    }
+  }
+
+  private readZipDirectory(content: Buffer): Array<{
+    name: string;
+    method: number;
+    encrypted: boolean;
+    compressedSize: number;
+    uncompressedSize: number;
+    localHeaderOffset: number;
+  }> | null {
+    // The end-of-central-directory record sits in the last 64 KB (it may be followed by a comment)
+    let end = -1;
+    for (let i = content.length - 22; i >= Math.max(0, content.length - 65557); i--) {
+      if (content.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      return null;
+    }
+
+    const count = content.readUInt16LE(end + 10);
+    let offset = content.readUInt32LE(end + 16);
+    const entries = [];
+
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > content.length || content.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+        return null;
+      }
+
+      const nameLength = content.readUInt16LE(offset + 28);
+      const extraLength = content.readUInt16LE(offset + 30);
+      const commentLength = content.readUInt16LE(offset + 32);
+      entries.push({
+        name: content.toString('utf8', offset + 46, offset + 46 + nameLength),
+        method: content.readUInt16LE(offset + 10),
+        encrypted: (content.readUInt16LE(offset + 8) & 0x1) === 0x1,
+        compressedSize: content.readUInt32LE(offset + 20),
+        uncompressedSize: content.readUInt32LE(offset + 24),
+        localHeaderOffset: content.readUInt32LE(offset + 42)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  private readZipEntry(
+    content: Buffer,
+    entry: { method: number; compressedSize: number; localHeaderOffset: number }
+  ): Buffer {
+    const offset = entry.localHeaderOffset;
+    if (content.readUInt32LE(offset) !== ZIP_LOCAL_HEADER) {
+      throw new Error('damaged zip entry');
+    }
+
+    const start = offset + 30 + content.readUInt16LE(offset + 26) + content.readUInt16LE(offset + 28);
+    const data = content.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) {
+      return data;
+    }
+    if (entry.method === 8) {
+      return inflateRawSync(data, { maxOutputLength: this.maxEntrySize });
+    }
+    throw new Error(`unsupported zip compression method ${entry.method}`);
+  }
+
+  /**
+   * Decompress one entry, counting it against the attachment's size budget
+   */
+  private readLimited(
+    path: string,
+    read: () => Buffer,
+    inspection: AttachmentInspection,
+    budget: { entries: number; bytes: number }
+  ): Buffer | null {
+    try {
+      const data = read();
+      if ((budget.bytes += data.length) > this.maxTotalSize) {
+        inspection.problems.push(`${path} expands to more than ${this.maxTotalSize / (1024 * 1024)} MB`);
+        return null;
+      }
+      return data;
+    } catch (error) {
+      inspection.problems.push(`${path} could not be decompressed (${error instanceof Error ? error.message : String(error)})`);
+      return null;
+    }
+  }
+
+  /**
+   * Office 97-2003 files, and Windows Installer packages, are OLE compound files
+   */
+  private sniffCompoundFile(content: Buffer, extension: string): { kind: AttachmentFileKind; description: string } {
+    if (['msi', 'msp', 'msm'].includes(extension)) {
+      return { kind: 'executable', description: 'Windows installer' };
+    }
+
+    // Stream names in the compound file directory are UTF-16
+    const hasStream = (name: string) => content.includes(Buffer.from(name, 'utf16le'));
+    if (hasStream('_VBA_PROJECT') || hasStream('Macros')) {
+      return { kind: 'macro_document', description: 'Office document with macros' };
+    }
+    if (hasStream('EncryptedPackage')) {
+      return { kind: 'document', description: 'password-protected Office document' };
+    }
+    return { kind: 'document', description: 'Office document' };
+  }
+
+  /**
+   * Zip containers include Office Open XML documents, Java and Android apps
+   */
+  private sniffZip(content: Buffer): { kind: AttachmentFileKind; description: string } {
+    const names = (this.readZipDirectory(content) || []).map(entry => entry.name);
+
+    if (names.includes('[Content_Types].xml')) {
+      if (names.some(name => /(^|\/)vbaProject\.bin$/i.test(name))) {
+        return { kind: 'macro_document', description: 'Office document with macros' };
+      }
+      return { kind: 'document', description: 'Office document' };
+    }
+    if (names.includes('AndroidManifest.xml') && names.includes('classes.dex')) {
+      return { kind: 'executable', description: 'Android app' };
+    }
+    if (names.includes('META-INF/MANIFEST.MF') && names.some(name => name.endsWith('.class'))) {
+      return { kind: 'executable', description: 'Java application' };
+    }
+    return { kind: 'archive', description: 'zip archive' };
+  }
+
+  private isBlocked(file: InspectedFile, policy: AttachmentPolicySettings): boolean {
+    switch (file.kind) {
+      case 'executable':
+        return policy.block_executables;
+      case 'script':
+        return policy.block_scripts;
+      case 'macro_document':
+        return policy.block_macro_documents;
+      default:
+        return file.encrypted && policy.block_encrypted_archives;
+    }
+  }
+
+  private looksLikeText(content: Buffer): boolean {
+    const sample = content.subarray(0, 1024);
+    if (sample.length === 0) {
+      return false;
+    }
+    const binary = sample.filter(byte => byte === 0 || (byte < 0x09) || (byte > 0x0d && byte < 0x20)).length;
+    return binary / sample.length < 0.01;
+  }
+
+  private readString(buffer: Buffer, offset: number, length: number): string {
+    return buffer.toString('utf8', offset, offset + length).replace(/\0[\s\S]*$/, '');
+  }
+
+  private withArticle(description: string): string {
+    return /^[aeiou]/i.test(description) ? `an ${description}` : `a ${description}`;
+  }
+}
+
+export const attachmentInspector = new AttachmentInspector();
@@ -9,6 +9,7 @@ import connectPgSimple from "connect-pg-simple";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
 import { pool } from "./db";
+import { toPublicUser } from "./serializers";
 
 declare global {
   namespace Express {
@@ -16,6 +17,17 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // In-flight OAuth connect flows, keyed by the nonce in the signed state
+    oauthFlows?: Record<string, {
+      codeVerifier: string;
+      redirectUri: string;
+      createdAt: number;
+    }>;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 const MemoryStore = createMemoryStore(session);
 const PgSessionStore = connectPgSimple(session);
@@ -101,7 +113,7 @@ export function setupAuth(app: Express) {
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (err) {
       next(err);
@@ -109,7 +121,7 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+    res.status(200).json(toPublicUser(req.user!));
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -121,6 +133,6 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
   });
 }
\ No newline at end of file
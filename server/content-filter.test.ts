@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { contentFilter, RuleDraft } from './content-filter';
+
+// Users of their own, so the demo data's filter rules do not apply
+const userId = 901;
+const otherUserId = 902;
+
+const rule = (rule_text: string, options: Partial<RuleDraft> = {}): RuleDraft => ({
+  rule_text, is_regex: false, match_mode: 'word', match_phrase: true, weight: 50, category: null, child_account_id: null, ...options
+});
+
+// The custom terms a compiled rule set finds in some text
+async function customTerms(user: number, childAccountId: number, text: string): Promise<string[]> {
+  const ruleSet = await contentFilter['getRuleSet'](user, childAccountId);
+  return ruleSet.terms.match(text).filter(term => term.custom).map(term => term.text);
+}
+
+test('compiles a rule set once per user and child account until the rules change', async () => {
+  await storage.createFilterRule({ user_id: userId, rule_text: 'homework club' });
+  const first = await contentFilter['getRuleSet'](userId, 1);
+
+  assert.equal(await contentFilter['getRuleSet'](userId, 1), first);
+  assert.notEqual(await contentFilter['getRuleSet'](userId, 2), first);
+
+  const added = await storage.createFilterRule({ user_id: userId, rule_text: 'sleepover' });
+  const rebuilt = await contentFilter['getRuleSet'](userId, 1);
+  assert.notEqual(rebuilt, first);
+  assert.deepEqual(await customTerms(userId, 1, 'homework club sleepover'), ['homework club', 'sleepover']);
+
+  await storage.deleteFilterRule(added.id);
+  assert.deepEqual(await customTerms(userId, 1, 'homework club sleepover'), ['homework club']);
+});
+
+test('keeps each child account and user to its own rules', async () => {
+  await storage.createFilterRule({ user_id: userId, rule_text: 'skate park', child_account_id: 2 });
+
+  assert.deepEqual(await customTerms(userId, 1, 'skate park'), []);
+  assert.deepEqual(await customTerms(userId, 2, 'skate park'), ['skate park']);
+  assert.deepEqual(await customTerms(otherUserId, 2, 'homework club skate park'), []);
+});
+
+test('compiles draft rules without the default terms', () => {
+  const ruleSet = contentFilter['compileRuleSet']('', [
+    rule('gambl', { match_mode: 'prefix' }),
+    rule('v[i1]agra', { is_regex: true }),
+    rule('(unclosed', { is_regex: true }),
+    rule('(a+)+$', { is_regex: true })
+  ], false);
+
+  assert.deepEqual(ruleSet.terms.match('gambling and sex').map(term => term.text), ['gambl']);
+  assert.deepEqual(ruleSet.regexes.map(({ regex }) => regex.source), ['v[i1]agra']);
+});
+
+test('counts default terms only as whole words', async () => {
+  const clean = await contentFilter.checkContent('Alphabet soup', 'Our Muslim friends in Sussex are slimming down', '');
+  assert.deepEqual(clean.breakdown.filter(item => item.source === 'term'), []);
+
+  const flagged = await contentFilter.checkContent('Place a bet', 'Best odds tonight', '');
+  assert.deepEqual(flagged.breakdown.filter(item => item.source === 'term').map(item => item.detail), ['Contains blocked term: bet']);
+});
+
+test('judges the same message by the child\'s filter level and age group', async () => {
+  // One gambling term, worth 25 points
+  const check = async (filter_level: string, age_group: string) => {
+    await storage.updateChildAccount(1, { filter_level, age_group });
+    const result = await contentFilter.checkContent('Place a bet', 'Best odds tonight', '', undefined, undefined, 1);
+    assert.equal(result.score, 25);
+    return result.verdict;
+  };
+
+  assert.equal(await check('low', 'all'), 'safe');
+  assert.equal(await check('medium', 'all'), 'warning');
+  assert.equal(await check('high', 'all'), 'unsafe');
+  assert.equal(await check('medium', 'young_child'), 'unsafe');
+  assert.equal(await check('medium', 'teen'), 'warning');
+  assert.equal(await check('low', 'teen'), 'safe');
+});
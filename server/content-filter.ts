@@ -1,194 +1,598 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
 import { storage } from './storage';
+import { attachmentInspector, defaultAttachmentPolicy } from './attachment-inspector';
+import { linkAnalyzer } from './link-analyzer';
+import { headerAnalyzer } from './header-analyzer';
+import { DkimResult } from './dkim-verifier';
+import { TermMatcher, TermPattern } from './term-matcher';
+import { textNormalizer, normalizationLabels, NormalizationStep } from './text-normalizer';
+import { htmlExtractor, hiddenTextLabels, HiddenText } from './html-extractor';
+import { detectorWeights, scoreThresholds, verdictFor, categoryFactor, leadingCategory, applyLearningMode, FilterVerdict, LearnedPrediction, ScoreItem, ScoreThresholds, ThreatType } from './filter-scoring';
+import { adaptiveClassifier } from './adaptive-classifier';
+import { languageDetector, DetectedLanguage } from './language-detector';
+import { hasNestedQuantifier } from './regex-safety';
+import { FilterRule, ContentCategory, contentCategories, FilterLanguage, filterLanguages, filterLanguageLabels } from '@shared/schema';
 
-type FilterResult = {
-  isInappropriate: boolean;
-  reason: string;
+export type FilterResult = {
+  verdict: FilterVerdict;
+  score: number; // Sum of the breakdown
+  thresholds: ScoreThresholds; // For the child's filter level and age group
+  breakdown: ScoreItem[]; // Everything that added to the score, in the order it was found
+  threatType?: ThreatType; // From the highest-scoring phishing or link finding
+  category?: ContentCategory; // The content category that added the most points
+  prediction?: LearnedPrediction; // The adaptive classifier's opinion, when adaptive learning is on
+  language?: DetectedLanguage; // The language the message is written in, when it could be told
+  trustedSender?: boolean; // The content was not filtered because the sender is trusted
+};
+
+// A filter rule as far as matching is concerned, saved or not
+export type RuleDraft = Pick<FilterRule, 'rule_text' | 'is_regex' | 'match_mode' | 'match_phrase' | 'weight' | 'category' | 'child_account_id'>;
+
+export type RuleMatch<R extends RuleDraft = FilterRule> = {
+  rule: R;
+  normalization: NormalizationStep | null; // null when the rule matched the text as written
+};
+
+// The text of a message as checkContent reads it
+export type MessageText = {
+  childAccountId: number | null;
+  visibleText: string; // Subject and the text a reader sees
+  hiddenText: string; // Image descriptions, link titles and hidden HTML text
+};
+
+type BlockedTerm = {
+  text: string;
+  custom: boolean; // From the user's own rules rather than the defaults
+  weight: number;
+  category: ContentCategory | null;
+  language: FilterLanguage | null; // The default list the term is from; null for the user's own rules
+};
+
+type DefaultFilter = {
+  category: ContentCategory;
+  weight: number;
+  terms: string[];
+};
+
+// Default filter list per language, one file named by language code, relative to the working directory
+const DEFAULT_FILTERS_DIR = 'server/data/filters';
+// Below this the detected language is a guess, and every language's terms apply
+const MIN_LANGUAGE_CONFIDENCE = 0.03;
+// Built at runtime: Unicode property escapes are beyond the compile target
+const COMBINING_MARK = new RegExp('\\p{Mn}', 'gu');
+
+// Points each category adds for a child; categories not listed count in full
+type CategoryFactors = Partial<Record<ContentCategory, number>>;
+
+type RuleSet = {
+  signature: string; // Identifies the rules it was compiled from
+  terms: TermMatcher<BlockedTerm>;
+  regexes: Array<{ regex: RegExp; weight: number; category: ContentCategory | null }>;
 };
 
 class ContentFilter {
-  // Default filter list with common problematic terms
-  private defaultFilters: string[] = [
-    "viagra", "cialis", "adult content", "xxx",
-    "casino", "gambling", "lottery", "bet",
-    "penis", "enlargement", "breast", "sex",
-    "dating", "hookup", "one night", "prostitute",
-    "porn", "porno", "pornography", "nude",
-    "naked", "sexy single", "hot girl", "webcam",
-    "prescription", "medication", "pharmacy",
-    "loan", "credit", "debt", "mortgage", "refinance",
-    "weight loss", "diet pill", "slim", "burn fat"
-  ];
-  
-  private defaultRegexFilters: RegExp[] = [
-    /\bsex\b/i,
-    /\bcasino\b/i,
-    /\bxxx\b/i,
-    /\bporn\b/i,
-    /\bgambling\b/i
-  ];
-  
-  private customFilters: Map<number, string[]> = new Map();
-  private customRegexFilters: Map<number, RegExp[]> = new Map();
+  // Default filter lists with common problematic terms, per language, read from DEFAULT_FILTERS_DIR
+  private defaultFilters: Record<FilterLanguage, DefaultFilter[]> | null = null;
+  
+  // Words that make an image's alt text inappropriate
+  private adultImageKeywords = new TermMatcher(
+    ['nude', 'naked', 'xxx', 'porn', 'adult'].map(keyword => ({ text: keyword, value: keyword }))
+  );
+  
+  private ruleSets: Map<string, RuleSet> = new Map();
   
   async loadCustomFilters() {
     try {
-      // Load all filter rules
+      // Compile each user's rules ahead of the first check
       const rules = await storage.getAllFilterRules();
+      const userIds = Array.from(new Set(rules.map(rule => rule.user_id)));
       
-      // Group rules by user_id
-      const userRules = new Map<number, { text: string; isRegex: boolean }[]>();
-      
-      rules.forEach(rule => {
-        if (!userRules.has(rule.user_id)) {
-          userRules.set(rule.user_id, []);
-        }
-        userRules.get(rule.user_id)!.push({
-          text: rule.rule_text,
-          isRegex: rule.is_regex
-        });
-      });
-      
-      // Process each user's rules
-      for (const [userId, rules] of userRules.entries()) {
-        const textFilters: string[] = [];
-        const regexFilters: RegExp[] = [];
-        
-        rules.forEach(rule => {
-          if (rule.isRegex) {
-            try {
-              // Create RegExp from rule text
-              const regex = new RegExp(rule.text, 'i');
-              regexFilters.push(regex);
-            } catch (e) {
-              console.error(`Invalid regex pattern for user ${userId}:`, rule.text);
-            }
-          } else {
-            textFilters.push(rule.text.toLowerCase());
-          }
-        });
-        
-        this.customFilters.set(userId, textFilters);
-        this.customRegexFilters.set(userId, regexFilters);
+      for (const userId of userIds) {
+        await this.getRuleSet(userId);
       }
       
-      console.log(`Loaded custom filters for ${userRules.size} users`);
+      console.log(`Loaded custom filters for ${userIds.length} users`);
     } catch (error) {
       console.error('Error loading custom filters:', error);
     }
   }
   
-  async checkContent(subject: string, textContent: string, htmlContent: string, userId?: number, senderEmail?: string, childAccountId?: number): Promise<FilterResult> {
-    // Skip filtering if the sender is trusted
+  /**
+   * Score a message. Every detector that finds something adds weighted items
+   * to the breakdown, and the total is compared with thresholds that depend
+   * on the child's filter level and age group. Terms count according to the
+   * child's setting for their content category, and default terms only in
+   * English and the language the message is written in.
+   */
+  async checkContent(
+    subject: string,
+    textContent: string,
+    htmlContent: string,
+    userId?: number,
+    senderEmail?: string,
+    childAccountId?: number,
+    attachments: Array<{ filename: string; contentType: string; content: Buffer }> = [],
+    headers: Record<string, string> = {},
+    dkimResults: DkimResult[] = []
+  ): Promise<FilterResult> {
+    const child = childAccountId !== undefined ? await storage.getChildAccount(childAccountId) : undefined;
+    const thresholds = scoreThresholds(child?.filter_level, child?.age_group);
+    const factors = await this.getCategoryFactors(childAccountId);
+    const breakdown: ScoreItem[] = [];
+    
+    // Check attachments first: a trusted sender's hacked account is a common way malware arrives
+    if (attachments.length > 0) {
+      const policy = (childAccountId !== undefined && await storage.getAttachmentPolicy(childAccountId)) || defaultAttachmentPolicy;
+      const verdict = attachmentInspector.evaluate(attachments, policy);
+      if (verdict.blocked) {
+        breakdown.push({ source: 'attachment', detail: verdict.reason, score: detectorWeights.blockedAttachment });
+      }
+    }
+    
+    // Impersonation: forged or borrowed sender identities, redirected replies
     if (userId !== undefined && senderEmail) {
-      const isTrusted = await storage.isEmailTrusted(senderEmail, userId, childAccountId);
+      const trustedSenders = (await storage.getTrustedSenders(userId)).filter(sender =>
+        sender.child_account_id === null || childAccountId === undefined || sender.child_account_id === childAccountId
+      );
+      const headerAnalysis = headerAnalyzer.analyze(senderEmail, headers, trustedSenders, dkimResults);
+      headerAnalysis.findings.forEach(finding => breakdown.push({
+        source: 'sender',
+        detail: `Possible phishing: sender ${finding.detail}`,
+        score: detectorWeights.sender[finding.category],
+        threatType: 'phishing'
+      }));
+    }
+    
+    // Content from a trusted sender is not filtered
+    if (userId !== undefined && senderEmail) {
+      const isTrusted = await storage.isEmailTrusted(senderEmail, userId, childAccountId, headers, dkimResults);
       if (isTrusted) {
-        return {
-          isInappropriate: false,
-          reason: 'Sender is trusted'
-        };
+        return { ...this.score(breakdown, thresholds), trustedSender: true };
       }
     }
     
-    // Combine and normalize text for checking
-    const allText = `${subject} ${textContent}`.toLowerCase();
+    // Links are the main phishing vector
+    linkAnalyzer.analyze(textContent, htmlContent).forEach(finding => breakdown.push({
+      source: 'link',
+      detail: `Suspicious link: ${finding.url} (${finding.detail})`,
+      score: detectorWeights.link[finding.category],
+      threatType: 'suspicious_link'
+    }));
+    
+    // Read the HTML part as the child would see it, keeping hidden text apart
+    const html = htmlContent ? htmlExtractor.extract(htmlContent) : null;
+    const ruleSet = await this.getRuleSet(userId, childAccountId);
+    const seen = new Set<string>();
+    
+    const visibleText = [subject, textContent, html?.visibleText].filter(Boolean).join('\n');
+    const language = languageDetector.detect(visibleText);
+    const languages = this.languagesFor(language);
     
-    // First check default filters
-    for (const filter of this.defaultFilters) {
-      if (allText.includes(filter.toLowerCase())) {
-        return {
-          isInappropriate: true,
-          reason: `Contains blocked term: ${filter}`
-        };
+    breakdown.push(...this.matchTerms(ruleSet, factors, languages, visibleText, '', seen));
+    
+    if (html) {
+      // Images described in adult terms
+      const keywords = new Set<string>();
+      const adultFactor = factors.adult ?? 1;
+      if (adultFactor > 0) {
+        html.altTexts.forEach(alt => this.adultImageKeywords.match(textNormalizer.normalize(alt)).forEach(keyword => keywords.add(keyword)));
       }
+      keywords.forEach(keyword => breakdown.push({
+        source: 'image',
+        detail: `Contains potentially inappropriate image (${keyword})`,
+        score: Math.round(detectorWeights.adultImage * adultFactor),
+        category: 'adult'
+      }));
+      
+      breakdown.push(...this.matchTerms(ruleSet, factors, languages, html.attributeText, ' in image or link descriptions', seen));
+      breakdown.push(...this.matchTerms(ruleSet, factors, languages, html.hiddenText, ' in hidden text', seen));
+      breakdown.push(...this.hiddenTextItems(html.hidden));
     }
     
-    // Check default regex filters
-    for (const regex of this.defaultRegexFilters) {
-      if (regex.test(allText)) {
-        return {
-          isInappropriate: true,
-          reason: `Matches blocked pattern: ${regex.source}`
-        };
-      }
+    // Disguising blocked terms is a signal of its own, counted once
+    const disguised = breakdown.find(item => item.normalization);
+    if (disguised && disguised.normalization) {
+      breakdown.push({
+        source: 'obfuscation',
+        detail: `Blocked terms disguised with ${normalizationLabels[disguised.normalization]}`,
+        score: detectorWeights.obfuscation,
+        normalization: disguised.normalization
+      });
     }
     
-    // If user ID is provided, check user-specific filters
+    const result = this.score(breakdown, thresholds);
+    result.language = language ?? undefined;
+    
+    // What the parent has taught the adaptive classifier, with as much say as the learning mode gives it
     if (userId !== undefined) {
-      // Check custom text filters for this user
-      const userFilters = this.customFilters.get(userId) || [];
-      for (const filter of userFilters) {
-        if (allText.includes(filter)) {
-          return {
-            isInappropriate: true,
-            reason: `Contains custom blocked term: ${filter}`
-          };
-        }
-      }
-      
-      // Check custom regex filters for this user
-      const userRegexFilters = this.customRegexFilters.get(userId) || [];
-      for (const regex of userRegexFilters) {
-        if (regex.test(allText)) {
-          return {
-            isInappropriate: true,
-            reason: `Matches custom blocked pattern: ${regex.source}`
-          };
-        }
+      const prediction = await this.predict(userId, result.verdict, subject, textContent, htmlContent);
+      if (prediction) {
+        result.prediction = prediction;
+        result.verdict = applyLearningMode(result.verdict, prediction.probability, prediction.mode);
       }
     }
     
-    // Additional check for HTML content - look for common adult image keywords in alt tags
-    if (htmlContent) {
-      const lowerHtml = htmlContent.toLowerCase();
-      const adultImageKeywords = ['nude', 'naked', 'xxx', 'porn', 'adult'];
-      
-      for (const keyword of adultImageKeywords) {
-        if (lowerHtml.includes(`alt="${keyword}"`) || lowerHtml.includes(`alt='${keyword}'`)) {
-          return {
-            isInappropriate: true,
-            reason: `Contains potentially inappropriate image (${keyword})`
-          };
-        }
+    return result;
+  }
+  
+  /**
+   * Which of the given rules match any of the texts, with the same matching
+   * and normalization that checkContent uses
+   * @param rules Filter rules to test
+   * @param texts The texts to search, e.g. subject and body
+   * @returns Each matching rule with the normalization step that revealed it
+   */
+  findMatchingRules<R extends RuleDraft>(rules: R[], ...texts: string[]): RuleMatch<R>[] {
+    const matcher = new TermMatcher(rules.filter(rule => !rule.is_regex).map(rule => ({
+      text: rule.rule_text,
+      mode: rule.match_mode,
+      phrase: rule.match_phrase,
+      value: rule
+    })));
+    const regexes = new Map<R, RegExp>();
+    rules.filter(rule => rule.is_regex).forEach(rule => {
+      if (hasNestedQuantifier(rule.rule_text)) {
+        console.error(`Skipping regex in rule ${rule.rule_text}: it could take too long to run`);
+        return;
       }
-    }
+      try {
+        regexes.set(rule, new RegExp(rule.rule_text, 'i'));
+      } catch (error) {
+        console.error(`Invalid regex in rule ${rule.rule_text}:`, error);
+      }
+    });
     
-    // If we get here, content is appropriate
-    return {
-      isInappropriate: false,
-      reason: ''
-    };
+    const revealedBy = new Map<R, NormalizationStep | null>();
+    texts.forEach(text => {
+      textNormalizer.variants(text).forEach(variant => {
+        const matched = new Set(matcher.match(variant.text));
+        rules.forEach(rule => {
+          const regex = regexes.get(rule);
+          if (!revealedBy.has(rule) && (matched.has(rule) || (regex && regex.test(variant.text)))) {
+            revealedBy.set(rule, variant.step);
+          }
+        });
+      });
+    });
+    
+    return rules
+      .filter(rule => revealedBy.has(rule))
+      .map(rule => ({ rule, normalization: revealedBy.get(rule)! }));
+  }
+  
+  /**
+   * Score messages against the given custom rules alone, the way checkContent
+   * scores them, to try out rules before they are saved. Rules for another
+   * child account than a message's do not apply to it.
+   * @returns The score items of each message, in the order given
+   */
+  async scoreCustomRules(rules: RuleDraft[], messages: MessageText[]): Promise<ScoreItem[][]> {
+    const ruleSets = new Map<number | null, RuleSet>();
+    const factors = new Map<number | null, CategoryFactors>();
+    
+    const results: ScoreItem[][] = [];
+    for (const message of messages) {
+      const child = message.childAccountId;
+      if (!ruleSets.has(child)) {
+        ruleSets.set(child, this.compileRuleSet('', rules.filter(rule =>
+          rule.child_account_id === null || child === null || rule.child_account_id === child
+        ), false));
+        factors.set(child, await this.getCategoryFactors(child ?? undefined));
+      }
+      
+      const ruleSet = ruleSets.get(child)!;
+      const seen = new Set<string>();
+      results.push([
+        ...this.matchTerms(ruleSet, factors.get(child)!, null, message.visibleText, '', seen),
+        ...this.matchTerms(ruleSet, factors.get(child)!, null, message.hiddenText, ' in hidden text', seen)
+      ]);
+    }
+    return results;
   }
   
   async addCustomFilter(userId: number, filterText: string, isRegex: boolean) {
     try {
-      // Save to database
-      await storage.createFilterRule({
-        user_id: userId,
-        rule_text: filterText,
-        is_regex: isRegex
-      });
-      
-      // Update in-memory filters
       if (isRegex) {
         try {
-          const regex = new RegExp(filterText, 'i');
-          const userRegexFilters = this.customRegexFilters.get(userId) || [];
-          userRegexFilters.push(regex);
-          this.customRegexFilters.set(userId, userRegexFilters);
+          new RegExp(filterText, 'i');
         } catch (e) {
           console.error(`Invalid regex pattern:`, filterText);
           throw new Error(`Invalid regex pattern: ${filterText}`);
         }
-      } else {
-        const userFilters = this.customFilters.get(userId) || [];
-        userFilters.push(filterText.toLowerCase());
-        this.customFilters.set(userId, userFilters);
+        if (hasNestedQuantifier(filterText)) {
+          throw new Error(`Regex pattern repeats a repeated group and could take too long to run: ${filterText}`);
+        }
       }
+      
+      // Rule sets are rebuilt from storage on the next check
+      await storage.createFilterRule({
+        user_id: userId,
+        rule_text: filterText,
+        is_regex: isRegex
+      });
     } catch (error) {
       console.error('Error adding custom filter:', error);
       throw error;
     }
   }
+  
+  /**
+   * Total a breakdown and turn it into a verdict
+   */
+  private score(breakdown: ScoreItem[], thresholds: ScoreThresholds): FilterResult {
+    const score = breakdown.reduce((total, item) => total + item.score, 0);
+    const threat = breakdown
+      .filter(item => item.threatType)
+      .sort((a, b) => b.score - a.score)[0];
+    
+    return {
+      verdict: verdictFor(score, thresholds),
+      score,
+      thresholds,
+      breakdown,
+      threatType: threat?.threatType,
+      category: leadingCategory(breakdown)
+    };
+  }
+  
+  /**
+   * Check text against blocked terms, default ones first, then the user's
+   * own rules. Every term found counts, once across the whole message; a
+   * term first found after normalization records the step that revealed it.
+   * Terms in categories turned off for the child are skipped, as are default
+   * terms in languages that do not apply.
+   * @param factors How much each category counts for the child
+   * @param languages Languages whose default terms apply; null for all
+   * @param where Where the text came from, for the detail, e.g. " in hidden text"
+   * @param seen Terms and patterns already counted for this message
+   */
+  private matchTerms(ruleSet: RuleSet, factors: CategoryFactors, languages: Set<FilterLanguage> | null, text: string, where: string, seen: Set<string>): ScoreItem[] {
+    if (!text) {
+      return [];
+    }
+    
+    const items: ScoreItem[] = [];
+    const factorFor = (category: ContentCategory | null) => category ? factors[category] ?? 1 : 1;
+    
+    textNormalizer.variants(text).forEach(variant => {
+      const revealedBy = variant.step ? ` (revealed by ${normalizationLabels[variant.step]})` : '';
+      const normalization = variant.step ?? undefined;
+      
+      ruleSet.terms.match(variant.text).forEach(term => {
+        // A term in more than one language's list counts once
+        const key = `${term.custom ? 'custom' : 'default'}:${term.text}`;
+        const factor = factorFor(term.category);
+        if (seen.has(key) || factor === 0 || (term.language && languages && !languages.has(term.language))) {
+          return;
+        }
+        seen.add(key);
+        const language = term.language && term.language !== 'en' ? ` (${filterLanguageLabels[term.language]})` : '';
+        items.push({
+          source: term.custom ? 'custom_rule' : 'term',
+          detail: `${term.custom ? 'Contains custom blocked term' : 'Contains blocked term'}${where}: ${term.text}${language}${revealedBy}`,
+          score: Math.round(term.weight * factor),
+          normalization,
+          category: term.category ?? undefined
+        });
+      });
+      
+      ruleSet.regexes.forEach(({ regex, weight, category }) => {
+        const key = `regex:${regex.source}`;
+        const factor = factorFor(category);
+        if (seen.has(key) || factor === 0 || !regex.test(variant.text)) {
+          return;
+        }
+        seen.add(key);
+        items.push({
+          source: 'custom_rule',
+          detail: `Matches custom blocked pattern${where}: ${regex.source}${revealedBy}`,
+          score: Math.round(weight * factor),
+          normalization,
+          category: category ?? undefined
+        });
+      });
+    });
+    
+    return items;
+  }
+  
+  /**
+   * What the adaptive classifier predicts for a message. Nothing is
+   * predicted while adaptive learning is off or the model has too few
+   * examples.
+   * @param ruleVerdict The verdict of the score alone, recorded for comparison
+   */
+  private async predict(userId: number, ruleVerdict: FilterVerdict, subject: string, textContent: string, htmlContent: string): Promise<LearnedPrediction | null> {
+    const status = await storage.getSystemStatus();
+    if (!status.adaptive_learning_enabled) {
+      return null;
+    }
+    
+    try {
+      const assessment = await adaptiveClassifier.assess(userId, adaptiveClassifier.features(subject, textContent, htmlContent));
+      if (!assessment) {
+        return null;
+      }
+      
+      return {
+        mode: status.learning_mode || 'passive',
+        predicted: assessment.probability >= 0.5 ? 'unsafe' : 'safe',
+        probability: assessment.probability,
+        ruleVerdict
+      };
+    } catch (error) {
+      console.error(`Error running adaptive classifier for user ${userId}:`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Score hidden HTML text once per way it was hidden. Hidden text is common
+   * in legitimate newsletters too (preview text), so it weighs little on its own.
+   */
+  private hiddenTextItems(hidden: HiddenText[]): ScoreItem[] {
+    const items: ScoreItem[] = [];
+    const categories = new Set<string>();
+    
+    hidden.forEach(item => {
+      if (categories.has(item.category)) {
+        return;
+      }
+      categories.add(item.category);
+      const excerpt = item.text.length > 60 ? `${item.text.slice(0, 57)}...` : item.text;
+      items.push({
+        source: 'hidden_text',
+        detail: `Hidden text (${hiddenTextLabels[item.category]}): "${excerpt}"`,
+        score: detectorWeights.hiddenText[item.category]
+      });
+    });
+    
+    return items;
+  }
+  
+  /**
+   * How much each category counts for a child account, from its saved
+   * category settings
+   */
+  private async getCategoryFactors(childAccountId?: number): Promise<CategoryFactors> {
+    const factors: CategoryFactors = {};
+    if (childAccountId === undefined) {
+      return factors;
+    }
+    
+    (await storage.getCategorySettings(childAccountId)).forEach(setting => {
+      factors[setting.category] = categoryFactor(setting);
+    });
+    return factors;
+  }
+  
+  /**
+   * The languages whose default terms apply to a message: English, which
+   * turns up in mail of every language, and the message's own. When the
+   * language could not be told, English alone: another language's terms can
+   * be everyday words in a message that is not in it.
+   */
+  private languagesFor(detected: DetectedLanguage | null): Set<FilterLanguage> {
+    if (!detected || detected.confidence < MIN_LANGUAGE_CONFIDENCE) {
+      return new Set<FilterLanguage>(['en']);
+    }
+    return new Set<FilterLanguage>(['en', detected.language]);
+  }
+  
+  /**
+   * Read the default filter lists once: a "[category points]" heading starts
+   * each group, then one term per line; # starts a comment
+   */
+  private loadDefaultFilters(): Record<FilterLanguage, DefaultFilter[]> {
+    if (this.defaultFilters) {
+      return this.defaultFilters;
+    }
+    
+    const defaultFilters = {} as Record<FilterLanguage, DefaultFilter[]>;
+    filterLanguages.forEach(language => {
+      const filters: DefaultFilter[] = [];
+      defaultFilters[language] = filters;
+      
+      const path = resolve(process.cwd(), DEFAULT_FILTERS_DIR, `${language}.txt`);
+      if (!existsSync(path)) {
+        console.error(`Default filter list not found: ${path}`);
+        return;
+      }
+      
+      try {
+        let group: DefaultFilter | null = null;
+        readFileSync(path, 'utf8').split(/\r?\n/).forEach((line, index) => {
+          const entry = line.replace(/#.*$/, '').trim().toLowerCase();
+          const heading = entry.match(/^\[(\w+)\s+(\d+)\]$/);
+          if (heading) {
+            const category = heading[1] as ContentCategory;
+            group = contentCategories.includes(category) ? { category, weight: parseInt(heading[2], 10), terms: [] } : null;
+            if (group) {
+              filters.push(group);
+            } else {
+              console.error(`Unknown category on line ${index + 1} of ${path}: ${heading[1]}`);
+            }
+          } else if (entry && group) {
+            group.terms.push(entry);
+          }
+        });
+      } catch (error) {
+        console.error(`Error reading default filter list ${path}:`, error);
+      }
+    });
+    
+    this.defaultFilters = defaultFilters;
+    return defaultFilters;
+  }
+  
+  /**
+   * The compiled terms and patterns for a user and child account. Compiled
+   * sets are cached and rebuilt when the user's rules change.
+   */
+  private async getRuleSet(userId?: number, childAccountId?: number): Promise<RuleSet> {
+    const rules = userId === undefined ? [] : (await storage.getFilterRules(userId)).filter(rule =>
+      rule.child_account_id === null || childAccountId === undefined || rule.child_account_id === childAccountId
+    );
+    const key = `${userId ?? ''}:${childAccountId ?? ''}`;
+    const signature = rules.map(rule => `${rule.id}:${rule.match_mode}:${rule.match_phrase}:${rule.weight}:${rule.category}`).join(',');
+    
+    const cached = this.ruleSets.get(key);
+    if (cached && cached.signature === signature) {
+      return cached;
+    }
+    
+    const ruleSet = this.compileRuleSet(signature, rules, true);
+    this.ruleSets.set(key, ruleSet);
+    return ruleSet;
+  }
+  
+  /**
+   * Compile rules into terms and patterns, after the default terms of every
+   * language if asked
+   */
+  private compileRuleSet(signature: string, rules: RuleDraft[], withDefaults: boolean): RuleSet {
+    const terms: TermPattern<BlockedTerm>[] = [];
+    if (withDefaults) {
+      const defaultFilters = this.loadDefaultFilters();
+      filterLanguages.forEach(language => {
+        defaultFilters[language].forEach(({ category, weight, terms: texts }) => texts.forEach(text => {
+          const value = { text, custom: false, weight, category, language };
+          terms.push({ text, value });
+          // Spam often leaves accents out; both spellings count as the same term
+          const unaccented = text.normalize('NFD').replace(COMBINING_MARK, '');
+          if (unaccented !== text) {
+            terms.push({ text: unaccented, value });
+          }
+        }));
+      });
+    }
+    const regexes: RuleSet['regexes'] = [];
+    
+    rules.forEach(rule => {
+      if (rule.is_regex) {
+        // Saved before such patterns were turned away
+        if (hasNestedQuantifier(rule.rule_text)) {
+          console.error(`Skipping regex pattern that could take too long to run:`, rule.rule_text);
+          return;
+        }
+        try {
+          regexes.push({ regex: new RegExp(rule.rule_text, 'i'), weight: rule.weight, category: rule.category });
+        } catch (e) {
+          console.error(`Invalid regex pattern:`, rule.rule_text);
+        }
+      } else {
+        terms.push({
+          text: rule.rule_text,
+          mode: rule.match_mode,
+          phrase: rule.match_phrase,
+          value: { text: rule.rule_text, custom: true, weight: rule.weight, category: rule.category, language: null }
+        });
+      }
+    });
+    
+    return { signature, terms: new TermMatcher(terms), regexes };
+  }
 }
 
 export const contentFilter = new ContentFilter();
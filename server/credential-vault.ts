@@ -0,0 +1,281 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { ChildAccount, InsertChildAccount } from '@shared/schema';
+import type { storage } from './storage';
+
+// Child account columns that hold mailbox credentials
+export const childAccountSecretFields = ['password', 'app_password', 'oauth_token', 'oauth_refresh_token'] as const;
+export type ChildAccountSecretField = typeof childAccountSecretFields[number];
+
+const FORMAT_PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Credential Vault
+ *
+ * Envelope encryption for child mailbox secrets. Every value is encrypted with
+ * its own random data key, and the data key is wrapped with a versioned master
+ * key from the environment. Rotating the master key only re-wraps data keys.
+ *
+ * Master keys are read from:
+ * - `CREDENTIAL_MASTER_KEYS`: comma-separated `version:base64key` pairs, e.g. `1:abc...,2:def...`
+ * - `CREDENTIAL_MASTER_KEY`: a single base64 key, used as version 1
+ * The highest version (or `CREDENTIAL_ACTIVE_KEY_VERSION`) encrypts new values;
+ * older versions stay available for decryption until rotation is complete.
+ *
+ * Ciphertext format: `enc:v1:<keyVersion>:<wrapIv>:<wrappedKey>:<wrapTag>:<iv>:<data>:<tag>`
+ */
+export class CredentialVault {
+  private masterKeys: Map<number, Buffer> | null = null;
+  private activeVersion: number = 0;
+
+  /**
+   * Encrypt a secret under the active master key
+   * @param plaintext The secret to encrypt
+   * @returns The ciphertext, or null/undefined unchanged
+   */
+  encrypt(plaintext: string): string;
+  encrypt(plaintext: string | null): string | null;
+  encrypt(plaintext: string | null | undefined): string | null | undefined;
+  encrypt(plaintext: string | null | undefined): string | null | undefined {
+    if (plaintext === null || plaintext === undefined || plaintext === '') {
+      return plaintext;
+    }
+    if (this.isEncrypted(plaintext)) {
+      return plaintext;
+    }
+
+    const { version, key: masterKey } = this.getActiveKey();
+    const dataKey = randomBytes(KEY_LENGTH);
+
+    const data = this.seal(dataKey, Buffer.from(plaintext, 'utf8'));
+    const wrapped = this.seal(masterKey, dataKey);
+
+    return [
+      FORMAT_PREFIX,
+      version,
+      wrapped.iv, wrapped.ciphertext, wrapped.tag,
+      data.iv, data.ciphertext, data.tag
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a secret produced by `encrypt`
+   * @param value The ciphertext
+   * @returns The plaintext, or null/undefined unchanged. Legacy values stored
+   * before encryption are returned as they are until rotation encrypts them.
+   */
+  decrypt(value: string): string;
+  decrypt(value: string | null): string | null;
+  decrypt(value: string | null | undefined): string | null | undefined;
+  decrypt(value: string | null | undefined): string | null | undefined {
+    if (value === null || value === undefined || value === '') {
+      return value;
+    }
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const parts = this.parse(value);
+    const dataKey = this.open(this.getKey(parts.version), parts.wrapIv, parts.wrappedKey, parts.wrapTag);
+    return this.open(dataKey, parts.iv, parts.data, parts.tag).toString('utf8');
+  }
+
+  /**
+   * Re-wrap a secret's data key under the active master key. The encrypted
+   * data itself is left untouched.
+   * @param value The ciphertext to rotate
+   * @returns The rotated ciphertext, or the input if it already uses the active key
+   */
+  rotate(value: string): string {
+    if (!this.isEncrypted(value)) {
+      // Legacy plaintext value: encrypt it now
+      return this.encrypt(value);
+    }
+
+    const parts = this.parse(value);
+    const { version, key: masterKey } = this.getActiveKey();
+    if (parts.version === version) {
+      return value;
+    }
+
+    const dataKey = this.open(this.getKey(parts.version), parts.wrapIv, parts.wrappedKey, parts.wrapTag);
+    const wrapped = this.seal(masterKey, dataKey);
+
+    return [
+      FORMAT_PREFIX,
+      version,
+      wrapped.iv, wrapped.ciphertext, wrapped.tag,
+      parts.iv, parts.data, parts.tag
+    ].join(':');
+  }
+
+  /**
+   * Check whether a value is vault ciphertext
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(`${FORMAT_PREFIX}:`);
+  }
+
+  /**
+   * Check whether a value needs rotating to the active master key
+   */
+  needsRotation(value: string): boolean {
+    if (!this.isEncrypted(value)) {
+      return true;
+    }
+    return this.parse(value).version !== this.getActiveKey().version;
+  }
+
+  /**
+   * Encrypt every secret field present in child account data before it is stored
+   * @param data Child account insert or update data
+   * @returns A copy of the data with secret fields encrypted
+   */
+  encryptAccountSecrets<T extends Partial<InsertChildAccount>>(data: T): T {
+    const encrypted = { ...data };
+    childAccountSecretFields.forEach(field => {
+      if (field in encrypted) {
+        encrypted[field] = this.encrypt(encrypted[field]);
+      }
+    });
+    return encrypted;
+  }
+
+  /**
+   * Decrypt a stored child account's secret fields for connecting to its mailbox.
+   * The result must never be returned from the API.
+   * @param account The child account as stored
+   * @returns A copy of the account with plaintext secrets
+   */
+  decryptAccountSecrets(account: ChildAccount): ChildAccount {
+    const decrypted = { ...account };
+    childAccountSecretFields.forEach(field => {
+      decrypted[field] = this.decrypt(decrypted[field]);
+    });
+    return decrypted;
+  }
+
+  /**
+   * Rotate every stored child account secret to the active master key
+   * @param storageService The storage holding the child accounts
+   * @returns The number of accounts that were updated
+   */
+  async rotateStoredSecrets(storageService: typeof storage): Promise<number> {
+    const accounts = await storageService.getAllChildAccounts();
+    let rotated = 0;
+
+    for (const account of accounts) {
+      const updates: Partial<InsertChildAccount> = {};
+
+      childAccountSecretFields.forEach(field => {
+        const value = account[field];
+        if (value && this.needsRotation(value)) {
+          updates[field] = this.rotate(value);
+        }
+      });
+
+      if (Object.keys(updates).length > 0) {
+        await storageService.updateChildAccount(account.id, updates);
+        rotated++;
+      }
+    }
+
+    return rotated;
+  }
+
+  private seal(key: Buffer, plaintext: Buffer): { iv: string; ciphertext: string; tag: string } {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return {
+      iv: iv.toString('base64url'),
+      ciphertext: ciphertext.toString('base64url'),
+      tag: cipher.getAuthTag().toString('base64url')
+    };
+  }
+
+  private open(key: Buffer, iv: string, ciphertext: string, tag: string): Buffer {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]);
+  }
+
+  private parse(value: string) {
+    const parts = value.split(':');
+    if (parts.length !== 9 || `${parts[0]}:${parts[1]}` !== FORMAT_PREFIX) {
+      throw new Error('Value is not a credential vault ciphertext');
+    }
+
+    const [, , version, wrapIv, wrappedKey, wrapTag, iv, data, tag] = parts;
+    return { version: parseInt(version), wrapIv, wrappedKey, wrapTag, iv, data, tag };
+  }
+
+  private getKey(version: number): Buffer {
+    const key = this.loadKeys().get(version);
+    if (!key) {
+      throw new Error(`Credential master key version ${version} is not configured`);
+    }
+    return key;
+  }
+
+  private getActiveKey(): { version: number; key: Buffer } {
+    this.loadKeys();
+    return { version: this.activeVersion, key: this.getKey(this.activeVersion) };
+  }
+
+  /**
+   * Load master keys from the environment on first use
+   */
+  private loadKeys(): Map<number, Buffer> {
+    if (this.masterKeys) {
+      return this.masterKeys;
+    }
+
+    const keys = new Map<number, Buffer>();
+
+    if (process.env.CREDENTIAL_MASTER_KEYS) {
+      process.env.CREDENTIAL_MASTER_KEYS.split(',').forEach(entry => {
+        const [version, encodedKey] = entry.trim().split(':');
+        keys.set(parseInt(version), this.decodeKey(encodedKey, `version ${version}`));
+      });
+    } else if (process.env.CREDENTIAL_MASTER_KEY) {
+      keys.set(1, this.decodeKey(process.env.CREDENTIAL_MASTER_KEY, 'version 1'));
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('CREDENTIAL_MASTER_KEY or CREDENTIAL_MASTER_KEYS must be set in production');
+    } else {
+      // Development only: derive a stable key so restarts can still decrypt
+      console.warn('No credential master key configured; using a development key derived from SESSION_SECRET');
+      const secret = process.env.SESSION_SECRET || 'kidmail-protector-secret';
+      keys.set(0, scryptSync(secret, 'kidmail-credential-vault', KEY_LENGTH));
+    }
+
+    const versions = Array.from(keys.keys());
+    if (versions.some(version => isNaN(version))) {
+      throw new Error('Credential master key versions must be integers');
+    }
+
+    const activeVersion = process.env.CREDENTIAL_ACTIVE_KEY_VERSION
+      ? parseInt(process.env.CREDENTIAL_ACTIVE_KEY_VERSION)
+      : Math.max(...versions);
+    if (!keys.has(activeVersion)) {
+      throw new Error(`Active credential master key version ${activeVersion} is not configured`);
+    }
+
+    this.masterKeys = keys;
+    this.activeVersion = activeVersion;
+    return keys;
+  }
+
+  private decodeKey(encodedKey: string | undefined, label: string): Buffer {
+    const key = Buffer.from(encodedKey || '', 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Credential master key ${label} must be ${KEY_LENGTH} bytes, base64 encoded`);
+    }
+    return key;
+  }
+}
+
+export const credentialVault = new CredentialVault();
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { DkimVerifier, ZoneFileResolver } from './dkim-verifier';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ed25519 = generateKeyPairSync('ed25519');
+
+// ed25519 keys are published as the bare key, without the SPKI prefix
+const publicKey = (key: KeyObject) => key.export({ format: 'der', type: 'spki' }).toString('base64');
+const ed25519Key = ed25519.publicKey.export({ format: 'der', type: 'spki' }).subarray(12).toString('base64');
+
+const zone = `
+$ORIGIN example.com.
+@                  IN TXT "v=spf1 -all"
+rsa._domainkey     IN TXT ( "v=DKIM1; k=rsa; "
+                            "p=${publicKey(rsa.publicKey)}" ) ; split across strings
+ed._domainkey  300 IN TXT "v=DKIM1; k=ed25519; p=${ed25519Key}"
+revoked._domainkey IN TXT "v=DKIM1; p="
+`;
+
+const headers = [
+  'From: School Office <office@example.com>',
+  'To: kid@example.org',
+  'Subject: Field trip  on Friday',
+  'Date: Mon, 19 Oct 2026 09:00:00 +0000'
+];
+const body = 'Please bring a packed lunch.  \r\nThanks!\r\n\r\n';
+
+/**
+ * Sign a message with relaxed/relaxed canonicalization, as a sending server would
+ */
+function signMessage(options: { selector: string; privateKey: KeyObject; algorithm: 'rsa' | 'ed25519'; length?: boolean }): string {
+  const canonicalBody = body.split('\r\n').map(line => line.replace(/[ \t]+/g, ' ').replace(/ $/, '')).join('\r\n').replace(/(\r\n)+$/, '') + '\r\n';
+  const bh = createHash('sha256').update(canonicalBody).digest('base64');
+  const relaxed = (header: string) => {
+    const colon = header.indexOf(':');
+    return `${header.slice(0, colon).trim().toLowerCase()}:${header.slice(colon + 1).replace(/[ \t]+/g, ' ').trim()}`;
+  };
+
+  const signature = `DKIM-Signature: v=1; a=${options.algorithm}-sha256; c=relaxed/relaxed; d=example.com; s=${options.selector}; ` +
+    `${options.length ? `l=${canonicalBody.length}; ` : ''}h=from:to:subject:date; bh=${bh}; b=`;
+  const signedData = headers.map(header => `${relaxed(header)}\r\n`).join('') + relaxed(signature);
+  const b = options.algorithm === 'ed25519'
+    ? sign(null, createHash('sha256').update(signedData).digest(), options.privateKey)
+    : sign('sha256', Buffer.from(signedData), options.privateKey);
+
+  return [signature + b.toString('base64'), ...headers].join('\r\n') + '\r\n\r\n' + body;
+}
+
+const verifier = () => new DkimVerifier(new ZoneFileResolver(zone));
+
+test('passes an RSA signature whose key is in the zone', async () => {
+  const message = signMessage({ selector: 'rsa', privateKey: rsa.privateKey, algorithm: 'rsa' });
+  const results = await verifier().verify(Buffer.from(message));
+
+  assert.deepEqual(results, [{ domain: 'example.com', selector: 'rsa', status: 'pass', reason: undefined }]);
+  assert.equal(verifier().verifiedDomain(results), 'example.com');
+});
+
+test('passes an ed25519 signature', async () => {
+  const message = signMessage({ selector: 'ed', privateKey: ed25519.privateKey, algorithm: 'ed25519' });
+  const [result] = await verifier().verify(Buffer.from(message));
+
+  assert.equal(result.status, 'pass');
+});
+
+test('fails when the body was changed', async () => {
+  const message = signMessage({ selector: 'rsa', privateKey: rsa.privateKey, algorithm: 'rsa' }).replace('packed lunch', 'gift card');
+  const [result] = await verifier().verify(Buffer.from(message));
+
+  assert.equal(result.status, 'fail');
+  assert.equal(result.reason, 'body hash does not match');
+});
+
+test('fails when a signed header was changed', async () => {
+  const message = signMessage({ selector: 'rsa', privateKey: rsa.privateKey, algorithm: 'rsa' }).replace('Field trip', 'Urgent');
+  const [result] = await verifier().verify(Buffer.from(message));
+
+  assert.equal(result.status, 'fail');
+  assert.equal(result.reason, 'signature does not verify');
+});
+
+test('fails when text was appended after an l= signed length', async () => {
+  const message = signMessage({ selector: 'rsa', privateKey: rsa.privateKey, algorithm: 'rsa', length: true });
+  assert.equal((await verifier().verify(Buffer.from(message)))[0].status, 'pass');
+
+  const [result] = await verifier().verify(Buffer.from(message + 'Click http://phish.example/login\r\n'));
+
+  assert.equal(result.status, 'fail');
+  assert.equal(result.reason, 'body has text after the signed length');
+});
+
+test('reports a missing or revoked key as a permanent error', async () => {
+  const missing = signMessage({ selector: 'gone', privateKey: rsa.privateKey, algorithm: 'rsa' });
+  const revoked = signMessage({ selector: 'revoked', privateKey: rsa.privateKey, algorithm: 'rsa' });
+
+  assert.deepEqual((await verifier().verify(Buffer.from(missing)))[0], {
+    domain: 'example.com', selector: 'gone', status: 'permerror', reason: 'no key published at gone._domainkey.example.com'
+  });
+  assert.equal((await verifier().verify(Buffer.from(revoked)))[0].reason, 'key has been revoked');
+});
+
+test('reports a failed DNS lookup as a temporary error', async () => {
+  const unreachable = new DkimVerifier({
+    resolveTxt: async () => { throw Object.assign(new Error('queryTxt ETIMEOUT'), { code: 'ETIMEOUT' }); }
+  });
+  const message = signMessage({ selector: 'rsa', privateKey: rsa.privateKey, algorithm: 'rsa' });
+  const [result] = await unreachable.verify(Buffer.from(message));
+
+  assert.equal(result.status, 'temperror');
+});
+
+test('returns no results for an unsigned message', async () => {
+  assert.deepEqual(await verifier().verify(Buffer.from(`${headers.join('\r\n')}\r\n\r\n${body}`)), []);
+});
@@ -0,0 +1,373 @@
+import { createHash, createPublicKey, verify, KeyObject } from 'crypto';
+import { promises as dns } from 'dns';
+import { readFileSync } from 'fs';
+
+export type DkimStatus = 'pass' | 'fail' | 'permerror' | 'temperror';
+
+export type DkimResult = {
+  domain: string; // d= tag, the signing domain
+  selector: string;
+  status: DkimStatus;
+  reason?: string;
+};
+
+/**
+ * Looks up DNS TXT records. Each record is returned as its character strings.
+ */
+export interface TxtResolver {
+  resolveTxt(name: string): Promise<string[][]>;
+}
+
+// ed25519 keys are published as the bare 32-byte key; this prefix makes them SPKI
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// A message rarely carries more than a couple of signatures; do not let one make us do unbounded work
+const MAX_SIGNATURES = 5;
+
+const KEY_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+type HeaderField = { name: string; raw: string };
+
+/**
+ * Resolver backed by the system's DNS
+ */
+export class SystemTxtResolver implements TxtResolver {
+  resolveTxt(name: string): Promise<string[][]> {
+    return dns.resolveTxt(name);
+  }
+}
+
+/**
+ * Resolver that answers TXT queries from a zone file, so verification can be
+ * tested without the network. Supports quoted strings, parentheses, comments,
+ * $ORIGIN and names carried over from the previous record.
+ */
+export class ZoneFileResolver implements TxtResolver {
+  private records: Map<string, string[][]> = new Map();
+
+  constructor(zone: string) {
+    this.parse(zone);
+  }
+
+  static fromFile(path: string): ZoneFileResolver {
+    return new ZoneFileResolver(readFileSync(path, 'utf8'));
+  }
+
+  async resolveTxt(name: string): Promise<string[][]> {
+    const records = this.records.get(name.toLowerCase().replace(/\.$/, ''));
+    if (!records) {
+      throw Object.assign(new Error(`queryTxt ENOTFOUND ${name}`), { code: 'ENOTFOUND' });
+    }
+    return records;
+  }
+
+  private parse(zone: string) {
+    let origin = '';
+    let lastName = '';
+    let tokens: Array<{ value: string; quoted: boolean }> = [];
+    let startsIndented = false;
+    let depth = 0;
+
+    const finishRecord = () => {
+      if (tokens.length === 0) {
+        return;
+      }
+
+      if (tokens[0].value.toUpperCase() === '$ORIGIN' && tokens[1]) {
+        origin = tokens[1].value.replace(/\.$/, '').toLowerCase();
+      } else {
+        const fields = [...tokens];
+        const name = startsIndented ? lastName : this.absoluteName(fields.shift()!.value, origin);
+        lastName = name;
+
+        // Optional TTL and class before the type
+        while (fields.length > 0 && !fields[0].quoted && (/^\d+[smhdw]?$/i.test(fields[0].value) || /^(IN|CH|HS)$/i.test(fields[0].value))) {
+          fields.shift();
+        }
+
+        if (fields.length > 0 && fields[0].value.toUpperCase() === 'TXT') {
+          const strings = fields.slice(1).map(field => field.value);
+          this.records.set(name, [...(this.records.get(name) || []), strings]);
+        }
+      }
+
+      tokens = [];
+    };
+
+    for (const line of zone.split(/\r?\n/)) {
+      if (depth === 0) {
+        finishRecord();
+        startsIndented = /^[ \t]/.test(line);
+      }
+
+      let i = 0;
+      while (i < line.length) {
+        const char = line[i];
+        if (char === ';') {
+          break;
+        } else if (char === '(') {
+          depth++;
+          i++;
+        } else if (char === ')') {
+          depth = Math.max(0, depth - 1);
+          i++;
+        } else if (char === '"') {
+          let value = '';
+          i++;
+          while (i < line.length && line[i] !== '"') {
+            if (line[i] === '\\' && i + 1 < line.length) {
+              i++;
+            }
+            value += line[i++];
+          }
+          i++;
+          tokens.push({ value, quoted: true });
+        } else if (/\s/.test(char)) {
+          i++;
+        } else {
+          let value = '';
+          while (i < line.length && !/[\s;()"]/.test(line[i])) {
+            value += line[i++];
+          }
+          tokens.push({ value, quoted: false });
+        }
+      }
+    }
+    finishRecord();
+  }
+
+  private absoluteName(name: string, origin: string): string {
+    if (name === '@') {
+      return origin;
+    }
+    if (name.endsWith('.')) {
+      return name.slice(0, -1).toLowerCase();
+    }
+    return (origin ? `${name}.${origin}` : name).toLowerCase();
+  }
+}
+
+/**
+ * DKIM Verifier
+ *
+ * Checks DKIM-Signature headers (RFC 6376) locally: canonicalizes the signed
+ * headers and the body, compares the body hash and verifies the signature
+ * with the public key published under the selector. Used when the mail
+ * server has not recorded a DKIM result, as is common for junk folders.
+ */
+export class DkimVerifier {
+  private resolver: TxtResolver;
+  private keyCache: Map<string, { key: KeyObject | null; error?: string; expires: number }> = new Map();
+
+  /**
+   * @param resolver Where public keys are looked up, e.g. a ZoneFileResolver in tests
+   */
+  constructor(resolver: TxtResolver = new SystemTxtResolver()) {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Verify every DKIM signature on a message
+   * @param raw The full message source, as received
+   * @returns One result per signature, in header order; empty if the message is unsigned
+   */
+  async verify(raw: Buffer): Promise<DkimResult[]> {
+    // latin1 maps each byte to one character, so hashing the text again as latin1 gives back the exact bytes
+    const { fields, body } = this.splitMessage(raw.toString('latin1'));
+    const signatures = fields.filter(field => field.name.toLowerCase() === 'dkim-signature').slice(0, MAX_SIGNATURES);
+    const results: DkimResult[] = [];
+
+    for (const signature of signatures) {
+      results.push(await this.verifySignature(signature, fields, body));
+    }
+
+    return results;
+  }
+
+  /**
+   * The signing domain of the first passing signature
+   * @param results Results from verify()
+   */
+  verifiedDomain(results: DkimResult[]): string | null {
+    return results.find(result => result.status === 'pass')?.domain ?? null;
+  }
+
+  private async verifySignature(signature: HeaderField, fields: HeaderField[], body: string): Promise<DkimResult> {
+    const tags = this.parseTags(signature.raw.slice(signature.raw.indexOf(':') + 1));
+    const domain = (tags.d || '').toLowerCase();
+    const selector = tags.s || '';
+    const result = (status: DkimStatus, reason?: string): DkimResult => ({ domain, selector, status, reason });
+
+    if (tags.v !== '1' || !tags.a || !tags.b || !tags.bh || !domain || !selector || !tags.h) {
+      return result('permerror', 'missing required tags');
+    }
+    if (!tags.h.split(':').some(name => name.trim().toLowerCase() === 'from')) {
+      return result('permerror', 'From is not signed');
+    }
+    if (tags.x && parseInt(tags.x) * 1000 < Date.now()) {
+      return result('fail', 'signature expired');
+    }
+
+    const [algorithm, hashName] = tags.a.toLowerCase().split('-');
+    if (!['rsa', 'ed25519'].includes(algorithm) || !['sha256', 'sha1'].includes(hashName)) {
+      return result('permerror', `unsupported algorithm ${tags.a}`);
+    }
+
+    const [headerCanon, bodyCanon] = (tags.c || 'simple/simple').toLowerCase().split('/');
+    const relaxedHeaders = headerCanon === 'relaxed';
+    const relaxedBody = (bodyCanon || 'simple') === 'relaxed';
+
+    // Body hash
+    const canonicalBody = this.canonicalizeBody(body, relaxedBody);
+    // With l= anyone can append to a signed body, so a signature covering only part of it vouches for nothing
+    if (tags.l && parseInt(tags.l) !== canonicalBody.length) {
+      return result('fail', parseInt(tags.l) < canonicalBody.length ? 'body has text after the signed length' : 'body is shorter than the signed length');
+    }
+    const bodyHash = createHash(hashName).update(canonicalBody, 'latin1').digest('base64');
+    if (bodyHash !== tags.bh) {
+      return result('fail', 'body hash does not match');
+    }
+
+    // Signed headers, each taken from the bottom up, then the signature itself without b=
+    const remaining = [...fields];
+    let signedData = '';
+    for (const name of tags.h.split(':').map(value => value.trim().toLowerCase())) {
+      const index = remaining.map(field => field.name.toLowerCase()).lastIndexOf(name);
+      if (index < 0) {
+        continue;
+      }
+      signedData += this.canonicalizeHeader(remaining[index].raw, relaxedHeaders) + '\r\n';
+      remaining.splice(index, 1);
+    }
+    const unsigned = signature.raw.replace(/(^[^:]*:|;)(\s*b\s*=)[^;]*/, '$1$2');
+    signedData += this.canonicalizeHeader(unsigned, relaxedHeaders);
+
+    const key = await this.getKey(selector, domain, algorithm);
+    if ('error' in key) {
+      return result(key.temporary ? 'temperror' : 'permerror', key.error);
+    }
+
+    try {
+      const signatureBytes = Buffer.from(tags.b, 'base64');
+      const valid = algorithm === 'ed25519'
+        ? verify(null, createHash(hashName).update(signedData, 'latin1').digest(), key.key, signatureBytes)
+        : verify(hashName, Buffer.from(signedData, 'latin1'), key.key, signatureBytes);
+      return valid ? result('pass') : result('fail', 'signature does not verify');
+    } catch (error) {
+      return result('permerror', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async getKey(selector: string, domain: string, algorithm: string): Promise<{ key: KeyObject } | { error: string; temporary: boolean }> {
+    const name = `${selector}._domainkey.${domain}`;
+    const cached = this.keyCache.get(name);
+    if (cached && cached.expires > Date.now()) {
+      return cached.key ? { key: cached.key } : { error: cached.error!, temporary: false };
+    }
+
+    let records: string[][];
+    try {
+      records = await this.resolver.resolveTxt(name);
+    } catch (error) {
+      const code = error instanceof Error && 'code' in error ? error.code : undefined;
+      const missing = code === 'ENOTFOUND' || code === 'ENODATA';
+      return { error: missing ? `no key published at ${name}` : `DNS lookup failed for ${name}`, temporary: !missing };
+    }
+
+    const remember = (key: KeyObject | null, error?: string) => {
+      this.keyCache.set(name, { key, error, expires: Date.now() + KEY_CACHE_TTL });
+      return key ? { key } : { error: error!, temporary: false };
+    };
+
+    const record = records.map(strings => strings.join('')).find(value => /(^|;)\s*p\s*=/.test(value));
+    if (!record) {
+      return remember(null, `no key published at ${name}`);
+    }
+
+    const tags = this.parseTags(record);
+    if (tags.v && tags.v !== 'DKIM1') {
+      return remember(null, `unsupported key record version at ${name}`);
+    }
+    if (!tags.p) {
+      return remember(null, 'key has been revoked');
+    }
+    if ((tags.k || 'rsa').toLowerCase() !== algorithm) {
+      return remember(null, 'key type does not match the signature');
+    }
+
+    try {
+      const der = Buffer.from(tags.p, 'base64');
+      const key = createPublicKey({
+        key: algorithm === 'ed25519' ? Buffer.concat([ED25519_SPKI_PREFIX, der]) : der,
+        format: 'der',
+        type: 'spki'
+      });
+      return remember(key);
+    } catch (error) {
+      return remember(null, `invalid key published at ${name}`);
+    }
+  }
+
+  private splitMessage(raw: string): { fields: HeaderField[]; body: string } {
+    const normalized = raw.replace(/\r?\n/g, '\r\n');
+    const end = normalized.indexOf('\r\n\r\n');
+    const headerBlock = end < 0 ? normalized : normalized.slice(0, end);
+    const body = end < 0 ? '' : normalized.slice(end + 4);
+
+    const fields: HeaderField[] = [];
+    for (const line of headerBlock.split('\r\n')) {
+      if (/^[ \t]/.test(line) && fields.length > 0) {
+        fields[fields.length - 1].raw += `\r\n${line}`;
+      } else if (line.includes(':')) {
+        fields.push({ name: line.slice(0, line.indexOf(':')).trim(), raw: line });
+      }
+    }
+
+    return { fields, body };
+  }
+
+  private canonicalizeHeader(raw: string, relaxed: boolean): string {
+    if (!relaxed) {
+      return raw;
+    }
+
+    const colon = raw.indexOf(':');
+    const name = raw.slice(0, colon).trim().toLowerCase();
+    const value = raw.slice(colon + 1).replace(/\r\n(?=[ \t])/g, '').replace(/[ \t]+/g, ' ').trim();
+    return `${name}:${value}`;
+  }
+
+  private canonicalizeBody(body: string, relaxed: boolean): string {
+    let lines = body.split('\r\n');
+    if (relaxed) {
+      lines = lines.map(line => line.replace(/[ \t]+/g, ' ').replace(/ $/, ''));
+    }
+
+    // Trailing empty lines are ignored
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    if (lines.length === 0) {
+      return relaxed ? '' : '\r\n';
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private parseTags(value: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+    value.split(';').forEach(part => {
+      const equals = part.indexOf('=');
+      if (equals > 0) {
+        const name = part.slice(0, equals).trim();
+        // Folding whitespace is allowed anywhere in a tag value and never significant in b=, bh= or p=
+        tags[name] = ['b', 'bh', 'p'].includes(name)
+          ? part.slice(equals + 1).replace(/\s+/g, '')
+          : part.slice(equals + 1).replace(/\r\n/g, '').trim();
+      }
+    });
+    return tags;
+  }
+}
+
+export const dkimVerifier = new DkimVerifier();
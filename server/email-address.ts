@@ -0,0 +1,50 @@
+/**
+ * Extract the bare address from a header value such as `"Jane Doe" <jane@example.com>`
+ * @param value The From/To header value or a plain address
+ * @returns The lowercased address, or the trimmed input if no address is found
+ */
+export function extractEmailAddress(value: string): string {
+  const bracketed = value.match(/<([^<>\s]+@[^<>\s]+)>/);
+  if (bracketed) {
+    return bracketed[1].toLowerCase();
+  }
+  
+  const bare = value.match(/[^\s<>"',;]+@[^\s<>"',;]+/);
+  return (bare ? bare[0] : value).toLowerCase().trim();
+}
+
+/**
+ * Extract the display name from a header value such as `"Jane Doe" <jane@example.com>`
+ * @param value The From/To header value
+ * @returns The unquoted name, or an empty string if there is none
+ */
+export function extractDisplayName(value: string): string {
+  const name = value.match(/^\s*(.*?)\s*<[^<>]*>\s*$/);
+  if (!name) {
+    return '';
+  }
+  
+  return name[1].replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1').trim();
+}
+
+/**
+ * The domain of an email address, lowercased
+ */
+export function emailDomain(address: string): string {
+  const at = address.lastIndexOf('@');
+  return at >= 0 ? address.slice(at + 1).toLowerCase() : '';
+}
+
+// Second-level labels under country domains, e.g. example.co.uk
+const secondLevelLabels = ['co', 'com', 'org', 'net', 'ac', 'gov', 'edu', 'ne', 'or'];
+
+/**
+ * The part of a host name its owner registered, e.g. "example.co.uk" for "mail.example.co.uk"
+ * @param host A host or domain name
+ */
+export function baseDomain(host: string): string {
+  const labels = host.toLowerCase().replace(/\.$/, '').replace(/^www\./, '').split('.');
+  const keep = labels.length > 2 && labels[labels.length - 1].length === 2 &&
+    secondLevelLabels.includes(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
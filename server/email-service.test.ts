@@ -0,0 +1,76 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { emailService } from './email-service';
+import { EmailProviderInterface, EmailMessage, FolderStatus } from './providers';
+import { ChildAccount } from '@shared/schema';
+
+/**
+ * A folder held in memory that implements just what a sync reads
+ */
+function fakeFolder(uids: number[]): EmailProviderInterface {
+  const message = (uid: number): EmailMessage => ({
+    id: String(uid), uid, from: 'a@example.com', to: 'kid@example.org', subject: `Message ${uid}`, text: '', date: new Date()
+  });
+  const provider: Partial<EmailProviderInterface> = {
+    getFolderStatus: (): FolderStatus => ({ path: 'INBOX', uidValidity: 1, uidNext: Math.max(...uids) + 1, messageCount: uids.length }),
+    listMessages: async (_folder: string, options?: { sinceUid?: number; limit?: number }) =>
+      uids.filter(uid => uid > (options?.sinceUid ?? 0)).slice(0, options?.limit).map(message),
+    getMessage: async (id: string) => uids.includes(parseInt(id)) ? { ...message(parseInt(id)), uid: undefined } : null
+  };
+  return provider as EmailProviderInterface;
+}
+
+let account: ChildAccount;
+
+before(async () => {
+  // Only storage is wired up; init() would start monitoring the demo accounts
+  emailService['storageService'] = storage;
+  account = (await storage.getChildAccount(1))!;
+});
+
+/**
+ * Sync a folder once, failing the messages whose UIDs are given
+ * @returns The UIDs the handler was given
+ */
+async function sync(folderPath: string, provider: EmailProviderInterface, failing: number[]): Promise<number[]> {
+  const seen: number[] = [];
+  await emailService['syncFolder'](account, provider, folderPath, {}, async messages => {
+    seen.push(...messages.map(message => message.uid!));
+    return messages.filter(message => failing.includes(message.uid!));
+  });
+  return seen;
+}
+
+test('checks a message that failed to process again on the next sync', async () => {
+  const provider = fakeFolder([1, 2, 3]);
+
+  assert.deepEqual(await sync('Retry', provider, [2]), [1, 2, 3]);
+  const checkpoint = await storage.getSyncCheckpoint(account.id, 'Retry');
+  assert.equal(checkpoint!.last_uid, 3);
+  assert.deepEqual(checkpoint!.retry_uids, [{ uid: 2, attempts: 1 }]);
+
+  assert.deepEqual(await sync('Retry', provider, []), [2]);
+  assert.deepEqual((await storage.getSyncCheckpoint(account.id, 'Retry'))!.retry_uids, []);
+  assert.deepEqual(await sync('Retry', provider, []), []);
+});
+
+test('gives up on a message that keeps failing', async () => {
+  const provider = fakeFolder([1]);
+
+  await sync('GiveUp', provider, [1]);
+  await sync('GiveUp', provider, [1]);
+  await sync('GiveUp', provider, [1]);
+
+  assert.deepEqual((await storage.getSyncCheckpoint(account.id, 'GiveUp'))!.retry_uids, []);
+  assert.deepEqual(await sync('GiveUp', provider, []), []);
+  const [log] = await storage.getActivityLogs(account.user_id, account.id, 1);
+  assert.match(log.details!, /Gave up checking 1 message\(s\) in GiveUp after 3 failed attempts/);
+});
+
+test('forgets a failed message that has left the folder', async () => {
+  await sync('Moved', fakeFolder([1, 2]), [1]);
+
+  assert.deepEqual(await sync('Moved', fakeFolder([2]), []), []);
+  assert.deepEqual((await storage.getSyncCheckpoint(account.id, 'Moved'))!.retry_uids, []);
+});
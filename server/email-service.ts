@@ -1,29 +1,105 @@
 import { storage } from './storage';
-import { ChildAccount, InsertActivityLog, EmailProvider } from '@shared/schema';
+import { ChildAccount, ActivityLog, InsertActivityLog, EmailProvider, JunkMailPreferences } from '@shared/schema';
 import { contentFilter } from './content-filter';
+import { credentialVault } from './credential-vault';
+import { quarantineService, QuarantineItem } from './quarantine-service';
+import { approvalService } from './approval-service';
+import { outgoingDetector, outgoingCategoryLabels } from './outgoing-detector';
+import { malwareScanner, MalwareScanResult } from './malware-scanner';
+import { dkimVerifier, DkimResult } from './dkim-verifier';
+import { headerAnalyzer } from './header-analyzer';
+import { describeBreakdown, describePrediction } from './filter-scoring';
+import { htmlExtractor } from './html-extractor';
 import { 
   EmailProviderManager, 
   EmailProviderFactory, 
   ProviderType,
-  OAuthService
+  OAuthService,
+  EmailProviderInterface,
+  FolderInfo,
+  EmailMessage,
+  resolveSpecialFolders,
+  ResolvedFolders,
+  FolderRole
 } from './providers';
 
+type IdleWatchResult = 'watching' | 'unsupported' | 'failed';
+
+/**
+ * What happens to flagged messages in a monitored folder
+ */
+export type FolderAction = 'quarantine' | 'delete' | 'log';
+
+const folderActionLabels: Record<FolderAction, string> = {
+  quarantine: 'Quarantined',
+  delete: 'Deleted',
+  log: 'Flagged'
+};
+
+// Characters of a message's text kept in the processed message history
+const HISTORY_TEXT_LIMIT = 20000;
+
+// Times a message that fails to process is tried, counting the first, before it is given up on
+const MAX_MESSAGE_ATTEMPTS = 3;
+
+// A message that failed to process, kept on the folder's sync checkpoint to try again
+type FailedMessage = { uid: number; attempts: number };
+
+/**
+ * A monitored folder resolved to a path for one check
+ */
+interface FolderScan {
+  path: string;
+  role: FolderRole | null;
+  action: FolderAction;
+  // Walled-garden inbox: unknown senders go to the approval queue
+  holdUnknownSenders: boolean;
+}
+
 class EmailService {
   private checkIntervals: Map<number, NodeJS.Timeout> = new Map();
   private storageService: typeof storage | null = null;
   private contentFilterService: typeof contentFilter | null = null;
   
+  // IMAP IDLE push monitoring state, keyed by child account ID
+  private idleWatchers: Map<number, () => void> = new Map();
+  private idleRetryTimers: Map<number, NodeJS.Timeout> = new Map();
+  private idleRetryAttempts: Map<number, number> = new Map();
+  private pendingChecks: Map<number, NodeJS.Timeout> = new Map();
+  private runningChecks: Set<number> = new Set();
+  private rerunRequested: Set<number> = new Set();
+  private idleDebounceMs: number = 2 * 1000; // Batch bursts of new mail
+  private idleRetryBaseMs: number = 60 * 1000; // 1 minute, doubling per failed attempt
+  private idleRetryMaxMs: number = 15 * 60 * 1000; // 15 minutes
+  
+  // Resolved inbox/junk/trash/sent folders per child account
+  private folderCache: Map<number, ResolvedFolders> = new Map();
+  private folderCacheTtlMs: number = 6 * 60 * 60 * 1000; // 6 hours
+  private syncBatchSize: number = 50;
+  private monitoredFolderCounts: Map<number, number> = new Map();
+  
   async init(storageService: typeof storage, contentFilterService: typeof contentFilter) {
     this.storageService = storageService;
     this.contentFilterService = contentFilterService;
     
+    // Persist access tokens the provider manager refreshes before connecting
+    EmailProviderManager.getInstance().setTokenRefreshHandler(async (accountId, tokens) => {
+      await storageService.updateChildAccount(accountId, credentialVault.encryptAccountSecrets({
+        oauth_token: tokens.accessToken,
+        oauth_refresh_token: tokens.refreshToken,
+        token_expiry: tokens.expiresAt
+      }));
+    });
+    
     // Load all active child accounts and schedule checks
     try {
       const accounts = await storageService.getAllChildAccounts();
       accounts.filter(account => account.is_active).forEach(account => {
-        this.scheduleCheck(account);
+        this.startMonitoring(account).catch(err => {
+          console.error(`Error starting monitoring for account ${account.id}:`, err);
+        });
       });
-      console.log(`Scheduled checks for ${accounts.filter(account => account.is_active).length} accounts`);
+      console.log(`Started monitoring for ${accounts.filter(account => account.is_active).length} accounts`);
     } catch (error) {
       console.error('Error initializing email service:', error);
     }
@@ -53,6 +129,190 @@ class EmailService {
     console.log(`Scheduled check for account ${account.id} every ${intervalMinutes} minutes`);
   }
   
+  /**
+   * Start monitoring an account. IMAP IDLE is preferred so new mail is
+   * processed within seconds; when the server doesn't support IDLE, or the
+   * watch can't be established, the account falls back to interval polling.
+   */
+  async startMonitoring(account: ChildAccount) {
+    this.stopMonitoring(account.id);
+    
+    const result = await this.watchAccount(account);
+    if (result !== 'watching' || this.needsPollingWithIdle(account.id)) {
+      this.scheduleCheck(account);
+    }
+    if (result === 'failed') {
+      this.scheduleIdleRetry(account);
+    }
+  }
+  
+  /**
+   * IDLE only reports changes to the selected folder, so accounts that monitor
+   * several incoming folders keep polling for the rest. The log-only Sent
+   * folder does not count: it is checked along with every IDLE-triggered check.
+   */
+  private needsPollingWithIdle(accountId: number): boolean {
+    return (this.monitoredFolderCounts.get(accountId) ?? 1) > 1;
+  }
+  
+  /**
+   * Stop all monitoring (IDLE watch, polling and pending checks) for an account
+   */
+  stopMonitoring(accountId: number) {
+    this.stopIdleWatch(accountId);
+    this.folderCache.delete(accountId);
+    this.monitoredFolderCounts.delete(accountId);
+    
+    if (this.checkIntervals.has(accountId)) {
+      clearInterval(this.checkIntervals.get(accountId));
+      this.checkIntervals.delete(accountId);
+    }
+    
+    if (this.idleRetryTimers.has(accountId)) {
+      clearTimeout(this.idleRetryTimers.get(accountId));
+      this.idleRetryTimers.delete(accountId);
+    }
+    this.idleRetryAttempts.delete(accountId);
+    
+    if (this.pendingChecks.has(accountId)) {
+      clearTimeout(this.pendingChecks.get(accountId));
+      this.pendingChecks.delete(accountId);
+    }
+  }
+  
+  /**
+   * Try to watch an account's junk folder with IMAP IDLE on its pooled connection
+   * @returns 'watching' on success, 'unsupported' if the server has no IDLE
+   * capability, or 'failed' if the connection or initial check failed
+   */
+  private async watchAccount(account: ChildAccount): Promise<IdleWatchResult> {
+    try {
+      // The initial check also leaves the last scanned folder (the inbox when it
+      // is monitored, otherwise the junk folder) selected on the pooled
+      // connection, which is the folder the server will push updates for
+      await this.checkAndProcess(account);
+      
+      const providerManager = EmailProviderManager.getInstance();
+      const supported = await providerManager.withProvider(account, async provider => {
+        if (!provider.supportsIdle()) {
+          return false;
+        }
+        
+        // Keep the connection open for as long as we are watching it
+        providerManager.setConnectionPinned(account.id, true);
+        
+        const unsubscribe = provider.subscribe({
+          onNewMail: () => this.queueCheck(account),
+          onConnectionLost: () => this.handleIdleConnectionLost(account)
+        });
+        this.idleWatchers.set(account.id, unsubscribe);
+        return true;
+      });
+      
+      if (!supported) {
+        console.log(`IDLE not supported for account ${account.id}, using polling`);
+        return 'unsupported';
+      }
+      
+      this.idleRetryAttempts.delete(account.id);
+      
+      // Polling is not needed while IDLE is active, unless other folders are
+      // monitored that IDLE cannot see
+      if (this.checkIntervals.has(account.id) && !this.needsPollingWithIdle(account.id)) {
+        clearInterval(this.checkIntervals.get(account.id));
+        this.checkIntervals.delete(account.id);
+      }
+      
+      console.log(`Watching account ${account.id} with IMAP IDLE`);
+      return 'watching';
+    } catch (error) {
+      console.error(`Error starting IDLE watch for account ${account.id}:`, error);
+      return 'failed';
+    }
+  }
+  
+  private stopIdleWatch(accountId: number) {
+    const unsubscribe = this.idleWatchers.get(accountId);
+    if (unsubscribe) {
+      unsubscribe();
+      this.idleWatchers.delete(accountId);
+      EmailProviderManager.getInstance().setConnectionPinned(accountId, false);
+    }
+  }
+  
+  /**
+   * Fall back to polling when a watched connection drops, and try to
+   * re-establish the IDLE watch later
+   */
+  private handleIdleConnectionLost(account: ChildAccount) {
+    if (!this.idleWatchers.has(account.id)) {
+      return;
+    }
+    
+    console.warn(`IDLE connection lost for account ${account.id}, falling back to polling`);
+    this.stopIdleWatch(account.id);
+    this.scheduleCheck(account);
+    this.scheduleIdleRetry(account);
+  }
+  
+  private scheduleIdleRetry(account: ChildAccount) {
+    if (this.idleRetryTimers.has(account.id)) {
+      clearTimeout(this.idleRetryTimers.get(account.id));
+    }
+    
+    const attempt = this.idleRetryAttempts.get(account.id) || 0;
+    this.idleRetryAttempts.set(account.id, attempt + 1);
+    const delay = Math.min(this.idleRetryBaseMs * Math.pow(2, attempt), this.idleRetryMaxMs);
+    
+    const timer = setTimeout(() => {
+      this.idleRetryTimers.delete(account.id);
+      this.watchAccount(account).then(result => {
+        if (result === 'failed') {
+          this.scheduleIdleRetry(account);
+        }
+      });
+    }, delay);
+    
+    this.idleRetryTimers.set(account.id, timer);
+  }
+  
+  /**
+   * Queue a check after new mail is pushed. Bursts are debounced, and a push
+   * that arrives while a check is running triggers one more run afterwards.
+   */
+  private queueCheck(account: ChildAccount) {
+    if (this.pendingChecks.has(account.id)) {
+      return;
+    }
+    
+    const timer = setTimeout(() => {
+      this.pendingChecks.delete(account.id);
+      this.runQueuedCheck(account);
+    }, this.idleDebounceMs);
+    
+    this.pendingChecks.set(account.id, timer);
+  }
+  
+  private runQueuedCheck(account: ChildAccount) {
+    if (this.runningChecks.has(account.id)) {
+      this.rerunRequested.add(account.id);
+      return;
+    }
+    
+    this.runningChecks.add(account.id);
+    this.checkAndProcess(account)
+      .catch(err => {
+        // checkAndProcess has already logged the error activity
+        console.error(`Error checking account ${account.id}:`, err);
+      })
+      .finally(() => {
+        this.runningChecks.delete(account.id);
+        if (this.rerunRequested.delete(account.id)) {
+          this.runQueuedCheck(account);
+        }
+      });
+  }
+  
   async checkAndProcess(account: ChildAccount) {
     if (!this.storageService || !this.contentFilterService) {
       throw new Error('Email service not initialized');
@@ -74,7 +334,7 @@ class EmailService {
         user_id: account.user_id,
         child_account_id: account.id,
         activity_type: 'check',
-        details: 'Checking for new junk emails'
+        details: 'Checking for new emails'
       });
       
       // Get provider settings for this account
@@ -90,201 +350,783 @@ class EmailService {
       const allProviders = await this.storageService.getAllEmailProviders();
       providerManager.setProviderSettings(allProviders);
       
-      // Get a provider instance for this account
-      const provider = await providerManager.getProviderForAccount(account);
-      if (!provider) {
-        throw new Error(`Failed to get provider for account ${account.id}`);
+      // Process the monitored folders while holding the account's connection lock,
+      // so concurrent checks can't interleave folder selection on the shared
+      // IMAP session. The connection stays in the pool afterwards: the provider
+      // manager reaps idle connections, and watched accounts keep theirs for IDLE.
+      await providerManager.withProvider(account, async provider => {
+        const scans = await this.getFolderScans(account, provider, providerSettings);
+        this.monitoredFolderCounts.set(account.id, scans.filter(scan => scan.role !== 'sent').length);
+        
+        // One unreachable folder should not stop the others from being checked
+        const failures: string[] = [];
+        for (const scan of scans) {
+          try {
+            await this.processFolder(account, provider, providerSettings, scan, junkPreferences);
+          } catch (error) {
+            failures.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+        
+        if (failures.length > 0) {
+          throw new Error(failures.join('; '));
+        }
+      });
+      
+      console.log(`Finished checking emails for ${account.email}`);
+      
+    } catch (error) {
+      console.error(`Error checking emails for ${account.email}:`, error);
+      await this.logActivity({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        activity_type: 'error',
+        details: `Error checking emails: ${error instanceof Error ? error.message : String(error)}`
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the resolved special folders for an account, connecting if needed
+   * @param account The child account to look up
+   * @param refresh Whether to ignore the cache and list folders again
+   * @returns The account's inbox, junk, trash and sent folders
+   */
+  async getAccountFolders(account: ChildAccount, refresh: boolean = false): Promise<ResolvedFolders> {
+    if (!this.storageService) {
+      throw new Error('Email service not initialized');
+    }
+    
+    const cached = this.folderCache.get(account.id);
+    if (!refresh && cached && Date.now() - cached.resolvedAt.getTime() < this.folderCacheTtlMs) {
+      return cached;
+    }
+    
+    const providerSettings = await this.storageService.getEmailProvider(account.provider_id);
+    if (!providerSettings) {
+      throw new Error(`No provider settings found for provider ID ${account.provider_id}`);
+    }
+    
+    const providerManager = EmailProviderManager.getInstance();
+    providerManager.setProviderSettings(await this.storageService.getAllEmailProviders());
+    
+    return await providerManager.withProvider(account, provider =>
+      this.resolveFolders(account, provider, providerSettings, refresh)
+    );
+  }
+  
+  /**
+   * Resolve an account's special folders on an already-connected provider,
+   * using SPECIAL-USE/XLIST attributes first and folder names as a fallback
+   */
+  private async resolveFolders(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    providerSettings: EmailProvider,
+    refresh: boolean = false
+  ): Promise<ResolvedFolders> {
+    const cached = this.folderCache.get(account.id);
+    if (!refresh && cached && Date.now() - cached.resolvedAt.getTime() < this.folderCacheTtlMs) {
+      return cached;
+    }
+    
+    let folderList: FolderInfo[] = [];
+    try {
+      folderList = await provider.listFolders();
+    } catch (error) {
+      console.error(`Error listing folders for ${account.email}:`, error);
+    }
+    
+    const folders = resolveSpecialFolders(folderList, {
+      customJunkFolder: account.custom_junk_folder,
+      providerJunkPath: providerSettings.junk_folder_path
+    });
+    
+    // Only cache results backed by a real folder listing
+    if (folderList.length > 0) {
+      this.folderCache.set(account.id, folders);
+    }
+    
+    return folders;
+  }
+  
+  /**
+   * Work out which folders to scan on an account and how to treat each one
+   * @returns The scans in processing order. The last one is left selected for
+   * IMAP IDLE, so the inbox goes last, or the junk folder when the inbox is not
+   * scanned, and the Sent folder first
+   */
+  private async getFolderScans(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    providerSettings: EmailProvider
+  ): Promise<FolderScan[]> {
+    if (!this.storageService) {
+      throw new Error('Email service not initialized');
+    }
+    
+    const monitored = (await this.storageService.getMonitoredFolders(account.id)).filter(folder => folder.is_active);
+    const folders = await this.resolveFolders(account, provider, providerSettings);
+    const walledGarden = approvalService.requiresApproval(account);
+    const scans: FolderScan[] = [];
+    
+    for (const folder of monitored) {
+      const role = (folder.folder_role as FolderRole | null) ?? this.getFolderRole(folders, folder.folder_path!);
+      const path = folder.folder_role ? folders[role!]?.path : folder.folder_path;
+      
+      if (!path) {
+        await this.logActivity({
+          user_id: account.user_id,
+          child_account_id: account.id,
+          activity_type: 'error',
+          details: role === 'junk'
+            ? 'Could not find a junk folder on this account; set one in the account settings'
+            : `Could not find the ${role} folder on this account`
+        });
+        continue;
       }
       
-      // Determine the junk folder path
-      const junkFolderPath = account.custom_junk_folder || providerSettings.junk_folder_path || 'Junk';
+      if (scans.some(scan => scan.path === path)) {
+        continue;
+      }
       
-      // Select the junk folder
-      const folderSelected = await provider.selectFolder(junkFolderPath);
-      if (!folderSelected) {
-        throw new Error(`Failed to select folder ${junkFolderPath}`);
+      scans.push({
+        path,
+        role,
+        // Sent mail is never moved or deleted, whatever the stored action says
+        action: role === 'sent' ? 'log' : folder.action as FolderAction,
+        holdUnknownSenders: walledGarden && role === 'inbox'
+      });
+    }
+    
+    // Walled-garden accounts need their inbox scanned even when it is not monitored
+    if (walledGarden && !scans.some(scan => scan.role === 'inbox')) {
+      scans.push({
+        path: folders.inbox?.path || 'INBOX',
+        role: 'inbox',
+        action: 'log',
+        holdUnknownSenders: true
+      });
+    }
+    
+    const idleOrder = (scan: FolderScan) => ['sent', null, 'trash', 'junk', 'inbox'].indexOf(scan.role);
+    return scans.sort((a, b) => idleOrder(a) - idleOrder(b));
+  }
+  
+  /**
+   * Find which special folder, if any, a path refers to
+   */
+  private getFolderRole(folders: ResolvedFolders, path: string): FolderRole | null {
+    const roles: FolderRole[] = ['inbox', 'junk', 'trash', 'sent'];
+    return roles.find(role => folders[role]?.path.toLowerCase() === path.toLowerCase()) ?? null;
+  }
+  
+  /**
+   * Scan one monitored folder of an account on an already-connected provider
+   */
+  private async processFolder(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    providerSettings: EmailProvider,
+    scan: FolderScan,
+    junkPreferences: JunkMailPreferences | undefined
+  ) {
+    let folderSelected = await provider.selectFolder(scan.path);
+    if (!folderSelected && scan.role) {
+      // The cached folder may have been renamed; look again before giving up
+      const refreshed = await this.resolveFolders(account, provider, providerSettings, true);
+      const refreshedPath = refreshed[scan.role]?.path;
+      if (refreshedPath && refreshedPath !== scan.path) {
+        scan = { ...scan, path: refreshedPath };
+        folderSelected = await provider.selectFolder(scan.path);
+      }
+    }
+    if (!folderSelected) {
+      throw new Error(`Failed to select folder ${scan.path}`);
+    }
+    
+    // The junk folder is scanned in full; elsewhere only mail arriving after
+    // monitoring started is checked, so old inbox mail is not swept up at once
+    const scanned = await this.syncFolder(account, provider, scan.path, { skipExisting: scan.role !== 'junk' }, messages =>
+      scan.role === 'sent'
+        ? this.processSentMessages(account, scan, messages)
+        : this.processFolderMessages(account, provider, providerSettings, scan, messages, junkPreferences)
+    );
+    
+    if (scanned === 0) {
+      console.log(`No new messages in ${scan.path}`);
+    }
+  }
+  
+  /**
+   * Feed every message above a folder's sync checkpoint to a handler in batches,
+   * advancing the checkpoint after each batch. Messages the handler could not
+   * process are kept on the checkpoint and tried again first on the next sync,
+   * up to MAX_MESSAGE_ATTEMPTS times. The folder must already be selected.
+   * @param options skipExisting starts from the current end of the folder when there
+   * is no usable checkpoint, instead of scanning everything already there
+   * @param processBatch Handles a batch and returns the messages that failed
+   * @returns The number of messages scanned
+   */
+  private async syncFolder(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    folderPath: string,
+    options: { skipExisting?: boolean },
+    processBatch: (messages: EmailMessage[]) => Promise<EmailMessage[]>
+  ): Promise<number> {
+    if (!this.storageService) {
+      throw new Error('Email service not initialized');
+    }
+    
+    // Resume from the folder's sync checkpoint. A changed UIDVALIDITY means the
+    // server renumbered the folder, so every message has to be scanned again
+    const folderStatus = provider.getFolderStatus();
+    const checkpoint = await this.storageService.getSyncCheckpoint(account.id, folderPath);
+    let lastUid = 0;
+    let retries: FailedMessage[] = [];
+    
+    if (checkpoint && folderStatus && checkpoint.uid_validity === folderStatus.uidValidity) {
+      lastUid = checkpoint.last_uid;
+      retries = (checkpoint.retry_uids as FailedMessage[] | null) ?? [];
+    } else {
+      if (checkpoint) {
+        await this.logActivity({
+          user_id: account.user_id,
+          child_account_id: account.id,
+          activity_type: 'sync_reset',
+          details: options.skipExisting
+            ? `Folder ${folderPath} was renumbered by the server; only new messages will be checked`
+            : `Folder ${folderPath} was renumbered by the server; rescanning all messages`
+        });
       }
       
-      // List unread messages in the junk folder
-      const messages = await provider.listMessages(junkFolderPath, {
-        unreadOnly: true,
-        limit: 50
+      if (options.skipExisting) {
+        if (folderStatus) {
+          await this.storageService.saveSyncCheckpoint({
+            child_account_id: account.id,
+            folder_path: folderPath,
+            uid_validity: folderStatus.uidValidity,
+            last_uid: Math.max(folderStatus.uidNext - 1, 0)
+          });
+        }
+        return 0;
+      }
+    }
+    
+    const saveCheckpoint = async () => {
+      if (folderStatus) {
+        await this.storageService!.saveSyncCheckpoint({
+          child_account_id: account.id,
+          folder_path: folderPath,
+          uid_validity: folderStatus.uidValidity,
+          last_uid: lastUid,
+          retry_uids: retries
+        });
+      }
+    };
+    const uidOf = (message: EmailMessage) => message.uid ?? parseInt(message.id);
+    let scanned = 0;
+    
+    // Messages that failed on an earlier sync go first
+    if (retries.length > 0) {
+      const messages: EmailMessage[] = [];
+      const stillFailing = new Set<number>();
+      for (const retry of retries) {
+        try {
+          // A message no longer in the folder was moved or deleted; nothing is left to check
+          const message = await provider.getMessage(String(retry.uid));
+          if (message) {
+            messages.push({ ...message, uid: retry.uid });
+          }
+        } catch (error) {
+          console.error(`Error fetching message ${retry.uid} from ${folderPath} again:`, error);
+          stillFailing.add(retry.uid);
+        }
+      }
+      
+      if (messages.length > 0) {
+        (await processBatch(messages)).forEach(message => stillFailing.add(uidOf(message)));
+        scanned += messages.length;
+      }
+      
+      retries = await this.keepRetrying(account, folderPath, retries
+        .filter(retry => stillFailing.has(retry.uid))
+        .map(retry => ({ uid: retry.uid, attempts: retry.attempts + 1 })));
+      await saveCheckpoint();
+    }
+    
+    // Fetch everything above the checkpoint, read or unread, one batch at a time
+    while (true) {
+      const messages = await provider.listMessages(folderPath, {
+        sinceUid: lastUid,
+        limit: this.syncBatchSize
       });
       
       if (messages.length === 0) {
-        console.log('No new messages');
-        return;
+        break;
       }
       
-      console.log(`Found ${messages.length} new junk messages`);
+      const failed = await processBatch(messages);
+      scanned += messages.length;
       
-      // Process each message
-      const messagesToDelete: string[] = [];
+      const highestUid = Math.max(...messages.map(message => message.uid || 0));
+      if (highestUid <= lastUid) {
+        // Without UIDs we cannot make progress; stop rather than loop forever
+        break;
+      }
+      lastUid = highestUid;
+      retries = await this.keepRetrying(account, folderPath, [
+        ...retries,
+        ...failed.map(message => ({ uid: uidOf(message), attempts: 1 }))
+      ]);
+      await saveCheckpoint();
       
-      for (const message of messages) {
-        try {
-          const fromAddress = message.from || 'Unknown Sender';
-          const subject = message.subject || 'No Subject';
-          const textContent = message.text || '';
-          const htmlContent = message.html || '';
+      if (messages.length < this.syncBatchSize) {
+        break;
+      }
+    }
+    
+    return scanned;
+  }
+  
+  /**
+   * Drop the failed messages that have had all their attempts, telling the
+   * parent that they went unchecked
+   * @returns The messages still to be tried again
+   */
+  private async keepRetrying(account: ChildAccount, folderPath: string, failed: FailedMessage[]): Promise<FailedMessage[]> {
+    const exhausted = failed.filter(retry => retry.attempts >= MAX_MESSAGE_ATTEMPTS);
+    if (exhausted.length > 0) {
+      await this.logActivity({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        activity_type: 'error',
+        details: `Gave up checking ${exhausted.length} message(s) in ${folderPath} after ${MAX_MESSAGE_ATTEMPTS} failed attempts`
+      });
+    }
+    return failed.filter(retry => retry.attempts < MAX_MESSAGE_ATTEMPTS);
+  }
+  
+  /**
+   * Filter one batch of messages from a monitored folder, keeping, marking or
+   * flagging each, then apply the folder's action to the flagged ones
+   */
+  private async processFolderMessages(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    providerSettings: EmailProvider,
+    scan: FolderScan,
+    messages: EmailMessage[],
+    junkPreferences: JunkMailPreferences | undefined
+  ): Promise<EmailMessage[]> {
+    if (!this.storageService || !this.contentFilterService) {
+      throw new Error('Email service not initialized');
+    }
+    
+    console.log(`Found ${messages.length} new messages in ${scan.path}`);
+    
+    // Process each message
+    const flaggedMessages: QuarantineItem[] = [];
+    const unknownSenders: EmailMessage[] = [];
+    const failed: EmailMessage[] = [];
+    const isJunkFolder = scan.role === 'junk';
+    
+    for (const message of messages) {
+      try {
+        // A parent already restored or approved this one; leave it alone
+        if (message.messageIdHeader && (
+          await quarantineService.wasRestored(account.id, message.messageIdHeader) ||
+          (scan.holdUnknownSenders && await approvalService.wasApproved(account.id, message.messageIdHeader))
+        )) {
+          continue;
+        }
+        
+        // A message that could not be read cannot be checked; treat it as flagged
+        if (message.parseError) {
+          const reason = `Message could not be read: ${message.parseError}`;
+          console.log(`Unreadable message in ${scan.path}: ${message.parseError}`);
           
-          // Check if the sender is trusted
-          const isTrusted = await this.storageService.isEmailTrusted(
-            fromAddress, 
-            account.user_id, 
-            account.id
-          );
+          const activityLog = await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: scan.action === 'log' ? 'filter_match' : 'inappropriate_deleted',
+            details: `${folderActionLabels[scan.action]} email in ${scan.path}: ${reason}`,
+            sender_email: message.from || 'Unknown Sender'
+          });
           
-          if (isTrusted) {
-            // Skip processing for trusted senders
-            await this.logActivity({
-              user_id: account.user_id,
-              child_account_id: account.id,
-              activity_type: 'trusted_sender',
-              details: `Kept email from trusted sender: ${fromAddress}`,
-              sender_email: fromAddress
-            });
-            continue;
-          }
+          flaggedMessages.push({ message, reason, activityLog });
+          continue;
+        }
+        
+        const fromAddress = message.from || 'Unknown Sender';
+        const subject = message.subject || 'No Subject';
+        const textContent = message.text || '';
+        const htmlContent = message.html || '';
+        
+        // Authentication results are only believed from the provider's own servers
+        const headers = headerAnalyzer.withProviderResults(message.headers || {}, providerSettings.authserv_ids, providerSettings.writes_received_spf);
+        
+        // Junk folders often lack the server's DKIM result, so check signatures ourselves
+        const dkimResults = await this.verifyDkim(message);
+        const dkimDomain = dkimVerifier.verifiedDomain(dkimResults);
+        
+        // Malware is removed whoever sent it
+        const malware = await this.scanForMalware(account, message);
+        if (malware.infected) {
+          const reason = `Malware in attachment ${malware.filename}: ${malware.signature}`;
+          console.log(`Malware detected in ${scan.path}: ${reason}`);
+          
+          const activityLog = await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: scan.action === 'log' ? 'filter_match' : 'inappropriate_deleted',
+            details: `${folderActionLabels[scan.action]} email in ${scan.path}: ${reason}`,
+            sender_email: fromAddress,
+            threat_type: 'malware',
+            dkim_domain: dkimDomain
+          });
           
-          // Check if the email should be kept based on junk mail preferences
-          let shouldKeep = false;
-          let keepReason = '';
+          flaggedMessages.push({ message, reason, activityLog });
+          continue;
+        }
+        
+        // Check if the sender is trusted
+        const isTrusted = await this.storageService.isEmailTrusted(
+          fromAddress, 
+          account.user_id, 
+          account.id,
+          headers,
+          dkimResults
+        );
+        
+        if (isTrusted) {
+          // Skip processing for trusted senders
+          await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: 'trusted_sender',
+            details: `Kept email from trusted sender: ${fromAddress}`,
+            sender_email: fromAddress,
+            dkim_domain: dkimDomain
+          });
+          continue;
+        }
+        
+        // In walled-garden mode nobody else reaches the inbox without approval
+        if (scan.holdUnknownSenders) {
+          unknownSenders.push(message);
+          continue;
+        }
+        
+        // Check if the email should be kept based on junk mail preferences
+        let shouldKeep = false;
+        let keepReason = '';
+        
+        if (isJunkFolder && junkPreferences) {
+          // Check if it's a newsletter and we want to keep newsletters
+          if (junkPreferences.keep_newsletters && 
+              (subject.toLowerCase().includes('newsletter') || 
+               textContent.toLowerCase().includes('newsletter') || 
+               textContent.toLowerCase().includes('subscribe') || 
+               textContent.toLowerCase().includes('unsubscribe'))) {
+            shouldKeep = true;
+            keepReason = 'newsletter';
+          }
           
-          if (junkPreferences) {
-            // Check if it's a newsletter and we want to keep newsletters
-            if (junkPreferences.keep_newsletters && 
-                (subject.toLowerCase().includes('newsletter') || 
-                 textContent.toLowerCase().includes('newsletter') || 
-                 textContent.toLowerCase().includes('subscribe') || 
-                 textContent.toLowerCase().includes('unsubscribe'))) {
-              shouldKeep = true;
-              keepReason = 'newsletter';
-            }
-            
-            // Check if it's a receipt/order confirmation and we want to keep those
-            if (junkPreferences.keep_receipts && 
-                (subject.toLowerCase().includes('receipt') ||
-                 subject.toLowerCase().includes('order') ||
-                 subject.toLowerCase().includes('confirmation') ||
-                 subject.toLowerCase().includes('invoice'))) {
-              shouldKeep = true;
-              keepReason = 'receipt/order';
-            }
-            
-            // Check if it's from social media and we want to keep those
-            if (junkPreferences.keep_social_media && 
-                (fromAddress.toLowerCase().includes('facebook') || 
-                 fromAddress.toLowerCase().includes('instagram') ||
-                 fromAddress.toLowerCase().includes('twitter') ||
-                 fromAddress.toLowerCase().includes('linkedin') ||
-                 fromAddress.toLowerCase().includes('tiktok'))) {
-              shouldKeep = true;
-              keepReason = 'social media';
-            }
+          // Check if it's a receipt/order confirmation and we want to keep those
+          if (junkPreferences.keep_receipts && 
+              (subject.toLowerCase().includes('receipt') ||
+               subject.toLowerCase().includes('order') ||
+               subject.toLowerCase().includes('confirmation') ||
+               subject.toLowerCase().includes('invoice'))) {
+            shouldKeep = true;
+            keepReason = 'receipt/order';
           }
           
-          if (shouldKeep) {
-            // Log that we're keeping this junk mail
-            await this.logActivity({
-              user_id: account.user_id,
-              child_account_id: account.id,
-              activity_type: 'kept',
-              details: `Kept junk email (${keepReason}): ${subject}`,
-              sender_email: fromAddress
-            });
-            
-            // Mark as read but don't delete
-            await provider.markAsRead(message.id);
-            continue;
+          // Check if it's from social media and we want to keep those
+          if (junkPreferences.keep_social_media && 
+              (fromAddress.toLowerCase().includes('facebook') || 
+               fromAddress.toLowerCase().includes('instagram') ||
+               fromAddress.toLowerCase().includes('twitter') ||
+               fromAddress.toLowerCase().includes('linkedin') ||
+               fromAddress.toLowerCase().includes('tiktok'))) {
+            shouldKeep = true;
+            keepReason = 'social media';
           }
+        }
+        
+        if (shouldKeep) {
+          // Log that we're keeping this junk mail
+          await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: 'kept',
+            details: `Kept junk email (${keepReason}): ${subject}`,
+            sender_email: fromAddress,
+            dkim_domain: dkimDomain
+          });
           
-          // Check if the content is inappropriate
-          const filterResult = await this.contentFilterService.checkContent(
+          // Mark as read but don't delete
+          await provider.markAsRead(message.id);
+          continue;
+        }
+        
+        // Check if the content is inappropriate
+        const filterResult = await this.contentFilterService.checkContent(
+          subject,
+          textContent,
+          htmlContent,
+          account.user_id,
+          fromAddress,
+          account.id,
+          message.attachments || [],
+          headers,
+          dkimResults
+        );
+        
+        // Every prediction is kept for comparing the model with the rules, whatever the learning mode
+        const prediction = filterResult.prediction;
+        if (prediction) {
+          await this.storageService.createModelPrediction({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            subject,
+            learning_mode: prediction.mode,
+            rule_verdict: prediction.ruleVerdict,
+            predicted: prediction.predicted,
+            probability: Math.round(prediction.probability * 100),
+            final_verdict: filterResult.verdict
+          });
+        }
+        
+        // Kept for trying out draft rules; a trusted sender's content is never filtered, so it is left out
+        if (!filterResult.trustedSender) {
+          const html = htmlContent ? htmlExtractor.extract(htmlContent) : null;
+          await this.storageService.createProcessedMessage({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            folder_path: scan.path,
             subject,
-            textContent,
-            htmlContent,
-            account.user_id,
-            fromAddress,
-            account.id
-          );
+            sender_email: fromAddress,
+            body_text: [textContent, html?.visibleText].filter(Boolean).join('\n').slice(0, HISTORY_TEXT_LIMIT),
+            hidden_text: [html?.attributeText, html?.hiddenText].filter(Boolean).join('\n').slice(0, HISTORY_TEXT_LIMIT),
+            breakdown: filterResult.breakdown,
+            thresholds: filterResult.thresholds,
+            verdict: filterResult.verdict
+          });
+        }
+        
+        // Predictions are shown beside the rules' verdict, and say so when they changed it
+        const predictionSummary = !prediction ? '' : prediction.ruleVerdict === filterResult.verdict
+          ? `; ${describePrediction(prediction)}`
+          : `; ${describePrediction(prediction)}, overriding the rules' ${prediction.ruleVerdict} verdict`;
+        const filterSummary = `${describeBreakdown(filterResult.breakdown) || 'No rule matches'} [score ${filterResult.score}${predictionSummary}]`;
+        
+        if (filterResult.verdict === 'unsafe') {
+          console.log(`Inappropriate content detected in ${scan.path}: ${filterSummary}`);
           
-          if (filterResult.isInappropriate) {
-            console.log(`Inappropriate content detected: ${filterResult.reason}`);
-            
-            // Mark for deletion
-            messagesToDelete.push(message.id);
-            
-            // Log the inappropriate content detection and deletion
-            await this.logActivity({
-              user_id: account.user_id,
-              child_account_id: account.id,
-              activity_type: 'inappropriate_deleted',
-              details: `Deleted inappropriate email: ${filterResult.reason}`,
-              sender_email: fromAddress
-            });
-          } else if (junkPreferences && junkPreferences.auto_delete_all) {
-            // Delete based on junk mail preferences
-            messagesToDelete.push(message.id);
-            
-            // Log the deletion of non-inappropriate junk
-            await this.logActivity({
-              user_id: account.user_id,
-              child_account_id: account.id,
-              activity_type: 'deleted',
-              details: `Deleted junk email with subject: ${subject}`,
-              sender_email: fromAddress
-            });
-          }
-        } catch (err) {
-          console.error('Error processing message:', err);
+          // Log the inappropriate content detection
+          const activityLog = await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: scan.action === 'log' ? 'filter_match' : 'inappropriate_deleted',
+            details: `${folderActionLabels[scan.action]} inappropriate email in ${scan.path}: ${filterSummary}`,
+            sender_email: fromAddress,
+            threat_type: filterResult.threatType ?? null,
+            dkim_domain: dkimDomain,
+            category: filterResult.category ?? null
+          });
+          
+          flaggedMessages.push({
+            message,
+            reason: describeBreakdown(filterResult.breakdown) || (prediction ? `Adaptive classifier: ${describePrediction(prediction)}` : 'Inappropriate content'),
+            activityLog
+          });
+          continue;
         }
-      }
-      
-      // Delete messages marked for deletion
-      if (messagesToDelete.length > 0) {
-        console.log(`Deleting ${messagesToDelete.length} messages`);
         
-        for (const messageId of messagesToDelete) {
-          try {
-            await provider.deleteMessage(messageId);
-          } catch (err) {
-            console.error(`Error deleting message ${messageId}:`, err);
-          }
+        if (filterResult.verdict === 'warning') {
+          // Below the child's threshold: the email stays, but the parent can see why it was close
+          await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: 'filter_match',
+            details: `Kept email with warning in ${scan.path}: ${filterSummary}`,
+            sender_email: fromAddress,
+            threat_type: filterResult.threatType ?? null,
+            dkim_domain: dkimDomain,
+            category: filterResult.category ?? null
+          });
         }
         
-        console.log(`Finished deleting messages`);
+        if (isJunkFolder && junkPreferences && junkPreferences.auto_delete_all) {
+          // Remove based on junk mail preferences
+          const activityLog = await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: scan.action === 'log' ? 'filter_match' : 'deleted',
+            details: `${folderActionLabels[scan.action]} junk email with subject: ${subject}`,
+            sender_email: fromAddress,
+            dkim_domain: dkimDomain
+          });
+          
+          flaggedMessages.push({ message, reason: 'Junk mail', activityLog });
+        }
+      } catch (err) {
+        // Left for the next sync to try again
+        console.error('Error processing message:', err);
+        failed.push(message);
       }
-      
-      // Disconnect from the provider
-      await provider.disconnect();
-      
-      console.log(`Finished checking emails for ${account.email}`);
-      
+    }
+    
+    if (unknownSenders.length > 0) {
+      console.log(`Holding ${unknownSenders.length} messages from unknown senders for approval`);
+      await approvalService.holdMessages(account, provider, scan.path, unknownSenders);
+    }
+    
+    await this.applyFolderAction(account, provider, scan, flaggedMessages, junkPreferences);
+    return failed;
+  }
+  
+  /**
+   * Scan a message's attachments with clamd, when it is configured. If clamd
+   * cannot be reached the message is logged and filtered as usual.
+   */
+  private async scanForMalware(account: ChildAccount, message: EmailMessage): Promise<MalwareScanResult> {
+    if (!malwareScanner.isEnabled() || !message.attachments || message.attachments.length === 0) {
+      return { infected: false };
+    }
+    
+    try {
+      return await malwareScanner.scanAttachments(message.attachments);
     } catch (error) {
-      console.error(`Error checking emails for ${account.email}:`, error);
+      console.error(`Error scanning attachments of message ${message.id}:`, error);
       await this.logActivity({
         user_id: account.user_id,
         child_account_id: account.id,
         activity_type: 'error',
-        details: `Error checking emails: ${error instanceof Error ? error.message : String(error)}`
+        details: `Could not scan attachments for malware (${error instanceof Error ? error.message : String(error)}): ${message.subject || 'No Subject'}`,
+        sender_email: message.from || null
       });
-      throw error;
+      return { infected: false };
     }
   }
   
-  // The forwardEmail method has been removed as we now delete inappropriate emails instead of forwarding them
+  /**
+   * Verify the message's DKIM signatures. Verification problems are treated
+   * as if the message were unsigned.
+   */
+  private async verifyDkim(message: EmailMessage): Promise<DkimResult[]> {
+    if (!message.raw) {
+      return [];
+    }
+    
+    try {
+      return await dkimVerifier.verify(message.raw);
+    } catch (error) {
+      console.error(`Error verifying DKIM signatures of message ${message.id}:`, error);
+      return [];
+    }
+  }
   
-  async logActivity(logData: InsertActivityLog) {
+  /**
+   * Alert the parent about personal details or crisis language in mail the
+   * child has sent. Sent messages are only read, never moved or deleted.
+   */
+  private async processSentMessages(account: ChildAccount, scan: FolderScan, messages: EmailMessage[]): Promise<EmailMessage[]> {
+    console.log(`Found ${messages.length} new messages in ${scan.path}`);
+    const failed: EmailMessage[] = [];
+    
+    for (const message of messages) {
+      try {
+        const subject = message.subject || 'No Subject';
+        const recipient = message.to || 'unknown recipient';
+        const findings = outgoingDetector.analyze(subject, message.text || '');
+        
+        const pii = findings.filter(finding => finding.type === 'pii');
+        if (pii.length > 0) {
+          await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: 'outgoing_pii',
+            details: `Sent email to ${recipient} may share a ${pii.map(finding => `${outgoingCategoryLabels[finding.category]} ("${finding.excerpt}")`).join(', ')}: ${subject}`
+          });
+        }
+        
+        const risks = findings.filter(finding => finding.type === 'risk');
+        if (risks.length > 0) {
+          await this.logActivity({
+            user_id: account.user_id,
+            child_account_id: account.id,
+            activity_type: 'outgoing_risk',
+            details: `Sent email to ${recipient} contains possible ${risks.map(finding => `${outgoingCategoryLabels[finding.category]} language ("${finding.excerpt}")`).join(', ')}: ${subject}`
+          });
+        }
+      } catch (err) {
+        // Left for the next sync to try again
+        console.error('Error checking sent message:', err);
+        failed.push(message);
+      }
+    }
+    
+    return failed;
+  }
+
+  
+  /**
+   * Quarantine or delete flagged messages according to the folder's policy.
+   * The 'log' action leaves them where they are.
+   */
+  private async applyFolderAction(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    scan: FolderScan,
+    flaggedMessages: QuarantineItem[],
+    junkPreferences: JunkMailPreferences | undefined
+  ) {
+    if (flaggedMessages.length === 0 || scan.action === 'log') {
+      return;
+    }
+    
+    if (scan.action === 'delete') {
+      console.log(`Deleting ${flaggedMessages.length} messages from ${scan.path}`);
+      
+      for (const { message } of flaggedMessages) {
+        if (!(await provider.deleteMessage(message.id))) {
+          console.error(`Error deleting message ${message.id}:`, provider.getLastError());
+        }
+      }
+      return;
+    }
+    
+    // Move flagged messages to quarantine rather than deleting them, so a
+    // parent can restore false positives
+    console.log(`Quarantining ${flaggedMessages.length} messages from ${scan.path}`);
+    
+    await quarantineService.quarantineMessages(
+      account,
+      provider,
+      scan.path,
+      flaggedMessages,
+      junkPreferences?.quarantine_retention_days
+    );
+  }
+  
+  // The forwardEmail method has been removed as we now quarantine inappropriate emails instead of forwarding them
+  
+  async logActivity(logData: InsertActivityLog): Promise<ActivityLog | undefined> {
     if (!this.storageService) {
       console.error('Cannot log activity: email service not initialized');
-      return;
+      return undefined;
     }
     
     try {
-      await this.storageService.createActivityLog(logData);
+      return await this.storageService.createActivityLog(logData);
     } catch (error) {
       console.error('Error logging activity:', error);
+      return undefined;
     }
   }
   
@@ -293,6 +1135,13 @@ class EmailService {
       clearInterval(interval);
     });
     this.checkIntervals.clear();
+    
+    Array.from(this.idleWatchers.keys()).forEach(accountId => this.stopIdleWatch(accountId));
+    this.idleRetryTimers.forEach(timer => clearTimeout(timer));
+    this.idleRetryTimers.clear();
+    this.idleRetryAttempts.clear();
+    this.pendingChecks.forEach(timer => clearTimeout(timer));
+    this.pendingChecks.clear();
     console.log('All email checks stopped');
   }
 }
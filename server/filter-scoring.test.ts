@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { scoreThresholds, verdictFor, categoryFactor, leadingCategory } from './filter-scoring';
+
+test('sets thresholds by filter level', () => {
+  assert.deepEqual(scoreThresholds('low'), { warning: 40, unsafe: 80 });
+  assert.deepEqual(scoreThresholds('medium'), { warning: 20, unsafe: 40 });
+  assert.deepEqual(scoreThresholds('high'), { warning: 10, unsafe: 25 });
+  assert.deepEqual(scoreThresholds('custom'), scoreThresholds('medium'));
+});
+
+test('falls back to medium for a missing or unknown filter level', () => {
+  assert.deepEqual(scoreThresholds(), scoreThresholds('medium'));
+  assert.deepEqual(scoreThresholds(null, null), scoreThresholds('medium'));
+  assert.deepEqual(scoreThresholds('extreme', 'toddler'), scoreThresholds('medium'));
+});
+
+test('lowers thresholds for younger children and raises them for teens', () => {
+  assert.deepEqual(scoreThresholds('high', 'young_child'), { warning: 6, unsafe: 15 });
+  assert.deepEqual(scoreThresholds('medium', 'pre_teen'), { warning: 16, unsafe: 32 });
+  assert.deepEqual(scoreThresholds('low', 'teen'), { warning: 48, unsafe: 96 });
+  assert.deepEqual(scoreThresholds('medium', 'all'), scoreThresholds('medium'));
+});
+
+test('turns a score into a verdict at the thresholds', () => {
+  const thresholds = scoreThresholds('medium');
+
+  assert.equal(verdictFor(0, thresholds), 'safe');
+  assert.equal(verdictFor(19, thresholds), 'safe');
+  assert.equal(verdictFor(20, thresholds), 'warning');
+  assert.equal(verdictFor(39, thresholds), 'warning');
+  assert.equal(verdictFor(40, thresholds), 'unsafe');
+});
+
+test('gives the same score different verdicts by filter level and age group', () => {
+  assert.equal(verdictFor(30, scoreThresholds('low')), 'safe');
+  assert.equal(verdictFor(30, scoreThresholds('medium')), 'warning');
+  assert.equal(verdictFor(30, scoreThresholds('high')), 'unsafe');
+  assert.equal(verdictFor(30, scoreThresholds('medium', 'teen')), 'warning');
+  assert.equal(verdictFor(36, scoreThresholds('medium', 'pre_teen')), 'unsafe');
+});
+
+test('scales a category by its sensitivity, or drops it when turned off', () => {
+  assert.equal(categoryFactor(), 1);
+  assert.equal(categoryFactor({ enabled: true, sensitivity: 'low' }), 0.5);
+  assert.equal(categoryFactor({ enabled: true, sensitivity: 'high' }), 1.5);
+  assert.equal(categoryFactor({ enabled: false, sensitivity: 'high' }), 0);
+});
+
+test('names the category with the most points in total', () => {
+  assert.equal(leadingCategory([
+    { source: 'term', detail: 'casino', score: 25, category: 'gambling' },
+    { source: 'term', detail: 'bet', score: 25, category: 'gambling' },
+    { source: 'term', detail: 'sex', score: 40, category: 'adult' },
+    { source: 'link', detail: 'link', score: 80 }
+  ]), 'gambling');
+  assert.equal(leadingCategory([{ source: 'link', detail: 'link', score: 80 }]), undefined);
+});
@@ -0,0 +1,197 @@
+import { LinkFindingCategory } from './link-analyzer';
+import { HeaderFindingCategory } from './header-analyzer';
+import { HiddenTextCategory } from './html-extractor';
+import { NormalizationStep } from './text-normalizer';
+import { ContentCategory, LearningMode } from '@shared/schema';
+
+export type FilterVerdict = 'safe' | 'warning' | 'unsafe';
+
+export type ScoreSource = 'attachment' | 'sender' | 'link' | 'term' | 'custom_rule' | 'image' | 'hidden_text' | 'obfuscation';
+
+export type ThreatType = 'suspicious_link' | 'phishing';
+
+export type ScoreItem = {
+  source: ScoreSource;
+  detail: string;
+  score: number;
+  threatType?: ThreatType;
+  normalization?: NormalizationStep; // The normalization step that revealed a term
+  category?: ContentCategory;
+};
+
+export type ScoreThresholds = {
+  warning: number;
+  unsafe: number;
+};
+
+// What the adaptive classifier made of a message, next to what the rules decided
+export type LearnedPrediction = {
+  mode: LearningMode; // The learning mode the verdict was reached under
+  predicted: 'safe' | 'unsafe';
+  probability: number; // Chance that the message is unsafe, from 0 to 1
+  ruleVerdict: FilterVerdict; // The verdict of the score alone
+};
+
+// Points at which a message becomes a warning or unsafe, by filter level
+const levelThresholds: Record<string, ScoreThresholds> = {
+  low: { warning: 40, unsafe: 80 },
+  medium: { warning: 20, unsafe: 40 },
+  high: { warning: 10, unsafe: 25 },
+  custom: { warning: 20, unsafe: 40 }
+};
+
+// Younger children get lower thresholds
+const ageGroupFactors: Record<string, number> = {
+  young_child: 0.6,
+  pre_teen: 0.8,
+  teen: 1.2,
+  all: 1
+};
+
+// Scales the points of a category's rules, per child
+const categorySensitivityFactors: Record<string, number> = {
+  low: 0.5,
+  medium: 1,
+  high: 1.5
+};
+
+export const defaultCategorySetting = {
+  enabled: true,
+  sensitivity: 'medium' as 'low' | 'medium' | 'high'
+};
+
+// Enough to make any message unsafe whatever the settings
+export const BLOCKING_SCORE = 100;
+
+export const detectorWeights = {
+  blockedAttachment: BLOCKING_SCORE,
+  sender: {
+    forged_sender: 80,
+    display_name_spoof: 60,
+    reply_to_mismatch: 30
+  } as Record<HeaderFindingCategory, number>,
+  link: {
+    blocklisted: 80,
+    homoglyph: 60,
+    text_mismatch: 50,
+    ip_host: 40,
+    punycode: 20,
+    shortener: 10
+  } as Record<LinkFindingCategory, number>,
+  adultImage: 40,
+  // Each kind of hidden text counts once; newsletters hide their preview text
+  hiddenText: {
+    display_none: 5,
+    zero_font: 10,
+    same_color: 15,
+    transparent: 10,
+    offscreen: 10,
+    zero_size: 5
+  } as Record<HiddenTextCategory, number>,
+  // Disguising a blocked term is a sign of intent on top of the term itself
+  obfuscation: 15
+};
+
+// How sure the model must be to settle a warning, in active and aggressive mode
+const TIE_BREAK_CONFIDENCE = 0.7;
+// How sure it must be to quarantine a message on its own, in aggressive mode
+const QUARANTINE_CONFIDENCE = 0.9;
+
+/**
+ * The thresholds for a child's filter level and age group
+ * @param filterLevel 'low', 'medium', 'high' or 'custom'; medium if unknown
+ * @param ageGroup 'young_child', 'pre_teen', 'teen' or 'all'
+ */
+export function scoreThresholds(filterLevel?: string | null, ageGroup?: string | null): ScoreThresholds {
+  const base = levelThresholds[filterLevel || 'medium'] || levelThresholds.medium;
+  const factor = ageGroupFactors[ageGroup || 'all'] ?? 1;
+  return {
+    warning: Math.round(base.warning * factor),
+    unsafe: Math.round(base.unsafe * factor)
+  };
+}
+
+/**
+ * How much a category's rules count for a child: 0 when the category is
+ * turned off, otherwise scaled by its sensitivity
+ */
+export function categoryFactor(setting?: { enabled: boolean; sensitivity: string }): number {
+  const { enabled, sensitivity } = setting || defaultCategorySetting;
+  return enabled ? categorySensitivityFactors[sensitivity] ?? 1 : 0;
+}
+
+/**
+ * The category that contributed the most points, if any
+ */
+export function leadingCategory(breakdown: ScoreItem[]): ContentCategory | undefined {
+  const totals = new Map<ContentCategory, number>();
+  breakdown.forEach(item => {
+    if (item.category) {
+      totals.set(item.category, (totals.get(item.category) || 0) + item.score);
+    }
+  });
+
+  let leading: ContentCategory | undefined;
+  totals.forEach((total, category) => {
+    if (leading === undefined || total > totals.get(leading)!) {
+      leading = category;
+    }
+  });
+  return leading;
+}
+
+/**
+ * Turn a score into a verdict
+ */
+export function verdictFor(score: number, thresholds: ScoreThresholds): FilterVerdict {
+  if (score >= thresholds.unsafe) {
+    return 'unsafe';
+  }
+  if (score >= thresholds.warning) {
+    return 'warning';
+  }
+  return 'safe';
+}
+
+/**
+ * The verdict once the adaptive classifier has had the say its learning
+ * mode gives it. Passive: none, predictions are only recorded. Active: it
+ * settles warnings either way when it is confident. Aggressive: as active,
+ * and it can make a message unsafe on its own.
+ * @param probability The model's chance that the message is unsafe
+ */
+export function applyLearningMode(ruleVerdict: FilterVerdict, probability: number, mode: LearningMode): FilterVerdict {
+  if (mode === 'passive') {
+    return ruleVerdict;
+  }
+  if (mode === 'aggressive' && probability >= QUARANTINE_CONFIDENCE) {
+    return 'unsafe';
+  }
+  if (ruleVerdict === 'warning') {
+    if (probability >= TIE_BREAK_CONFIDENCE) {
+      return 'unsafe';
+    }
+    if (probability <= 1 - TIE_BREAK_CONFIDENCE) {
+      return 'safe';
+    }
+  }
+  return ruleVerdict;
+}
+
+/**
+ * A short description of a prediction for logs, e.g. "model predicted unsafe (92% sure)"
+ */
+export function describePrediction(prediction: LearnedPrediction): string {
+  const certainty = prediction.predicted === 'unsafe' ? prediction.probability : 1 - prediction.probability;
+  return `model predicted ${prediction.predicted} (${Math.round(certainty * 100)}% sure)`;
+}
+
+/**
+ * A one-line summary of a breakdown for logs, highest scores first
+ */
+export function describeBreakdown(breakdown: ScoreItem[]): string {
+  return [...breakdown]
+    .sort((a, b) => b.score - a.score)
+    .map(item => `${item.detail} (${item.score >= 0 ? '+' : ''}${item.score})`)
+    .join('; ');
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { headerAnalyzer } from './header-analyzer';
+
+const from = 'Bank <alerts@bank.example>';
+const passingSpf = 'pass (sender SPF authorized) envelope-from="alerts@bank.example"';
+
+test('ignores a Received-SPF the sender put below the trace headers', () => {
+  const headers = {
+    'received': 'from mail.bank.example by mx.provider.example',
+    'received-spf': passingSpf,
+    'from': from
+  };
+  const believed = headerAnalyzer.withProviderResults(headers, ['provider.example']);
+
+  assert.equal(believed['received-spf'], undefined);
+  assert.equal(headerAnalyzer.verifySender(from, believed), 'unknown');
+});
+
+test('believes a Received-SPF written above every Received header', () => {
+  const headers = {
+    'received-spf': passingSpf,
+    'received': 'from mail.bank.example by mx.provider.example',
+    'from': from
+  };
+  const believed = headerAnalyzer.withProviderResults(headers, []);
+
+  assert.equal(headerAnalyzer.summarize(believed).mailFromDomain, 'bank.example');
+  assert.equal(headerAnalyzer.verifySender(from, believed), 'pass');
+});
+
+test('believes the topmost Received-SPF from a provider that always writes one', () => {
+  const headers = {
+    'received': 'by 2002:a05:6a10::1 with SMTP id internal',
+    'received-spf': passingSpf,
+    'from': from
+  };
+
+  assert.equal(headerAnalyzer.withProviderResults(headers, [], true)['received-spf'], passingSpf);
+});
+
+test('keeps Authentication-Results only from the provider\'s authserv-id', () => {
+  const results = 'mx.provider.example; spf=fail smtp.mailfrom=bank.example; dmarc=fail header.from=bank.example';
+  const headers = { 'authentication-results': results, 'received': 'by mx.provider.example' };
+
+  assert.equal(headerAnalyzer.withProviderResults(headers, ['provider.example'])['authentication-results'], results);
+  assert.equal(headerAnalyzer.withProviderResults(headers, ['other.example'])['authentication-results'], undefined);
+  assert.equal(headerAnalyzer.verifySender(from, headerAnalyzer.withProviderResults(headers, ['provider.example'])), 'fail');
+});
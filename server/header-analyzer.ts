@@ -0,0 +1,252 @@
+import { TrustedSender } from '@shared/schema';
+import { extractEmailAddress, extractDisplayName, emailDomain, baseDomain } from './email-address';
+import { DkimResult } from './dkim-verifier';
+
+export type AuthenticationSummary = {
+  spf: string | null; // 'pass', 'fail', 'softfail', 'neutral', 'none', ...
+  dkim: string | null;
+  dmarc: string | null;
+  mailFromDomain: string | null; // Envelope sender domain that SPF checked
+  dkimDomain: string | null; // Signing domain of the best DKIM result
+};
+
+// Whether the domain in From was shown to be genuine
+export type SenderVerdict = 'pass' | 'fail' | 'unknown';
+
+export type HeaderFindingCategory = 'forged_sender' | 'display_name_spoof' | 'reply_to_mismatch';
+
+export type HeaderFinding = {
+  category: HeaderFindingCategory;
+  detail: string;
+};
+
+export type HeaderAnalysis = {
+  fromAddress: string;
+  authentication: AuthenticationSummary;
+  sender: SenderVerdict;
+  findings: HeaderFinding[];
+};
+
+/**
+ * Header Analyzer
+ *
+ * Reads the SPF, DKIM and DMARC results that the receiving mail server
+ * recorded in Authentication-Results and Received-SPF, together with our own
+ * DKIM verification, and looks for the usual impersonation tricks: a forged From, a trusted sender's name on
+ * someone else's address, and replies redirected to another domain.
+ */
+class HeaderAnalyzer {
+  /**
+   * Check a message's sender headers
+   * @param from The From header value
+   * @param headers The message headers, keyed by lowercased name
+   * @param trustedSenders Trusted senders that apply to the child account
+   * @param dkimResults Signatures we verified ourselves
+   */
+  analyze(from: string, headers: Record<string, string>, trustedSenders: TrustedSender[] = [], dkimResults: DkimResult[] = []): HeaderAnalysis {
+    const fromAddress = extractEmailAddress(from);
+    const authentication = this.summarize(headers, dkimResults);
+    const sender = this.verdict(fromAddress, authentication);
+    const findings: HeaderFinding[] = [];
+    const isTrusted = (address: string) => trustedSenders.some(trusted => trusted.email_address.toLowerCase() === address);
+
+    if (sender === 'fail' && isTrusted(fromAddress)) {
+      findings.push({
+        category: 'forged_sender',
+        detail: `claims to be trusted sender ${fromAddress} but fails ${this.failedCheck(authentication)}`
+      });
+    }
+
+    const displayName = extractDisplayName(from);
+    if (displayName && !isTrusted(fromAddress)) {
+      const shownAddress = displayName.includes('@') ? extractEmailAddress(displayName) : null;
+      const impersonated = trustedSenders.find(trusted =>
+        (shownAddress && trusted.email_address.toLowerCase() === shownAddress) ||
+        (trusted.description && this.sameName(trusted.description, displayName))
+      );
+
+      if (impersonated) {
+        findings.push({
+          category: 'display_name_spoof',
+          detail: `uses the name of trusted sender ${impersonated.email_address} on the address ${fromAddress}`
+        });
+      } else if (shownAddress && shownAddress !== fromAddress && baseDomain(emailDomain(shownAddress)) !== baseDomain(emailDomain(fromAddress))) {
+        findings.push({
+          category: 'display_name_spoof',
+          detail: `display name shows ${shownAddress} but the email comes from ${fromAddress}`
+        });
+      }
+    }
+
+    const replyTo = headers['reply-to'] ? extractEmailAddress(headers['reply-to']) : null;
+    if (replyTo && replyTo.includes('@') && !isTrusted(fromAddress) && baseDomain(emailDomain(replyTo)) !== baseDomain(emailDomain(fromAddress))) {
+      findings.push({
+        category: 'reply_to_mismatch',
+        detail: `replies go to ${replyTo} instead of ${fromAddress}`
+      });
+    }
+
+    return { fromAddress, authentication, sender, findings };
+  }
+
+  /**
+   * Decide whether the From domain passed authentication
+   * @param from The From header value
+   * @param headers The message headers, keyed by lowercased name
+   * @param dkimResults Signatures we verified ourselves
+   */
+  verifySender(from: string, headers: Record<string, string>, dkimResults: DkimResult[] = []): SenderVerdict {
+    return this.verdict(extractEmailAddress(from), this.summarize(headers, dkimResults));
+  }
+
+  /**
+   * Drop the Authentication-Results and Received-SPF headers that the account's
+   * provider did not write. Only the topmost of each is kept, and where the
+   * provider records none that is whatever the sender put there.
+   * @param headers The message headers, keyed by lowercased name in the order they first appear
+   * @param authservIds The provider's authserv-ids; their subdomains match too
+   * @param writesReceivedSpf Whether the provider adds Received-SPF to every message
+   */
+  withProviderResults(headers: Record<string, string>, authservIds: string[] | null, writesReceivedSpf = false): Record<string, string> {
+    let believed = headers;
+
+    const authResults = headers['authentication-results'];
+    if (authResults) {
+      // The authserv-id comes before the first ';' and may be followed by a version
+      const authservId = authResults.replace(/\([^()]*\)/g, ' ').split(';')[0].trim().split(/\s+/)[0].toLowerCase();
+      const known = !authservId.includes('=') && (authservIds || []).some(id =>
+        authservId === id.toLowerCase() || authservId.endsWith(`.${id.toLowerCase()}`)
+      );
+      if (!known) {
+        const { 'authentication-results': _foreign, ...rest } = believed;
+        believed = rest;
+      }
+    }
+
+    // Received-SPF carries no server name to check. It was written by the last
+    // server to handle the message when it sits above every Received header
+    if (headers['received-spf'] && !writesReceivedSpf) {
+      const names = Object.keys(headers);
+      const received = names.indexOf('received');
+      if (received === -1 || names.indexOf('received-spf') > received) {
+        const { 'received-spf': _foreign, ...rest } = believed;
+        believed = rest;
+      }
+    }
+
+    return believed;
+  }
+
+  /**
+   * Combine Authentication-Results, Received-SPF and local DKIM results. Only
+   * the topmost Authentication-Results and Received-SPF are used, and only
+   * after withProviderResults has confirmed the provider's server wrote them.
+   */
+  summarize(headers: Record<string, string>, dkimResults: DkimResult[] = []): AuthenticationSummary {
+    const summary: AuthenticationSummary = { spf: null, dkim: null, dmarc: null, mailFromDomain: null, dkimDomain: null };
+
+    const authResults = headers['authentication-results'];
+    if (authResults) {
+      // Drop comments, then skip the authserv-id before the first ';'
+      const clauses = authResults.replace(/\([^()]*\)/g, ' ').split(';').slice(1);
+
+      for (const clause of clauses) {
+        const result = clause.trim().match(/^(spf|dkim|dmarc)\s*=\s*([a-z]+)/i);
+        if (!result) {
+          continue;
+        }
+
+        const method = result[1].toLowerCase() as 'spf' | 'dkim' | 'dmarc';
+        const value = result[2].toLowerCase();
+        const properties = this.parseProperties(clause);
+
+        if (method === 'dkim') {
+          // Several signatures may be reported; a passing one wins
+          if (summary.dkim !== 'pass') {
+            summary.dkim = value;
+            const signer = properties['header.d'] || properties['header.i'];
+            summary.dkimDomain = signer ? signer.replace(/^.*@/, '').toLowerCase() : null;
+          }
+        } else if (method === 'spf') {
+          summary.spf = value;
+          const mailFrom = properties['smtp.mailfrom'] || properties['smtp.helo'];
+          summary.mailFromDomain = mailFrom ? mailFrom.replace(/^.*@/, '').toLowerCase() : null;
+        } else {
+          summary.dmarc = value;
+        }
+      }
+    }
+
+    const receivedSpf = headers['received-spf'];
+    if (receivedSpf && !summary.spf) {
+      const result = receivedSpf.trim().match(/^([a-z]+)/i);
+      summary.spf = result ? result[1].toLowerCase() : null;
+      const envelopeFrom = this.parseProperties(receivedSpf)['envelope-from'];
+      summary.mailFromDomain = envelopeFrom ? envelopeFrom.replace(/^.*@/, '').replace(/[<>]/g, '').toLowerCase() : null;
+    }
+
+    // A signature we verified stands in when the server recorded no passing one
+    const local = dkimResults.find(result => result.status === 'pass') || dkimResults[0];
+    if (local && summary.dkim !== 'pass' && (local.status === 'pass' || !summary.dkim)) {
+      summary.dkim = local.status;
+      summary.dkimDomain = local.domain;
+    }
+
+    return summary;
+  }
+
+  private verdict(fromAddress: string, authentication: AuthenticationSummary): SenderVerdict {
+    const fromDomain = baseDomain(emailDomain(fromAddress));
+    const aligned = (domain: string | null) => !!domain && baseDomain(domain) === fromDomain;
+
+    if (authentication.dmarc === 'pass') {
+      return 'pass';
+    }
+    if (authentication.dmarc === 'fail') {
+      return 'fail';
+    }
+
+    // No DMARC result: fall back to aligned DKIM or SPF
+    if (authentication.dkim === 'pass' && aligned(authentication.dkimDomain)) {
+      return 'pass';
+    }
+    if (authentication.spf === 'pass' && aligned(authentication.mailFromDomain)) {
+      return 'pass';
+    }
+    // The From domain signed the message but the signature is broken, and nothing else vouches for it
+    if (authentication.dkim === 'fail' && aligned(authentication.dkimDomain) && authentication.spf !== 'pass') {
+      return 'fail';
+    }
+    if ((authentication.spf === 'fail' || authentication.spf === 'softfail') &&
+        authentication.dkim !== 'pass' &&
+        (!authentication.mailFromDomain || aligned(authentication.mailFromDomain))) {
+      return 'fail';
+    }
+
+    return 'unknown';
+  }
+
+  private failedCheck(authentication: AuthenticationSummary): string {
+    if (authentication.dmarc === 'fail') {
+      return 'DMARC';
+    }
+    return authentication.dkim === 'fail' && authentication.spf !== 'fail' && authentication.spf !== 'softfail' ? 'DKIM' : 'SPF';
+  }
+
+  private parseProperties(clause: string): Record<string, string> {
+    const properties: Record<string, string> = {};
+    const pattern = /([a-z][a-z0-9.-]*)\s*=\s*(?:"([^"]*)"|([^\s;]+))/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(clause)) !== null) {
+      properties[match[1].toLowerCase()] = match[2] ?? match[3];
+    }
+    return properties;
+  }
+
+  private sameName(a: string, b: string): boolean {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return normalize(a) !== '' && normalize(a) === normalize(b);
+  }
+}
+
+export const headerAnalyzer = new HeaderAnalyzer();
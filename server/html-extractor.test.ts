@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { htmlExtractor } from './html-extractor';
+
+test('separates visible, attribute and hidden text', () => {
+  const result = htmlExtractor.extract(
+    '<p class="a"b=\'c\'>Hello <b>there</b></p>' +
+    '<div style="display:none">buy now</div>' +
+    '<img alt="a cat" src=cat.png/>'
+  );
+
+  assert.equal(result.visibleText, 'Hello there');
+  assert.deepEqual(result.altTexts, ['a cat']);
+  assert.deepEqual(result.hidden, [{ category: 'display_none', text: 'buy now' }]);
+});
+
+test('reads text coloured like its background as hidden', () => {
+  const result = htmlExtractor.extract('<div style="background:#fff"><span style="color:#fafafa">secret</span> shown</div>');
+
+  assert.equal(result.visibleText, 'shown');
+  assert.deepEqual(result.hidden, [{ category: 'same_color', text: 'secret' }]);
+});
+
+test('gives up on a malformed tag with a long attribute name quickly', () => {
+  // Before the tag pattern was fixed, 26 letters took seconds and each one more doubled it
+  const attribute = 'a'.repeat(50000);
+
+  for (const html of [`<div ${'a'.repeat(26)} "x"></div>`, `<div ${attribute} "x"></div>`, `<${attribute} "x"></div>`, `<div ${'a '.repeat(25000)}"x"></div>`]) {
+    const started = Date.now();
+    htmlExtractor.extract(html);
+    assert.ok(Date.now() - started < 500, `took ${Date.now() - started}ms`);
+  }
+});
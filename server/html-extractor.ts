@@ -0,0 +1,371 @@
+export type HiddenTextCategory = 'display_none' | 'zero_font' | 'same_color' | 'transparent' | 'offscreen' | 'zero_size';
+
+export type HiddenText = {
+  category: HiddenTextCategory;
+  text: string;
+};
+
+export type HtmlExtraction = {
+  visibleText: string; // What the reader sees, including link text
+  attributeText: string; // Image alt and title attributes, and the document title
+  altTexts: string[];
+  hiddenText: string; // Text the sender styled so the reader cannot see it
+  hidden: HiddenText[];
+};
+
+export const hiddenTextLabels: Record<HiddenTextCategory, string> = {
+  display_none: 'not displayed',
+  zero_font: 'zero font size',
+  same_color: 'same colour as the background',
+  transparent: 'transparent',
+  offscreen: 'positioned off screen',
+  zero_size: 'clipped to zero size'
+};
+
+type Rgb = [number, number, number];
+
+type StyleState = {
+  hidden: HiddenTextCategory | null;
+  color: Rgb | null;
+  background: Rgb | null;
+};
+
+type OpenElement = {
+  tag: string;
+  state: StyleState;
+};
+
+// Elements whose content is never shown
+const SKIPPED_ELEMENTS = ['script', 'style', 'template', 'noscript', 'object', 'svg'];
+const VOID_ELEMENTS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+const BLOCK_ELEMENTS = ['address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'td', 'th', 'tr', 'ul'];
+
+const NAMED_COLORS: Record<string, Rgb> = {
+  white: [255, 255, 255], black: [0, 0, 0], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+  yellow: [255, 255, 0], gray: [128, 128, 128], grey: [128, 128, 128], silver: [192, 192, 192],
+  whitesmoke: [245, 245, 245], snow: [255, 250, 250], ivory: [255, 255, 240], lightgray: [211, 211, 211],
+  lightgrey: [211, 211, 211], navy: [0, 0, 128], maroon: [128, 0, 0], orange: [255, 165, 0], purple: [128, 0, 128]
+};
+
+// Colours this close on every channel cannot be told apart on screen
+const COLOR_TOLERANCE = 16;
+
+// Mail clients show a white page unless told otherwise
+const DEFAULT_BACKGROUND: Rgb = [255, 255, 255];
+
+// The tag name and each attribute name must run up to whitespace, '=', '/' or
+// '>', so a long name cannot be split up and backtracked over in every possible way
+const TAG_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)(?=[\s/>])((?:\s*[^\s=>/"']+(?=[\s=>/])(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?|\s*\/)*)\s*>/g;
+const ATTRIBUTE_PATTERN = /([^\s=>/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Decode the HTML entities that matter for text: numeric ones and the common
+ * named ones
+ */
+export function decodeEntities(value: string): string {
+  const fromCodePoint = (codePoint: number) => codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+  return value
+    .replace(/&#x([0-9a-f]{1,6});/gi, (_, hex) => fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d{1,7});/g, (_, decimal) => fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * HTML Extractor
+ *
+ * Turns an HTML part into the text a reader would see, plus the alt and
+ * title attributes, and separates out text that is styled to be invisible:
+ * display:none, a zero font size, text coloured like its background,
+ * transparent text and text pushed off screen. Styles come from inline style
+ * attributes, legacy attributes and simple rules in <style> blocks.
+ */
+class HtmlExtractor {
+  /**
+   * Extract the text of an HTML document
+   * @param html The HTML part of a message
+   */
+  extract(html: string): HtmlExtraction {
+    const visible: string[] = [];
+    const attributes: string[] = [];
+    const altTexts: string[] = [];
+    const hidden: HiddenText[] = [];
+    const stylesheet = this.parseStylesheets(html);
+
+    const root: StyleState = { hidden: null, color: null, background: DEFAULT_BACKGROUND };
+    const stack: OpenElement[] = [];
+    const current = () => stack.length > 0 ? stack[stack.length - 1].state : root;
+    let skipUntil: string | null = null;
+    let lastIndex = 0;
+
+    const addText = (raw: string) => {
+      const text = decodeEntities(raw).replace(/\s+/g, ' ');
+      if (!text.trim() || skipUntil) {
+        return;
+      }
+
+      const state = current();
+      const category = state.hidden ?? (this.sameColor(state.color, state.background) ? 'same_color' : null);
+      if (category) {
+        const last = hidden[hidden.length - 1];
+        if (last && last.category === category) {
+          last.text = `${last.text} ${text}`;
+        } else {
+          hidden.push({ category, text });
+        }
+      } else {
+        visible.push(text);
+      }
+    };
+
+    let match: RegExpExecArray | null;
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(html)) !== null) {
+      addText(html.slice(lastIndex, match.index));
+      lastIndex = TAG_PATTERN.lastIndex;
+
+      const tag = match[2]?.toLowerCase();
+      if (!tag) {
+        continue; // Comment, doctype or processing instruction
+      }
+      const closing = match[1] === '/';
+
+      if (skipUntil) {
+        if (closing && tag === skipUntil) {
+          skipUntil = null;
+        }
+        continue;
+      }
+
+      if (closing) {
+        const index = stack.map(element => element.tag).lastIndexOf(tag);
+        if (index >= 0) {
+          stack.length = index;
+        }
+        if (BLOCK_ELEMENTS.includes(tag)) {
+          visible.push('\n');
+        }
+        continue;
+      }
+
+      const attrs = this.parseAttributes(match[3] || '');
+      if (tag === 'title') {
+        const end = html.toLowerCase().indexOf('</title', lastIndex);
+        attributes.push(decodeEntities(html.slice(lastIndex, end < 0 ? undefined : end)).trim());
+      }
+      if (SKIPPED_ELEMENTS.includes(tag) || tag === 'title') {
+        if (!match[0].endsWith('/>')) {
+          skipUntil = tag;
+        }
+        continue;
+      }
+
+      const state = this.applyStyles(current(), tag, attrs, stylesheet);
+      if (BLOCK_ELEMENTS.includes(tag)) {
+        visible.push('\n');
+      }
+
+      if (attrs.alt) {
+        altTexts.push(decodeEntities(attrs.alt).trim());
+      }
+      [attrs.alt, attrs.title].forEach(value => {
+        if (value && value.trim()) {
+          attributes.push(decodeEntities(value).trim());
+        }
+      });
+
+      if (!VOID_ELEMENTS.includes(tag) && !match[0].endsWith('/>')) {
+        stack.push({ tag, state });
+      }
+    }
+    addText(html.slice(lastIndex));
+
+    return {
+      visibleText: visible.join('').replace(/[ \t]*\n[\s]*/g, '\n').trim(),
+      attributeText: attributes.filter(Boolean).join('\n'),
+      altTexts: altTexts.filter(Boolean),
+      hiddenText: hidden.map(item => item.text.replace(/\s+/g, ' ').trim()).join('\n'),
+      hidden: hidden.map(item => ({ category: item.category, text: item.text.replace(/\s+/g, ' ').trim() }))
+    };
+  }
+
+  /**
+   * Work out the style an element's text gets from its parent, its
+   * attributes, matching stylesheet rules and its inline style
+   */
+  private applyStyles(parent: StyleState, tag: string, attrs: Record<string, string>, stylesheet: Array<{ selector: string; declarations: Record<string, string> }>): StyleState {
+    const state: StyleState = { ...parent };
+    const declarations: Record<string, string> = {};
+
+    // Legacy attributes first, so CSS overrides them as in a browser
+    if (attrs.bgcolor) {
+      declarations['background-color'] = attrs.bgcolor;
+    }
+    if (tag === 'font' && attrs.color) {
+      declarations.color = attrs.color;
+    }
+    if ('hidden' in attrs) {
+      declarations.display = 'none';
+    }
+
+    const classes = (attrs.class || '').split(/\s+/).filter(Boolean);
+    stylesheet.forEach(rule => {
+      if (this.selectorMatches(rule.selector, tag, classes, attrs.id)) {
+        Object.assign(declarations, rule.declarations);
+      }
+    });
+    Object.assign(declarations, this.parseDeclarations(attrs.style || ''));
+
+    if (parent.hidden) {
+      return state;
+    }
+
+    const display = declarations.display;
+    const visibility = declarations.visibility;
+    if (display === 'none' || visibility === 'hidden' || visibility === 'collapse' || (tag === 'input' && attrs.type === 'hidden')) {
+      state.hidden = 'display_none';
+      return state;
+    }
+
+    // Zero, or too small to read
+    const fontSize = declarations['font-size'];
+    if (fontSize && (parseFloat(fontSize) === 0 || /^(0?\.\d+|1)px$/.test(fontSize))) {
+      state.hidden = 'zero_font';
+      return state;
+    }
+
+    if ((declarations.opacity !== undefined && parseFloat(declarations.opacity) === 0) || declarations.color === 'transparent') {
+      state.hidden = 'transparent';
+      return state;
+    }
+
+    const position = declarations.position;
+    const offset = ['left', 'top', 'right', 'text-indent', 'margin-left', 'margin-top']
+      .map(property => parseFloat(declarations[property] || '0'))
+      .some(value => value <= -500);
+    if (offset && (position === 'absolute' || position === 'fixed' || position === 'relative' || declarations['text-indent'])) {
+      state.hidden = 'offscreen';
+      return state;
+    }
+
+    const zero = (value?: string) => value !== undefined && parseFloat(value) === 0;
+    if ((zero(declarations['max-height']) || zero(declarations.height) || zero(declarations.width) || zero(declarations['max-width'])) &&
+        declarations.overflow === 'hidden') {
+      state.hidden = 'zero_size';
+      return state;
+    }
+
+    const color = declarations.color ? this.parseColor(declarations.color) : null;
+    if (color) {
+      state.color = color;
+    }
+    const backgroundValue = declarations['background-color'] || declarations.background;
+    const background = backgroundValue ? this.parseColor(backgroundValue) : null;
+    if (background) {
+      state.background = background;
+    }
+
+    return state;
+  }
+
+  private sameColor(color: Rgb | null, background: Rgb | null): boolean {
+    if (!color || !background) {
+      return false;
+    }
+    return color.every((channel, index) => Math.abs(channel - background[index]) <= COLOR_TOLERANCE);
+  }
+
+  private parseColor(value: string): Rgb | null {
+    const color = value.trim().toLowerCase();
+
+    const hex = color.match(/#([0-9a-f]{3}|[0-9a-f]{6})\b/);
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+      return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)) as Rgb;
+    }
+
+    const rgb = color.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)/);
+    if (rgb) {
+      // Fully transparent backgrounds do not count
+      if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) {
+        return null;
+      }
+      return [parseInt(rgb[1]), parseInt(rgb[2]), parseInt(rgb[3])];
+    }
+
+    const name = color.match(/^[a-z]+/);
+    return name && NAMED_COLORS[name[0]] ? NAMED_COLORS[name[0]] : null;
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    let match: RegExpExecArray | null;
+    ATTRIBUTE_PATTERN.lastIndex = 0;
+    while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+      attrs[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+    return attrs;
+  }
+
+  private parseDeclarations(style: string): Record<string, string> {
+    const declarations: Record<string, string> = {};
+    decodeEntities(style).split(';').forEach(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon > 0) {
+        const property = declaration.slice(0, colon).trim().toLowerCase();
+        declarations[property] = declaration.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase();
+      }
+    });
+    return declarations;
+  }
+
+  /**
+   * Collect rules from <style> blocks. Only simple selectors are understood:
+   * a tag, .class, #id or tag.class, alone or in a comma-separated list.
+   */
+  private parseStylesheets(html: string): Array<{ selector: string; declarations: Record<string, string> }> {
+    const rules: Array<{ selector: string; declarations: Record<string, string> }> = [];
+    const blocks = html.match(/<style\b[^>]*>[\s\S]*?<\/style\s*>/gi) || [];
+
+    blocks.forEach(block => {
+      const css = block.replace(/^<style\b[^>]*>|<\/style\s*>$/gi, '').replace(/\/\*[\s\S]*?\*\//g, '');
+      const rulePattern = /([^{}@]+)\{([^{}]*)\}/g;
+      let rule: RegExpExecArray | null;
+      while ((rule = rulePattern.exec(css)) !== null) {
+        const declarations = this.parseDeclarations(rule[2]);
+        rule[1].split(',').map(selector => selector.trim().toLowerCase()).forEach(selector => {
+          if (/^[a-z0-9]*(?:[.#][\w-]+)?$/.test(selector) && selector) {
+            rules.push({ selector, declarations });
+          }
+        });
+      }
+    });
+
+    return rules;
+  }
+
+  private selectorMatches(selector: string, tag: string, classes: string[], id?: string): boolean {
+    const match = selector.match(/^([a-z0-9]*)(?:([.#])([\w-]+))?$/);
+    if (!match) {
+      return false;
+    }
+    const [, selectorTag, kind, name] = match;
+    if (selectorTag && selectorTag !== tag) {
+      return false;
+    }
+    if (kind === '.') {
+      return classes.map(value => value.toLowerCase()).includes(name);
+    }
+    if (kind === '#') {
+      return (id || '').toLowerCase() === name;
+    }
+    return true;
+  }
+}
+
+export const htmlExtractor = new HtmlExtractor();
@@ -0,0 +1,119 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { FilterLanguage, filterLanguages } from '@shared/schema';
+
+export type DetectedLanguage = {
+  language: FilterLanguage;
+  confidence: number; // From 0 to 1: how clearly the language beat the runner-up
+};
+
+// Sample text per language, relative to the working directory
+const SAMPLES_DIR = 'server/data/language-samples';
+// Most frequent trigrams kept per profile
+const PROFILE_SIZE = 300;
+// Shorter texts are not worth guessing at
+const MIN_LETTERS = 30;
+// Only the start of long messages is read
+const MAX_CHARS = 5000;
+
+// Built at runtime: Unicode property escapes are beyond the compile target
+const WORD = new RegExp('\\p{L}+', 'gu');
+
+/**
+ * Language Detector
+ *
+ * Identifies the language of a message by comparing its most frequent
+ * character trigrams with those of sample text in each supported language,
+ * by how far each trigram's rank is from its rank in the sample (Cavnar and
+ * Trenkle's out-of-place measure).
+ */
+class LanguageDetector {
+  private profiles: Map<FilterLanguage, Map<string, number>> | null = null;
+
+  /**
+   * The language a text is most likely written in
+   * @returns null when the text is too short or no profiles could be loaded
+   */
+  detect(text: string): DetectedLanguage | null {
+    const words = text.slice(0, MAX_CHARS).toLowerCase().match(WORD) || [];
+    if (words.join('').length < MIN_LETTERS) {
+      return null;
+    }
+
+    const ranks = this.rank(words);
+    const distances: Array<{ language: FilterLanguage; distance: number }> = [];
+    this.loadProfiles().forEach((profile, language) => {
+      let distance = 0;
+      ranks.forEach((rank, trigram) => {
+        const expected = profile.get(trigram);
+        distance += expected === undefined ? PROFILE_SIZE : Math.abs(expected - rank);
+      });
+      distances.push({ language, distance });
+    });
+
+    if (distances.length === 0) {
+      return null;
+    }
+
+    distances.sort((a, b) => a.distance - b.distance);
+    const [best, runnerUp] = distances;
+    return {
+      language: best.language,
+      confidence: runnerUp && runnerUp.distance > 0 ? (runnerUp.distance - best.distance) / runnerUp.distance : 1
+    };
+  }
+
+  /**
+   * The rank of each of the most frequent trigrams, 0 for the most frequent.
+   * Words are padded with a space so trigrams at word edges count too.
+   */
+  private rank(words: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    words.forEach(word => {
+      const chars = Array.from(` ${word} `);
+      for (let i = 0; i + 3 <= chars.length; i++) {
+        const trigram = chars.slice(i, i + 3).join('');
+        counts.set(trigram, (counts.get(trigram) || 0) + 1);
+      }
+    });
+
+    const ranks = new Map<string, number>();
+    Array.from(counts.keys())
+      // Ties go alphabetically, so the same text always ranks the same way
+      .sort((a, b) => counts.get(b)! - counts.get(a)! || (a < b ? -1 : 1))
+      .slice(0, PROFILE_SIZE)
+      .forEach((trigram, index) => ranks.set(trigram, index));
+    return ranks;
+  }
+
+  /**
+   * Build the profiles from the sample files once: one file per language
+   * named by its code, # starts a comment
+   */
+  private loadProfiles(): Map<FilterLanguage, Map<string, number>> {
+    if (this.profiles) {
+      return this.profiles;
+    }
+
+    const profiles = new Map<FilterLanguage, Map<string, number>>();
+    filterLanguages.forEach(language => {
+      const path = resolve(process.cwd(), SAMPLES_DIR, `${language}.txt`);
+      if (!existsSync(path)) {
+        console.error(`Language sample not found: ${path}`);
+        return;
+      }
+
+      try {
+        const text = readFileSync(path, 'utf8').split(/\r?\n/).map(line => line.replace(/#.*$/, '')).join('\n');
+        profiles.set(language, this.rank(text.toLowerCase().match(WORD) || []));
+      } catch (error) {
+        console.error(`Error reading language sample ${path}:`, error);
+      }
+    });
+
+    this.profiles = profiles;
+    return profiles;
+  }
+}
+
+export const languageDetector = new LanguageDetector();
@@ -0,0 +1,236 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { domainToUnicode } from 'url';
+import { baseDomain } from './email-address';
+import { confusables } from './text-normalizer';
+import { decodeEntities } from './html-extractor';
+
+export type LinkFindingCategory = 'text_mismatch' | 'blocklisted' | 'ip_host' | 'homoglyph' | 'punycode' | 'shortener';
+
+export type ExtractedLink = {
+  url: string;
+  text: string | null; // Visible text of an HTML link
+};
+
+export type LinkFinding = {
+  url: string;
+  category: LinkFindingCategory;
+  detail: string;
+};
+
+// Scripts told apart when looking for domain labels that mix them. Built with
+// the RegExp constructor because the compile target predates the u flag.
+const SCRIPTS: Array<[string, RegExp]> = [
+  'Latin', 'Cyrillic', 'Greek', 'Armenian', 'Hebrew', 'Arabic', 'Devanagari',
+  'Thai', 'Han', 'Hiragana', 'Katakana', 'Hangul'
+].map((name): [string, RegExp] => [name, new RegExp(`\\p{Script=${name}}`, 'u')]);
+
+// Digits, hyphens and combining marks belong to no script of their own
+const SCRIPTLESS = new RegExp('[\\p{Script=Common}\\p{Script=Inherited}]', 'u');
+
+// Default blocklist, relative to the working directory; LINK_BLOCKLIST_FILES adds more
+const DEFAULT_BLOCKLIST_FILE = 'server/data/link-blocklist.txt';
+
+/**
+ * Link Analyzer
+ *
+ * Pulls links out of the text and HTML parts of a message and reports the
+ * ones that are typical of phishing: visible text naming a different site,
+ * blocklisted domains, bare IP addresses, lookalike international domains and
+ * URL shorteners that hide the destination.
+ */
+class LinkAnalyzer {
+  private shorteners: string[] = [
+    "bit.ly", "tinyurl.com", "t.co", "goo.gl", "ow.ly", "is.gd", "buff.ly",
+    "rebrand.ly", "cutt.ly", "shorturl.at", "tiny.cc", "rb.gy", "bl.ink",
+    "s.id", "t.ly", "v.gd", "shorte.st", "adf.ly", "bit.do", "qrco.de"
+  ];
+
+  private blocklist: Set<string> | null = null;
+
+  /**
+   * Check every link in a message
+   * @param textContent The plain text part
+   * @param htmlContent The HTML part
+   * @returns One finding per suspicious URL, most serious first
+   */
+  analyze(textContent: string, htmlContent: string): LinkFinding[] {
+    const findings: LinkFinding[] = [];
+    const seen = new Set<string>();
+
+    for (const link of this.extractLinks(textContent, htmlContent)) {
+      if (seen.has(link.url)) {
+        continue;
+      }
+      seen.add(link.url);
+
+      const finding = this.checkLink(link);
+      if (finding) {
+        findings.push(finding);
+      }
+    }
+
+    const order: LinkFindingCategory[] = ['blocklisted', 'text_mismatch', 'homoglyph', 'ip_host', 'punycode', 'shortener'];
+    return findings.sort((a, b) => order.indexOf(a.category) - order.indexOf(b.category));
+  }
+
+  /**
+   * Find the web links in a message
+   * @param textContent The plain text part
+   * @param htmlContent The HTML part
+   */
+  extractLinks(textContent: string, htmlContent: string): ExtractedLink[] {
+    const links: ExtractedLink[] = [];
+
+    const anchorPattern = /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a\s*>/gi;
+    let anchor: RegExpExecArray | null;
+    while ((anchor = anchorPattern.exec(htmlContent || '')) !== null) {
+      const href = decodeEntities((anchor[1] ?? anchor[2] ?? anchor[3] ?? '').trim());
+      if (/^(?:https?:)?\/\//i.test(href)) {
+        const text = decodeEntities(anchor[4].replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+        links.push({ url: href.startsWith('//') ? `http:${href}` : href, text: text || null });
+      }
+    }
+
+    // Bare URLs in the text part, and in the HTML outside of tags
+    const bareText = `${textContent || ''}\n${(htmlContent || '').replace(/<[^>]*>/g, ' ')}`;
+    const bareMatches = decodeEntities(bareText).match(/\b(?:https?:\/\/|www\.)[^\s<>"'()[\]{}]+/gi) || [];
+    for (const match of bareMatches) {
+      const url = match.replace(/[.,;:!?]+$/, '');
+      links.push({ url: url.toLowerCase().startsWith('www.') ? `http://${url}` : url, text: null });
+    }
+
+    return links;
+  }
+
+  private checkLink(link: ExtractedLink): LinkFinding | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(link.url);
+    } catch (error) {
+      return null;
+    }
+
+    // URL parsing has already converted Unicode hosts to punycode and numeric hosts to dotted form
+    const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+    const url = link.url;
+
+    const blocked = this.findBlocklistEntry(host);
+    if (blocked) {
+      return { url, category: 'blocklisted', detail: `${blocked} is on the blocklist` };
+    }
+
+    if (link.text) {
+      const shownHost = this.hostShownInText(link.text);
+      if (shownHost && baseDomain(shownHost) !== baseDomain(host)) {
+        return { url, category: 'text_mismatch', detail: `link text shows ${shownHost} but goes to ${host}` };
+      }
+    }
+
+    if (host.split('.').some(label => label.startsWith('xn--'))) {
+      const unicodeHost = domainToUnicode(host);
+      const skeleton = Array.from(unicodeHost).map(char => confusables[char] ?? char).join('');
+      if (/^[a-z0-9.-]+$/.test(skeleton)) {
+        return { url, category: 'homoglyph', detail: `${unicodeHost} imitates ${skeleton}` };
+      }
+      // Most international domains are ordinary sites written in one script
+      const mixed = unicodeHost.split('.').find(label => this.scriptsIn(label).length > 1);
+      if (mixed) {
+        return { url, category: 'punycode', detail: `${unicodeHost} mixes ${this.scriptsIn(mixed).join(' and ')} letters` };
+      }
+    }
+
+    if (/^\d{1,3}(?:\.\d{1,3}){3}$/.test(host) || host.startsWith('[')) {
+      return { url, category: 'ip_host', detail: `links to the bare address ${host}` };
+    }
+
+    if (this.shorteners.includes(host) || this.shorteners.includes(host.replace(/^www\./, ''))) {
+      return { url, category: 'shortener', detail: `${host} hides the real destination` };
+    }
+
+    return null;
+  }
+
+  /**
+   * The scripts a domain label draws its letters from. Japanese mixes Han
+   * with kana and Korean may mix Han with Hangul, so those count as one.
+   */
+  private scriptsIn(label: string): string[] {
+    const scripts = new Set<string>();
+    for (const char of Array.from(label)) {
+      if (SCRIPTLESS.test(char)) {
+        continue;
+      }
+      const script = SCRIPTS.find(([, pattern]) => pattern.test(char));
+      scripts.add(script ? script[0] : 'other');
+    }
+    if (scripts.has('Han') && (scripts.has('Hiragana') || scripts.has('Katakana') || scripts.has('Hangul'))) {
+      ['Hiragana', 'Katakana', 'Hangul'].forEach(script => scripts.delete(script));
+    }
+    if (scripts.has('Hiragana') && scripts.has('Katakana')) {
+      scripts.delete('Katakana');
+    }
+    return Array.from(scripts);
+  }
+
+  /**
+   * The host named by a link's visible text, if the text looks like a web address
+   */
+  private hostShownInText(text: string): string | null {
+    const match = text.trim().match(/^(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:[/:?#]\S*)?$/i);
+    return match ? match[1].toLowerCase() : null;
+  }
+
+  private findBlocklistEntry(host: string): string | null {
+    const blocklist = this.loadBlocklist();
+    const labels = host.split('.');
+    // Entries also cover their subdomains
+    for (let i = 0; i < labels.length - 1; i++) {
+      const candidate = labels.slice(i).join('.');
+      if (blocklist.has(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read the blocklist files once: one domain per line, # starts a comment
+   */
+  private loadBlocklist(): Set<string> {
+    if (this.blocklist) {
+      return this.blocklist;
+    }
+
+    const files = [DEFAULT_BLOCKLIST_FILE, ...(process.env.LINK_BLOCKLIST_FILES || '').split(',')]
+      .map(file => file.trim())
+      .filter(Boolean);
+    const blocklist = new Set<string>();
+
+    files.forEach(file => {
+      const path = resolve(process.cwd(), file);
+      if (!existsSync(path)) {
+        if (file !== DEFAULT_BLOCKLIST_FILE) {
+          console.error(`Link blocklist file not found: ${path}`);
+        }
+        return;
+      }
+
+      try {
+        readFileSync(path, 'utf8').split(/\r?\n/).forEach(line => {
+          const entry = line.replace(/#.*$/, '').trim().toLowerCase().replace(/^\*\./, '');
+          if (entry) {
+            blocklist.add(entry);
+          }
+        });
+      } catch (error) {
+        console.error(`Error reading link blocklist ${path}:`, error);
+      }
+    });
+
+    this.blocklist = blocklist;
+    return blocklist;
+  }
+}
+
+export const linkAnalyzer = new LinkAnalyzer();
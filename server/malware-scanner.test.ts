@@ -0,0 +1,101 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server, Socket, AddressInfo } from 'net';
+import { MalwareScanner } from './malware-scanner';
+
+// A fake clamd that reassembles each INSTREAM upload and answers according to its content
+let server: Server;
+let port: number;
+const sockets = new Set<Socket>();
+
+function reply(content: Buffer): string | null {
+  const text = content.toString('utf8');
+  if (text.includes('EICAR')) return 'stream: Eicar-Signature FOUND';
+  if (text.includes('too big')) return 'INSTREAM size limit exceeded. ERROR';
+  if (text.includes('hang')) return null;
+  return 'stream: OK';
+}
+
+before(async () => {
+  server = createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let pending = Buffer.alloc(0);
+    socket.on('data', data => {
+      pending = Buffer.concat([pending, data]);
+      if (pending.toString('latin1') === 'zPING\0') {
+        socket.end('PONG\0');
+        return;
+      }
+
+      const command = 'zINSTREAM\0';
+      if (pending.length < command.length) return;
+      assert.equal(pending.subarray(0, command.length).toString('latin1'), command);
+
+      const chunks: Buffer[] = [];
+      let offset = command.length;
+      while (offset + 4 <= pending.length) {
+        const length = pending.readUInt32BE(offset);
+        if (length === 0) {
+          const answer = reply(Buffer.concat(chunks));
+          if (answer !== null) socket.end(`${answer}\0`);
+          return;
+        }
+        if (offset + 4 + length > pending.length) return;
+        chunks.push(pending.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => {
+  for (const socket of sockets) socket.destroy();
+  server.close();
+});
+
+function scanner(timeoutMs = 2000): MalwareScanner {
+  return new MalwareScanner({ host: '127.0.0.1', port, timeoutMs });
+}
+
+test('answers a ping', async () => {
+  assert.equal(await scanner().ping(), true);
+});
+
+test('reports a clean stream as not infected', async () => {
+  const result = await scanner().scanAttachments([{ filename: 'notes.txt', content: Buffer.from('just some homework') }]);
+
+  assert.deepEqual(result, { infected: false });
+});
+
+test('reports the signature and attachment clamd found', async () => {
+  // Larger than one chunk so the upload is split
+  const content = Buffer.concat([Buffer.alloc(100 * 1024, 'a'), Buffer.from('EICAR')]);
+  const result = await scanner().scanAttachments([
+    { filename: 'clean.txt', content: Buffer.from('hello') },
+    { filename: 'game.exe', content }
+  ]);
+
+  assert.deepEqual(result, { infected: true, filename: 'game.exe', signature: 'Eicar-Signature' });
+});
+
+test('throws when clamd replies with an error', async () => {
+  await assert.rejects(
+    scanner().scanBuffer(Buffer.from('too big')),
+    /clamd error: INSTREAM size limit exceeded\. ERROR/
+  );
+});
+
+test('throws when clamd does not answer in time', async () => {
+  await assert.rejects(scanner(200).scanBuffer(Buffer.from('hang')), /did not respond in time/);
+});
+
+test('throws when clamd cannot be reached', async () => {
+  const unreachable = new MalwareScanner({ host: '127.0.0.1', port: 1, timeoutMs: 2000 });
+
+  await assert.rejects(unreachable.scanBuffer(Buffer.from('hello')));
+  assert.equal(await unreachable.ping(), false);
+});
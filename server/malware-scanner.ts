@@ -0,0 +1,131 @@
+import { createConnection, Socket } from 'net';
+
+export type ClamdConnection =
+  | { socketPath: string; timeoutMs?: number }
+  | { host: string; port: number; timeoutMs?: number };
+
+export interface MalwareScanResult {
+  infected: boolean;
+  filename?: string;
+  signature?: string;
+}
+
+// clamd rejects chunks over its StreamMaxLength; small chunks keep memory flat
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Malware Scanner
+ *
+ * Client for a local ClamAV daemon using the INSTREAM command, over either a
+ * unix socket or TCP. Scanning is off unless CLAMD_SOCKET or CLAMD_HOST is set.
+ */
+export class MalwareScanner {
+  private connection: ClamdConnection | null;
+
+  constructor(connection: ClamdConnection | null = MalwareScanner.connectionFromEnv()) {
+    this.connection = connection;
+  }
+
+  static connectionFromEnv(): ClamdConnection | null {
+    const timeoutMs = process.env.CLAMD_TIMEOUT_MS ? parseInt(process.env.CLAMD_TIMEOUT_MS) : undefined;
+
+    if (process.env.CLAMD_SOCKET) {
+      return { socketPath: process.env.CLAMD_SOCKET, timeoutMs };
+    }
+    if (process.env.CLAMD_HOST) {
+      return {
+        host: process.env.CLAMD_HOST,
+        port: process.env.CLAMD_PORT ? parseInt(process.env.CLAMD_PORT) : 3310,
+        timeoutMs
+      };
+    }
+    return null;
+  }
+
+  isEnabled(): boolean {
+    return this.connection !== null;
+  }
+
+  /**
+   * Scan each attachment of a message, stopping at the first infected one
+   * @param attachments The parsed attachments
+   * @returns The infected attachment and its signature, or infected: false
+   * @throws If clamd cannot be reached or reports an error
+   */
+  async scanAttachments(attachments: Array<{ filename: string; content: Buffer }>): Promise<MalwareScanResult> {
+    for (const attachment of attachments) {
+      const signature = await this.scanBuffer(attachment.content);
+      if (signature) {
+        return { infected: true, filename: attachment.filename, signature };
+      }
+    }
+    return { infected: false };
+  }
+
+  /**
+   * Stream a buffer to clamd
+   * @param content The bytes to scan
+   * @returns The signature name if clamd found something, otherwise null
+   */
+  async scanBuffer(content: Buffer): Promise<string | null> {
+    const reply = await this.send(socket => {
+      socket.write('zINSTREAM\0');
+      for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+        const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+        const length = Buffer.alloc(4);
+        length.writeUInt32BE(chunk.length, 0);
+        socket.write(length);
+        socket.write(chunk);
+      }
+      // A zero-length chunk ends the stream
+      socket.write(Buffer.alloc(4));
+    });
+
+    // "stream: OK", "stream: Eicar-Signature FOUND" or "<message> ERROR"
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return found[1];
+    }
+    if (reply === 'stream: OK') {
+      return null;
+    }
+    throw new Error(`clamd error: ${reply || 'no reply'}`);
+  }
+
+  /**
+   * Check that clamd is reachable
+   */
+  async ping(): Promise<boolean> {
+    try {
+      return (await this.send(socket => socket.write('zPING\0'))) === 'PONG';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private send(write: (socket: Socket) => void): Promise<string> {
+    const connection = this.connection;
+    if (!connection) {
+      return Promise.reject(new Error('clamd is not configured'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = 'socketPath' in connection
+        ? createConnection(connection.socketPath)
+        : createConnection(connection.port, connection.host);
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(connection.timeoutMs ?? 30000);
+      socket.on('connect', () => write(socket));
+      socket.on('data', data => chunks.push(data));
+      socket.on('timeout', () => socket.destroy(new Error('clamd did not respond in time')));
+      socket.on('error', reject);
+      socket.on('close', () => {
+        // Replies to z-prefixed commands are NUL-terminated
+        resolve(Buffer.concat(chunks).toString('utf8').replace(/\0+$/, '').trim());
+      });
+    });
+  }
+}
+
+export const malwareScanner = new MalwareScanner();
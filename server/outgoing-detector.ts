@@ -0,0 +1,157 @@
+export type OutgoingFindingCategory = 'phone_number' | 'home_address' | 'school' | 'self_harm' | 'bullying';
+
+export type OutgoingFinding = {
+  type: 'pii' | 'risk';
+  category: OutgoingFindingCategory;
+  excerpt: string;
+};
+
+export const outgoingCategoryLabels: Record<OutgoingFindingCategory, string> = {
+  phone_number: 'phone number',
+  home_address: 'home address',
+  school: 'school',
+  self_harm: 'self-harm',
+  bullying: 'bullying'
+};
+
+/**
+ * Outgoing Detector
+ *
+ * Looks at mail the child has sent for personal details they should not share
+ * (phone number, home address, school) and for crisis language (self-harm,
+ * bullying). Findings only raise alerts for the parent.
+ */
+class OutgoingDetector {
+  // Candidate phone numbers; the digit count is checked separately
+  private phonePattern = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)[\s.-]?)?\d{2,5}(?:[\s.-]\d{2,5}){1,3}|\b\d{10,11}\b/g;
+
+  private addressPatterns: RegExp[] = [
+    // The street type has to end the phrase, so "12 more days of school way too long" is not an address
+    /\b\d{1,5}[a-z]?\s+(?:[a-z]+\s){1,3}(?:street|st|avenue|ave|road|rd|lane|ln|drive|dr|court|ct|boulevard|blvd|way|place|pl|terrace|close|crescent|circle|cir|parkway|pkwy)\b\.?(?=\s*(?:$|[,;:!?)\n]|(?:apt|apartment|unit|suite|flat)\b|#))/i,
+    /\b(?:i|we)\s+live\s+(?:at|on)\s+[^.,!?\n]{3,60}/i,
+    /\bmy\s+(?:home\s+)?address\s+is\s+[^.!?\n]{3,80}/i
+  ];
+
+  // Only the child saying where they go to school counts, not any mention of one
+  private schoolPatterns: RegExp[] = [
+    /\b(?:(?:i|we)\s+(?:go\s+to|went\s+to|attend|attended)|(?:i'?m|i\s+am|we'?re|we\s+are)\s+(?:a\s+[a-z]+\s+)?at)\s+[^.,!?\n]{2,50}?\b(?:school|academy|elementary|middle|high|primary|secondary|college)\b(?:\s+school)?/i,
+    /\bmy\s+school\s+is\s+[^.,!?\n]{2,50}/i
+  ];
+
+  private selfHarmPhrases: string[] = [
+    "kill myself", "killing myself", "want to die", "wanna die", "wish i was dead",
+    "wish i were dead", "end my life", "end it all", "hurt myself", "hurting myself",
+    "cut myself", "cutting myself", "suicide", "suicidal", "no reason to live",
+    "better off without me", "don't want to be alive", "dont want to be alive",
+    "can't go on", "cant go on", "overdose"
+  ];
+
+  private bullyingPhrases: string[] = [
+    "kill yourself", "kys", "go die", "nobody likes you", "no one likes you",
+    "everyone hates you", "everybody hates you", "you're worthless", "youre worthless",
+    "you are worthless", "you're ugly", "youre ugly", "you are ugly", "you're fat",
+    "you are fat", "you're a loser", "you are a loser", "i'll beat you up",
+    "ill beat you up", "gonna beat you up", "watch your back", "you should die"
+  ];
+
+  /**
+   * Check a sent message for personal details and crisis language
+   * @param subject The subject line
+   * @param textContent The plain text body; quoted replies are ignored
+   * @returns One finding per category that matched
+   */
+  analyze(subject: string, textContent: string): OutgoingFinding[] {
+    const text = `${subject}\n${this.stripQuotedText(textContent)}`;
+    const lowerText = text.toLowerCase();
+    const findings: OutgoingFinding[] = [];
+
+    const phone = this.findPhoneNumber(text);
+    if (phone) {
+      findings.push({ type: 'pii', category: 'phone_number', excerpt: this.redactDigits(phone) });
+    }
+
+    const address = this.firstMatch(text, this.addressPatterns);
+    if (address) {
+      findings.push({ type: 'pii', category: 'home_address', excerpt: this.redactDigits(address) });
+    }
+
+    const school = this.firstMatch(text, this.schoolPatterns);
+    if (school) {
+      findings.push({ type: 'pii', category: 'school', excerpt: school });
+    }
+
+    const selfHarm = this.firstPhrase(lowerText, this.selfHarmPhrases);
+    if (selfHarm) {
+      findings.push({ type: 'risk', category: 'self_harm', excerpt: selfHarm });
+    }
+
+    const bullying = this.firstPhrase(lowerText, this.bullyingPhrases);
+    if (bullying) {
+      findings.push({ type: 'risk', category: 'bullying', excerpt: bullying });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Drop the quoted message a reply is written under, so only the child's own
+   * words are checked
+   */
+  private stripQuotedText(textContent: string): string {
+    const lines = textContent.split(/\r?\n/);
+    const kept: string[] = [];
+
+    for (const line of lines) {
+      // "On Mon, 1 Jan 2024, Someone <someone@example.com> wrote:" starts the quote
+      if (/^\s*on\s.+wrote:\s*$/i.test(line) || /^-{2,}\s*original message\s*-{2,}/i.test(line)) {
+        break;
+      }
+      if (!line.trimStart().startsWith('>')) {
+        kept.push(line);
+      }
+    }
+
+    return kept.join('\n');
+  }
+
+  private findPhoneNumber(text: string): string | null {
+    const candidates = text.match(this.phonePattern) || [];
+    for (const candidate of candidates) {
+      const digits = candidate.replace(/\D/g, '').length;
+      // Long enough to be dialable, short enough not to be a card or order number
+      if (digits >= 10 && digits <= 13) {
+        return candidate.trim();
+      }
+    }
+    return null;
+  }
+
+  private firstMatch(text: string, patterns: RegExp[]): string | null {
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        return match[0].trim();
+      }
+    }
+    return null;
+  }
+
+  private firstPhrase(lowerText: string, phrases: string[]): string | null {
+    for (const phrase of phrases) {
+      const pattern = new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
+      if (pattern.test(lowerText)) {
+        return phrase;
+      }
+    }
+    return null;
+  }
+
+  // Keep the last two digits so a parent can recognise the number without it being stored in full
+  private redactDigits(value: string): string {
+    const totalDigits = value.replace(/\D/g, '').length;
+    let seen = 0;
+    return value.replace(/\d/g, digit => (++seen > totalDigits - 2 ? digit : '•'));
+  }
+}
+
+export const outgoingDetector = new OutgoingDetector();
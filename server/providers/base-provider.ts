@@ -1,10 +1,39 @@
+import IMAP from 'node-imap';
+import { simpleParser } from 'mailparser';
 import { 
   EmailProviderInterface,
   ConnectionOptions,
   EmailMessage,
-  FolderInfo
+  FolderInfo,
+  FolderStatus,
+  MailboxEventHandlers,
+  MovedMessage,
+  SpecialUseFolder
 } from './provider-interface';
 
+// An IMAP SEARCH key, alone or with its arguments, e.g. 'UNSEEN' or ['UID', '10:*']
+export type SearchCriterion = string | [string, ...Array<string | number | Date>];
+
+// node-imap implements XLIST as getSpecialUseBoxes, but its type definitions leave it out
+type XlistConnection = IMAP & {
+  getSpecialUseBoxes(callback: (error: Error, mailboxes: IMAP.MailBoxes) => void): void;
+};
+
+// SPECIAL-USE (RFC 6154) and legacy XLIST attributes, lowercased, mapped to folder roles
+const specialUseAttributes: Record<string, SpecialUseFolder> = {
+  '\\inbox': 'inbox',
+  '\\junk': 'junk',
+  '\\spam': 'junk',
+  '\\trash': 'trash',
+  '\\sent': 'sent',
+  '\\drafts': 'drafts',
+  '\\archive': 'archive',
+  '\\all': 'all',
+  '\\allmail': 'all',
+  '\\flagged': 'flagged',
+  '\\starred': 'flagged'
+};
+
 /**
  * Base Email Provider
  * 
@@ -15,7 +44,10 @@ export abstract class BaseEmailProvider implements EmailProviderInterface {
   protected connectionState: boolean = false;
   protected connectionOptions?: ConnectionOptions;
   protected currentFolder?: string;
+  // UIDVALIDITY and UIDNEXT of the most recently selected folder
+  protected folderStatus?: FolderStatus;
   protected lastError?: Error;
+  private mailboxSubscribers: Set<MailboxEventHandlers> = new Set();
 
   constructor() {}
 
@@ -29,6 +61,7 @@ export abstract class BaseEmailProvider implements EmailProviderInterface {
     offset?: number;
     unreadOnly?: boolean;
     since?: Date;
+    sinceUid?: number;
   }): Promise<EmailMessage[]>;
   abstract getMessage(id: string): Promise<EmailMessage | null>;
   abstract markAsRead(id: string): Promise<boolean>;
@@ -74,6 +107,10 @@ export abstract class BaseEmailProvider implements EmailProviderInterface {
     }
   }
 
+  getFolderStatus(): FolderStatus | undefined {
+    return this.folderStatus;
+  }
+
   // Default implementations that can be overridden
   async createFolder(folderPath: string): Promise<boolean> {
     this.lastError = new Error('Operation not supported by this provider');
@@ -85,12 +122,248 @@ export abstract class BaseEmailProvider implements EmailProviderInterface {
     return false;
   }
 
-  async moveMessage(messageId: string, targetFolder: string): Promise<boolean> {
+  async moveMessage(messageId: string, targetFolder: string): Promise<MovedMessage | null> {
+    this.lastError = new Error('Operation not supported by this provider');
+    return null;
+  }
+
+  async findMessageByHeader(folder: string, header: string, value: string): Promise<string | null> {
+    this.lastError = new Error('Operation not supported by this provider');
+    return null;
+  }
+
+  async findMessageByUid(folder: string, uid: string): Promise<string | null> {
     this.lastError = new Error('Operation not supported by this provider');
+    return null;
+  }
+
+  supportsIdle(): boolean {
     return false;
   }
 
+  subscribe(handlers: MailboxEventHandlers): () => void {
+    this.mailboxSubscribers.add(handlers);
+    return () => {
+      this.mailboxSubscribers.delete(handlers);
+    };
+  }
+
   // Helper methods
+  protected notifyNewMail(newMessageCount: number): void {
+    this.mailboxSubscribers.forEach(handlers => {
+      handlers.onNewMail?.(newMessageCount);
+    });
+  }
+
+  protected notifyConnectionLost(error?: Error): void {
+    this.mailboxSubscribers.forEach(handlers => {
+      handlers.onConnectionLost?.(error);
+    });
+  }
+
+  /**
+   * Fetch the mailbox tree, using XLIST on servers that only advertise
+   * special folders that way (older Gmail) and LIST everywhere else
+   */
+  protected fetchMailboxes(client: IMAP): Promise<IMAP.MailBoxes> {
+    return new Promise((resolve, reject) => {
+      const callback = (err: Error, boxes: IMAP.MailBoxes) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(boxes);
+      };
+      
+      if (client.serverSupports('XLIST') && !client.serverSupports('SPECIAL-USE')) {
+        (client as XlistConnection).getSpecialUseBoxes(callback);
+      } else {
+        client.getBoxes(callback);
+      }
+    });
+  }
+
+  /**
+   * Move a message and work out the UID it was given in the target folder:
+   * from the COPYUID the server reports, or else from the target folder's
+   * UIDNEXT before and after the move, when exactly one message arrived
+   * @returns null if the move failed
+   */
+  protected async moveWithClient(client: IMAP, messageId: string, targetFolder: string): Promise<MovedMessage | null> {
+    const before = await this.folderUids(client, targetFolder);
+
+    const copyUid = await new Promise<string | null | false>(resolve => {
+      // node-imap passes the destination UIDs of a tagged COPYUID reply as a second argument
+      client.move(messageId, targetFolder, (err: Error, destinationUids?: string) => {
+        if (err) {
+          this.setLastError(err);
+          resolve(false);
+          return;
+        }
+        resolve(destinationUids && /^\d+$/.test(String(destinationUids)) ? String(destinationUids) : null);
+      });
+    });
+    if (copyUid === false) {
+      return null;
+    }
+
+    const after = await this.folderUids(client, targetFolder);
+    const uidValidity = after?.uidValidity ?? before?.uidValidity ?? null;
+    if (copyUid) {
+      return { folder: targetFolder, uid: copyUid, uidValidity };
+    }
+
+    const arrivedAlone = before && after && before.uidValidity === after.uidValidity && after.uidNext === before.uidNext + 1;
+    return { folder: targetFolder, uid: arrivedAlone ? String(before.uidNext) : null, uidValidity };
+  }
+
+  /**
+   * UIDVALIDITY and UIDNEXT of a folder, through STATUS so the selected
+   * folder stays selected
+   */
+  private folderUids(client: IMAP, folderPath: string): Promise<{ uidValidity: number; uidNext: number } | null> {
+    return new Promise(resolve => {
+      client.status(folderPath, (err, box) => {
+        resolve(err ? null : { uidValidity: box.uidvalidity, uidNext: box.uidnext });
+      });
+    });
+  }
+
+  /**
+   * Search a folder, selecting it first if need be
+   * @returns The newest matching UID, or null if none matches
+   */
+  protected async searchWithClient(client: IMAP, folder: string, criteria: SearchCriterion[]): Promise<string | null> {
+    if (folder !== this.currentFolder) {
+      const selected = await this.selectFolder(folder);
+      if (!selected) {
+        return null;
+      }
+    }
+
+    return new Promise((resolve) => {
+      client.search(criteria, (err, results) => {
+        if (err) {
+          this.setLastError(err);
+          resolve(null);
+          return;
+        }
+        // If the search matches several messages, the newest wins
+        resolve(results.length ? Math.max(...results).toString() : null);
+      });
+    });
+  }
+
+  /**
+   * Flatten a node-imap mailbox tree into folder infos with their attributes
+   * and special-use role
+   */
+  protected flattenMailboxes(boxes: IMAP.MailBoxes, delimiter: string = '.', parentPath: string = ''): FolderInfo[] {
+    const folders: FolderInfo[] = [];
+    
+    Object.keys(boxes).forEach(name => {
+      const box = boxes[name];
+      const boxDelimiter = box.delimiter || delimiter;
+      const path = parentPath ? `${parentPath}${boxDelimiter}${name}` : name;
+      const attributes: string[] = box.attribs || [];
+      
+      folders.push({
+        name,
+        path,
+        messageCount: -1, // We don't know the count until we select the folder
+        attributes,
+        specialUse: this.getSpecialUse(attributes, path)
+      });
+      
+      if (box.children) {
+        folders.push(...this.flattenMailboxes(box.children, boxDelimiter, path));
+      }
+    });
+    
+    return folders;
+  }
+
+  protected getSpecialUse(attributes: string[], path: string): SpecialUseFolder | undefined {
+    // INBOX is a reserved name and never needs an attribute
+    if (path.toUpperCase() === 'INBOX') {
+      return 'inbox';
+    }
+    
+    for (const attribute of attributes) {
+      const role = specialUseAttributes[attribute.toLowerCase()];
+      if (role) {
+        return role;
+      }
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Parse a raw RFC 822 message
+   * @param id The message ID (the IMAP UID)
+   * @param raw The full message source
+   */
+  protected async parseMessage(id: string, raw: Buffer): Promise<EmailMessage> {
+    const parsed = await simpleParser(raw);
+    return {
+      id,
+      from: parsed.from?.text || '',
+      to: Array.isArray(parsed.to) ? parsed.to.map(addr => addr.text).join(', ') : parsed.to?.text || '',
+      subject: parsed.subject || '',
+      text: parsed.text || '',
+      html: parsed.html || undefined,
+      date: parsed.date || new Date(),
+      attachments: parsed.attachments?.map(att => ({
+        filename: att.filename || 'attachment',
+        contentType: att.contentType || 'application/octet-stream',
+        content: att.content
+      })),
+      headers: this.collectHeaders(parsed.headerLines),
+      messageIdHeader: parsed.messageId,
+      raw
+    };
+  }
+
+  /**
+   * Stand-in for a message the parser rejected, with what its headers still
+   * tell, so it is acted on rather than lost
+   * @param error Why parsing failed
+   */
+  protected unparsedMessage(id: string, raw: Buffer, error: unknown): EmailMessage {
+    const source = raw.toString('latin1');
+    const headerEnd = source.search(/\r?\n\r?\n/);
+    const header = IMAP.parseHeader(headerEnd < 0 ? source : source.slice(0, headerEnd));
+    const date = header.date ? new Date(header.date[0]) : new Date();
+    return {
+      id,
+      from: header.from?.[0] || '',
+      to: header.to?.[0] || '',
+      subject: header.subject?.[0] || '',
+      text: '',
+      date: isNaN(date.getTime()) ? new Date() : date,
+      headers: {},
+      messageIdHeader: header['message-id']?.[0],
+      parseError: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  /**
+   * Collect parsed header lines by lowercased name, in the order each first
+   * appears. Only the first (topmost) occurrence is kept: receiving servers add
+   * their own trace and authentication headers above anything the sender wrote.
+   */
+  protected collectHeaders(headerLines: ReadonlyArray<{ key: string; line: string }>): Record<string, string> {
+    const headers: Record<string, string> = {};
+    headerLines.forEach(line => {
+      const key = line.key.toLowerCase();
+      if (!(key in headers)) {
+        headers[key] = line.line.substring(line.line.indexOf(':') + 1).trim();
+      }
+    });
+    return headers;
+  }
+
   protected setConnectionState(state: boolean): void {
     this.connectionState = state;
   }
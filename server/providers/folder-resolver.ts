@@ -0,0 +1,147 @@
+import { EmailProviderInterface, FolderInfo, SpecialUseFolder } from './provider-interface';
+
+/**
+ * Folder roles the email service needs to locate on every account
+ */
+export type FolderRole = 'inbox' | 'junk' | 'trash' | 'sent';
+
+/**
+ * Resolved Folder
+ *
+ * A folder path together with how it was found, so the UI can explain it.
+ */
+export interface ResolvedFolder {
+  path: string;
+  source: 'custom' | 'special-use' | 'provider-default' | 'name-match';
+}
+
+/**
+ * Resolved Folders
+ *
+ * The folders found for each role on one account. A role is missing when no
+ * folder could be identified for it.
+ */
+export type ResolvedFolders = Partial<Record<FolderRole, ResolvedFolder>> & {
+  resolvedAt: Date;
+};
+
+// Common, including localized, names for each role; compared case-insensitively
+// against both the full path and the last path segment
+const folderNames: Record<FolderRole, string[]> = {
+  inbox: ['INBOX'],
+  junk: [
+    'Junk', 'Junk Email', 'Junk E-mail', 'Junk Mail', 'Spam', 'Bulk', 'Bulk Mail',
+    'Courrier indésirable', 'Pourriel', 'Junk-E-Mail', 'Spamverdacht', 'Correo no deseado',
+    'Posta indesiderata', 'Ongewenste e-mail', 'Lixo eletrônico', 'Skräppost', 'Uønsket e-post',
+    'Roskaposti', 'Wiadomości-śmieci', 'Нежелательная почта', 'Спам', '迷惑メール', '垃圾邮件'
+  ],
+  trash: [
+    'Trash', 'Deleted Items', 'Deleted Messages', 'Bin', 'Corbeille', 'Éléments supprimés',
+    'Papierkorb', 'Gelöschte Elemente', 'Papelera', 'Elementos eliminados', 'Cestino',
+    'Posta eliminata', 'Prullenbak', 'Verwijderde items', 'Lixeira', 'Papperskorgen', 'Корзина'
+  ],
+  sent: [
+    'Sent', 'Sent Items', 'Sent Messages', 'Sent Mail', 'Éléments envoyés', 'Envoyés',
+    'Gesendet', 'Gesendete Elemente', 'Enviados', 'Elementos enviados', 'Posta inviata',
+    'Inviata', 'Verzonden items', 'Itens enviados', 'Skickat', 'Отправленные'
+  ]
+};
+
+/**
+ * Resolve the inbox, junk, trash and sent folders of an account
+ * @param folders The folders listed on the server (may be empty if listing failed)
+ * @param options The parent's junk folder override and the provider's default junk path
+ * @returns The best folder for each role
+ */
+export function resolveSpecialFolders(
+  folders: FolderInfo[],
+  options: { customJunkFolder?: string | null; providerJunkPath?: string | null } = {}
+): ResolvedFolders {
+  const resolved: ResolvedFolders = { resolvedAt: new Date() };
+
+  // Without a folder list we can only trust the configured paths
+  if (folders.length === 0) {
+    resolved.inbox = { path: 'INBOX', source: 'provider-default' };
+    resolved.junk = options.customJunkFolder
+      ? { path: options.customJunkFolder, source: 'custom' }
+      : { path: options.providerJunkPath || 'Junk', source: 'provider-default' };
+    return resolved;
+  }
+
+  const roles: FolderRole[] = ['inbox', 'junk', 'trash', 'sent'];
+  roles.forEach(role => {
+    // An explicit override from the parent always wins, as long as it exists
+    if (role === 'junk' && options.customJunkFolder) {
+      const custom = findByPath(folders, options.customJunkFolder);
+      if (custom) {
+        resolved.junk = { path: custom.path, source: 'custom' };
+        return;
+      }
+    }
+
+    const advertised = folders.find(folder => folder.specialUse === (role as SpecialUseFolder));
+    if (advertised) {
+      resolved[role] = { path: advertised.path, source: 'special-use' };
+      return;
+    }
+
+    if (role === 'junk' && options.providerJunkPath) {
+      const providerDefault = findByPath(folders, options.providerJunkPath);
+      if (providerDefault) {
+        resolved.junk = { path: providerDefault.path, source: 'provider-default' };
+        return;
+      }
+    }
+
+    const named = findByName(folders, folderNames[role]);
+    if (named) {
+      resolved[role] = { path: named.path, source: 'name-match' };
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * Find a folder by name, creating it if it does not exist yet
+ * @param provider A connected provider
+ * @param name The folder name, e.g. "KidMail Quarantine"
+ * @returns The folder path, or null if it could not be created
+ */
+export async function findOrCreateFolder(provider: EmailProviderInterface, name: string): Promise<string | null> {
+  const folders = await provider.listFolders().catch(() => [] as FolderInfo[]);
+  const existing = folders.find(folder => folder.name === name);
+  if (existing) {
+    return existing.path;
+  }
+
+  // Some servers only allow folders below INBOX
+  const candidates = [name, `INBOX.${name}`, `INBOX/${name}`];
+  for (const path of candidates) {
+    if (await provider.createFolder(path)) {
+      return path;
+    }
+  }
+
+  return null;
+}
+
+function normalizeName(name: string): string {
+  return name.normalize('NFC').toLowerCase().trim();
+}
+
+function findByPath(folders: FolderInfo[], path: string): FolderInfo | undefined {
+  const wanted = normalizeName(path);
+  return folders.find(folder => normalizeName(folder.path) === wanted);
+}
+
+function findByName(folders: FolderInfo[], names: string[]): FolderInfo | undefined {
+  const wanted = names.map(normalizeName);
+
+  // Prefer top-level folders over nested folders with the same name
+  const candidates = folders
+    .filter(folder => wanted.includes(normalizeName(folder.path)) || wanted.includes(normalizeName(folder.name)))
+    .sort((a, b) => a.path.length - b.path.length);
+
+  return candidates[0];
+}
@@ -0,0 +1,525 @@
+import IMAP from 'node-imap';
+import * as nodemailer from 'nodemailer';
+import {
+  ConnectionOptions,
+  EmailMessage,
+  FolderInfo,
+  MovedMessage
+} from './provider-interface';
+import { BaseEmailProvider, SearchCriterion } from './base-provider';
+
+/**
+ * Generic IMAP Email Provider
+ *
+ * Implementation of the email provider interface for any standards-compliant
+ * IMAP/SMTP service (Yahoo, AOL, Zoho, Proton Mail Bridge, self-hosted servers).
+ * Unlike the dedicated providers it has no built-in host names or folder quirks:
+ * everything comes from the `email_providers` row via the connection options.
+ */
+export class GenericImapProvider extends BaseEmailProvider {
+  private imapClient: IMAP | null = null;
+  private smtpTransporter: nodemailer.Transporter | null = null;
+
+  constructor() {
+    super();
+  }
+
+  async connect(options: ConnectionOptions): Promise<boolean> {
+    try {
+      // Store connection options for potential reconnection
+      this.connectionOptions = options;
+
+      if (!options.host) {
+        this.setLastError(new Error('IMAP host is not configured for this provider'));
+        return false;
+      }
+
+      // Configure IMAP client based on auth method
+      if (options.auth.type === 'oauth2') {
+        if (!options.auth.accessToken) {
+          this.setLastError(new Error('OAuth2 access token is required'));
+          return false;
+        }
+
+        this.imapClient = new IMAP({
+          user: options.user,
+          password: '',
+          host: options.host,
+          port: options.port,
+          tls: options.secure,
+          autotls: options.secure ? 'never' : 'always',
+          tlsOptions: this.getTlsOptions(options.host),
+          authTimeout: 30000,
+          xoauth2: this.buildXOAuth2Token(options.user, options.auth.accessToken)
+        });
+      } else if (options.auth.type === 'password' || options.auth.type === 'app_password') {
+        this.imapClient = new IMAP({
+          user: options.user,
+          password: options.auth.value,
+          host: options.host,
+          port: options.port,
+          tls: options.secure,
+          autotls: options.secure ? 'never' : 'always',
+          tlsOptions: this.getTlsOptions(options.host),
+          authTimeout: 30000
+        });
+      } else {
+        this.setLastError(new Error(`Unsupported authentication method: ${options.auth.type}`));
+        return false;
+      }
+
+      // Configure SMTP transporter if the provider row has outgoing settings
+      if (options.smtp && options.smtp.host) {
+        this.smtpTransporter = nodemailer.createTransport({
+          host: options.smtp.host,
+          port: options.smtp.port,
+          secure: options.smtp.secure,
+          auth: options.auth.type === 'oauth2'
+            ? {
+                type: 'OAuth2',
+                user: options.user,
+                accessToken: options.auth.accessToken,
+                expires: options.auth.expiry?.getTime() || 0
+              }
+            : {
+                user: options.user,
+                pass: options.auth.value
+              }
+        });
+      } else {
+        this.smtpTransporter = null;
+      }
+
+      // Connect to the server
+      return new Promise((resolve) => {
+        if (!this.imapClient) {
+          this.setLastError(new Error('IMAP client not initialized'));
+          this.setConnectionState(false);
+          resolve(false);
+          return;
+        }
+
+        // Set up event handlers
+        this.imapClient.once('ready', () => {
+          this.setConnectionState(true);
+          resolve(true);
+        });
+
+        this.imapClient.on('error', (err: Error) => {
+          this.setLastError(err);
+          this.setConnectionState(false);
+          resolve(false);
+        });
+
+        this.imapClient.once('end', () => {
+          this.setConnectionState(false);
+        });
+
+        // Forward IDLE push notifications and connection drops to subscribers
+        this.imapClient.on('mail', (newMessageCount: number) => {
+          this.notifyNewMail(newMessageCount);
+        });
+
+        this.imapClient.once('close', () => {
+          this.setConnectionState(false);
+          this.notifyConnectionLost(this.lastError);
+        });
+
+        // Connect to the server
+        this.imapClient.connect();
+      });
+    } catch (error) {
+      this.setLastError(error instanceof Error ? error : new Error(String(error)));
+      this.setConnectionState(false);
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.imapClient && this.imapClient.state !== 'disconnected') {
+        this.imapClient.once('end', () => {
+          this.setConnectionState(false);
+          resolve();
+        });
+        this.imapClient.end();
+      } else {
+        this.setConnectionState(false);
+        resolve();
+      }
+    });
+  }
+
+  async listFolders(): Promise<FolderInfo[]> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return [];
+    }
+
+    try {
+      const boxes = await this.fetchMailboxes(this.imapClient);
+      return this.flattenMailboxes(boxes, this.imapClient.delimiter || '/');
+    } catch (error) {
+      this.setLastError(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  async selectFolder(folderPath: string): Promise<boolean> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return false;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.imapClient) {
+        this.setLastError(new Error('IMAP client not initialized'));
+        resolve(false);
+        return;
+      }
+
+      this.imapClient.openBox(folderPath, false, (err, box) => {
+        if (err) {
+          this.setLastError(err);
+          resolve(false);
+          return;
+        }
+        this.currentFolder = folderPath;
+        this.folderStatus = {
+          path: folderPath,
+          uidValidity: box.uidvalidity,
+          uidNext: box.uidnext,
+          messageCount: box.messages.total
+        };
+        resolve(true);
+      });
+    });
+  }
+
+  async listMessages(folder?: string, options?: {
+    limit?: number;
+    offset?: number;
+    unreadOnly?: boolean;
+    since?: Date;
+    sinceUid?: number;
+  }): Promise<EmailMessage[]> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return [];
+    }
+
+    // If a folder is specified and it's not the current folder, select it
+    if (folder && folder !== this.currentFolder) {
+      const selected = await this.selectFolder(folder);
+      if (!selected) {
+        return [];
+      }
+    }
+
+    // Default options
+    const limit = options?.limit || 10;
+    const offset = options?.offset || 0;
+    const unreadOnly = options?.unreadOnly || false;
+    const since = options?.since || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Default to 1 week ago
+    const sinceUid = options?.sinceUid;
+
+    return new Promise((resolve, reject) => {
+      if (!this.imapClient) {
+        reject(new Error('IMAP client not initialized'));
+        return;
+      }
+
+      // Construct the search criteria. Incremental syncs ask for every message
+      // above the last processed UID, read or not; otherwise search by date
+      const searchCriteria: SearchCriterion[] = sinceUid !== undefined
+        ? [['UID', `${sinceUid + 1}:*`]]
+        : [['SINCE', since.toISOString().substring(0, 10)]];
+
+      if (unreadOnly) {
+        searchCriteria.push('UNSEEN');
+      }
+
+      this.imapClient.search(searchCriteria, (err, results) => {
+        if (err) {
+          this.setLastError(err);
+          reject(err);
+          return;
+        }
+
+        // `n:*` always matches the highest UID, even when it is not above n
+        const uids = sinceUid !== undefined ? results.filter(uid => uid > sinceUid) : results;
+
+        // If no messages found, return empty array
+        if (!uids.length || !this.imapClient) {
+          resolve([]);
+          return;
+        }
+
+        // Incremental syncs go oldest first so the checkpoint can advance batch
+        // by batch; otherwise newest first. Then apply offset and limit
+        uids.sort((a, b) => sinceUid !== undefined ? a - b : b - a);
+        const messageUids = uids.slice(offset, offset + limit);
+
+        // Fetch whole messages so attachments and every header reach the filters
+        const messages: EmailMessage[] = [];
+        const parsing: Promise<void>[] = [];
+        const fetch = this.imapClient.fetch(messageUids, { bodies: [''] });
+
+        fetch.on('message', (msg) => {
+          let uid: number | undefined;
+          const chunks: Buffer[] = [];
+
+          msg.once('attributes', (attrs) => {
+            uid = attrs.uid;
+          });
+
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk) => {
+              chunks.push(chunk);
+            });
+          });
+
+          // Use the UID as the message ID so flag and move operations
+          // (which are UID-based) address the right message
+          msg.once('end', () => {
+            const raw = Buffer.concat(chunks);
+            parsing.push(
+              this.parseMessage(String(uid), raw)
+                .then(message => {
+                  messages.push({ ...message, uid });
+                })
+                .catch(error => {
+                  // Pass it on anyway: dropping it would let the sync checkpoint move past it unchecked
+                  console.error(`Error parsing message ${uid}:`, error);
+                  messages.push({ ...this.unparsedMessage(String(uid), raw, error), uid });
+                })
+            );
+          });
+        });
+
+        fetch.once('error', (err) => {
+          this.setLastError(err);
+          reject(err);
+        });
+
+        fetch.once('end', async () => {
+          await Promise.all(parsing);
+          // Parsing finishes in any order; restore the fetch order
+          messages.sort((a, b) => sinceUid !== undefined ? (a.uid || 0) - (b.uid || 0) : (b.uid || 0) - (a.uid || 0));
+          resolve(messages);
+        });
+      });
+    });
+  }
+
+  async getMessage(id: string): Promise<EmailMessage | null> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return null;
+    }
+
+    return new Promise((resolve, reject) => {
+      if (!this.imapClient) {
+        reject(new Error('IMAP client not initialized'));
+        return;
+      }
+
+      const fetchOptions = {
+        bodies: [''],
+        struct: true
+      };
+
+      const fetch = this.imapClient.fetch(id, fetchOptions);
+      const chunks: Buffer[] = [];
+
+      fetch.on('message', (msg) => {
+        msg.on('body', (stream) => {
+          stream.on('data', (chunk) => {
+            chunks.push(chunk);
+          });
+        });
+
+        msg.once('end', () => {
+          // Parse the raw message
+          this.parseMessage(id, Buffer.concat(chunks)).then(message => {
+            resolve(message);
+          }).catch(err => {
+            this.setLastError(err);
+            reject(err);
+          });
+        });
+      });
+
+      fetch.once('error', (err) => {
+        this.setLastError(err);
+        reject(err);
+      });
+    });
+  }
+
+  async markAsRead(id: string): Promise<boolean> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return false;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.imapClient) {
+        this.setLastError(new Error('IMAP client not initialized'));
+        resolve(false);
+        return;
+      }
+
+      this.imapClient.addFlags(id, '\\Seen', (err) => {
+        if (err) {
+          this.setLastError(err);
+          resolve(false);
+          return;
+        }
+        resolve(true);
+      });
+    });
+  }
+
+  async deleteMessage(id: string): Promise<boolean> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return false;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.imapClient) {
+        this.setLastError(new Error('IMAP client not initialized'));
+        resolve(false);
+        return;
+      }
+
+      // Standard IMAP deletion: flag the message, then expunge
+      this.imapClient.addFlags(id, '\\Deleted', (err) => {
+        if (err) {
+          this.setLastError(err);
+          resolve(false);
+          return;
+        }
+
+        this.imapClient?.expunge((err) => {
+          if (err) {
+            this.setLastError(err);
+            resolve(false);
+            return;
+          }
+          resolve(true);
+        });
+      });
+    });
+  }
+
+  async sendMail(message: {
+    from: string;
+    to: string | string[];
+    subject: string;
+    text?: string;
+    html?: string;
+    attachments?: Array<{
+      filename: string;
+      content: Buffer | string;
+      contentType?: string;
+    }>;
+  }): Promise<boolean> {
+    if (!this.smtpTransporter) {
+      this.setLastError(new Error('SMTP is not configured for this provider'));
+      return false;
+    }
+
+    try {
+      await this.smtpTransporter.sendMail(message);
+      return true;
+    } catch (error) {
+      this.setLastError(error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  async findMessageByHeader(folder: string, header: string, value: string): Promise<string | null> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return null;
+    }
+
+    return this.searchWithClient(this.imapClient, folder, [['HEADER', header, value]]);
+  }
+
+  async findMessageByUid(folder: string, uid: string): Promise<string | null> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return null;
+    }
+
+    return this.searchWithClient(this.imapClient, folder, [['UID', uid]]);
+  }
+
+  async moveMessage(messageId: string, targetFolder: string): Promise<MovedMessage | null> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return null;
+    }
+
+    return this.moveWithClient(this.imapClient, messageId, targetFolder);
+  }
+
+  async createFolder(folderPath: string): Promise<boolean> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return false;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.imapClient) {
+        this.setLastError(new Error('IMAP client not initialized'));
+        resolve(false);
+        return;
+      }
+
+      this.imapClient.addBox(folderPath, (err) => {
+        if (err) {
+          this.setLastError(err);
+          resolve(false);
+          return;
+        }
+        resolve(true);
+      });
+    });
+  }
+
+  /**
+   * Build the base64 SASL XOAUTH2 initial response expected by node-imap
+   */
+  private buildXOAuth2Token(user: string, accessToken: string): string {
+    return Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64');
+  }
+
+  /**
+   * Certificates are verified for remote servers. Local bridges (such as
+   * Proton Mail Bridge) present a self-signed certificate on the loopback
+   * interface, so verification is relaxed there only.
+   */
+  private getTlsOptions(host: string): { rejectUnauthorized: boolean } {
+    const isLoopback = host === 'localhost' || host === '::1' || host.startsWith('127.');
+    return { rejectUnauthorized: !isLoopback };
+  }
+
+  supportsIdle(): boolean {
+    return this.isConnected() && !!this.imapClient && this.imapClient.serverSupports('IDLE');
+  }
+
+  getProviderCapabilities() {
+    return {
+      oauth: this.connectionOptions?.auth.type === 'oauth2',
+      search: true,
+      labels: false,
+      filters: false,
+      folderCreation: true,
+      appendMessage: true
+    };
+  }
+}
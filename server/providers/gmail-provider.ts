@@ -1,12 +1,12 @@
 import * as IMAP from 'node-imap';
-import { simpleParser } from 'mailparser';
 import * as nodemailer from 'nodemailer';
 import { 
   ConnectionOptions,
   EmailMessage,
-  FolderInfo
+  FolderInfo,
+  MovedMessage
 } from './provider-interface';
-import { BaseEmailProvider } from './base-provider';
+import { BaseEmailProvider, SearchCriterion } from './base-provider';
 
 /**
  * Gmail Email Provider
@@ -101,7 +101,7 @@ export class GmailProvider extends BaseEmailProvider {
           resolve(true);
         });
 
-        this.imapClient.once('error', (err) => {
+        this.imapClient.on('error', (err) => {
           this.setLastError(err);
           this.setConnectionState(false);
           resolve(false);
@@ -111,6 +111,16 @@ export class GmailProvider extends BaseEmailProvider {
           this.setConnectionState(false);
         });
 
+        // Forward IDLE push notifications and connection drops to subscribers
+        this.imapClient.on('mail', (newMessageCount: number) => {
+          this.notifyNewMail(newMessageCount);
+        });
+
+        this.imapClient.once('close', () => {
+          this.setConnectionState(false);
+          this.notifyConnectionLost(this.lastError);
+        });
+
         // Connect to the server
         this.imapClient.connect();
       });
@@ -142,47 +152,15 @@ export class GmailProvider extends BaseEmailProvider {
       return [];
     }
 
-    return new Promise((resolve, reject) => {
-      if (!this.imapClient) {
-        reject(new Error('IMAP client not initialized'));
-        return;
-      }
-
-      this.imapClient.getBoxes((err, boxes) => {
-        if (err) {
-          this.setLastError(err);
-          reject(err);
-          return;
-        }
-
-        const folders: FolderInfo[] = [];
-        
-        // Process the boxes object to create a flat list of folders
-        const processBoxes = (boxObject: any, path = '') => {
-          for (const name in boxObject) {
-            const fullPath = path ? `${path}${this.imapClient?.delimiter || '/'}${name}` : name;
-            
-            // Gmail uses '[Gmail]' as a prefix for system folders
-            if (name === '[Gmail]' && boxObject[name].children) {
-              processBoxes(boxObject[name].children, fullPath);
-            } else {
-              folders.push({
-                name: name,
-                path: fullPath,
-                messageCount: -1 // We don't know the count until we select the folder
-              });
-  
-              if (boxObject[name].children) {
-                processBoxes(boxObject[name].children, fullPath);
-              }
-            }
-          }
-        };
-
-        processBoxes(boxes);
-        resolve(folders);
-      });
-    });
+    try {
+      const boxes = await this.fetchMailboxes(this.imapClient);
+      // Gmail uses '[Gmail]' as a non-selectable container for system folders
+      return this.flattenMailboxes(boxes, this.imapClient.delimiter || '/')
+        .filter(folder => folder.path !== '[Gmail]');
+    } catch (error) {
+      this.setLastError(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
   }
 
   async selectFolder(folderPath: string): Promise<boolean> {
@@ -198,13 +176,19 @@ export class GmailProvider extends BaseEmailProvider {
         return;
       }
 
-      this.imapClient.openBox(folderPath, false, (err) => {
+      this.imapClient.openBox(folderPath, false, (err, box) => {
         if (err) {
           this.setLastError(err);
           resolve(false);
           return;
         }
         this.currentFolder = folderPath;
+        this.folderStatus = {
+          path: folderPath,
+          uidValidity: box.uidvalidity,
+          uidNext: box.uidnext,
+          messageCount: box.messages.total
+        };
         resolve(true);
       });
     });
@@ -215,6 +199,7 @@ export class GmailProvider extends BaseEmailProvider {
     offset?: number;
     unreadOnly?: boolean;
     since?: Date;
+    sinceUid?: number;
   }): Promise<EmailMessage[]> {
     if (!this.isConnected() || !this.imapClient) {
       this.setLastError(new Error('Not connected to server'));
@@ -234,6 +219,7 @@ export class GmailProvider extends BaseEmailProvider {
     const offset = options?.offset || 0;
     const unreadOnly = options?.unreadOnly || false;
     const since = options?.since || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000); // Default to 1 week ago
+    const sinceUid = options?.sinceUid;
 
     return new Promise((resolve, reject) => {
       if (!this.imapClient) {
@@ -241,10 +227,11 @@ export class GmailProvider extends BaseEmailProvider {
         return;
       }
 
-      // Construct the search criteria
-      const searchCriteria = [
-        ['SINCE', since.toISOString().substring(0, 10)]
-      ];
+      // Construct the search criteria. Incremental syncs ask for every message
+      // above the last processed UID, read or not; otherwise search by date
+      const searchCriteria: SearchCriterion[] = sinceUid !== undefined
+        ? [['UID', `${sinceUid + 1}:*`]]
+        : [['SINCE', since.toISOString().substring(0, 10)]];
 
       if (unreadOnly) {
         searchCriteria.push('UNSEEN');
@@ -257,58 +244,54 @@ export class GmailProvider extends BaseEmailProvider {
           return;
         }
 
+        // `n:*` always matches the highest UID, even when it is not above n
+        const uids = sinceUid !== undefined ? results.filter(uid => uid > sinceUid) : results;
+
         // If no messages found, return empty array
-        if (!results.length) {
+        if (!uids.length || !this.imapClient) {
           resolve([]);
           return;
         }
 
-        // Sort results (newest first) and apply offset and limit
-        results.sort((a, b) => b - a);
-        const messageNumbers = results.slice(offset, offset + limit);
-
-        // Fetch the messages
-        const fetchOptions = {
-          bodies: ['HEADER.FIELDS (FROM TO SUBJECT DATE)', 'TEXT'],
-          struct: true
-        };
+        // Incremental syncs go oldest first so the checkpoint can advance batch
+        // by batch; otherwise newest first. Then apply offset and limit
+        uids.sort((a, b) => sinceUid !== undefined ? a - b : b - a);
+        const messageNumbers = uids.slice(offset, offset + limit);
 
+        // Fetch whole messages so attachments and every header reach the filters
         const messages: EmailMessage[] = [];
-        const fetch = this.imapClient.fetch(messageNumbers, fetchOptions);
-
-        fetch.on('message', (msg, seqno) => {
-          const message: any = {
-            id: seqno.toString(),
-            from: '',
-            to: '',
-            subject: '',
-            text: '',
-            date: new Date(),
-            headers: {}
-          };
-
-          msg.on('body', (stream, info) => {
-            let buffer = '';
-            stream.on('data', (chunk) => {
-              buffer += chunk.toString('utf8');
-            });
+        const parsing: Promise<void>[] = [];
+        const fetch = this.imapClient.fetch(messageNumbers, { bodies: [''] });
 
-            stream.once('end', () => {
-              if (info.which.includes('HEADER')) {
-                const header = IMAP.parseHeader(buffer);
-                message.from = header.from?.[0] || '';
-                message.to = header.to?.[0] || '';
-                message.subject = header.subject?.[0] || '';
-                message.date = header.date ? new Date(header.date[0]) : new Date();
-                message.headers = header;
-              } else {
-                message.text = buffer;
-              }
+        fetch.on('message', (msg) => {
+          let uid: number | undefined;
+          const chunks: Buffer[] = [];
+
+          msg.once('attributes', (attrs) => {
+            uid = attrs.uid;
+          });
+
+          msg.on('body', (stream) => {
+            stream.on('data', (chunk) => {
+              chunks.push(chunk);
             });
           });
 
+          // Use the UID as the message ID so flag and move operations
+          // (which are UID-based) address the right message
           msg.once('end', () => {
-            messages.push(message as EmailMessage);
+            const raw = Buffer.concat(chunks);
+            parsing.push(
+              this.parseMessage(String(uid), raw)
+                .then(message => {
+                  messages.push({ ...message, uid });
+                })
+                .catch(error => {
+                  // Pass it on anyway: dropping it would let the sync checkpoint move past it unchecked
+                  console.error(`Error parsing message ${uid}:`, error);
+                  messages.push({ ...this.unparsedMessage(String(uid), raw, error), uid });
+                })
+            );
           });
         });
 
@@ -317,7 +300,10 @@ export class GmailProvider extends BaseEmailProvider {
           reject(err);
         });
 
-        fetch.once('end', () => {
+        fetch.once('end', async () => {
+          await Promise.all(parsing);
+          // Parsing finishes in any order; restore the fetch order
+          messages.sort((a, b) => sinceUid !== undefined ? (a.uid || 0) - (b.uid || 0) : (b.uid || 0) - (a.uid || 0));
           resolve(messages);
         });
       });
@@ -342,33 +328,18 @@ export class GmailProvider extends BaseEmailProvider {
       };
 
       const fetch = this.imapClient.fetch(id, fetchOptions);
-      let messageBuffer = '';
+      const chunks: Buffer[] = [];
 
       fetch.on('message', (msg) => {
         msg.on('body', (stream) => {
           stream.on('data', (chunk) => {
-            messageBuffer += chunk.toString('utf8');
+            chunks.push(chunk);
           });
         });
 
         msg.once('end', () => {
           // Parse the raw message
-          simpleParser(messageBuffer).then(parsed => {
-            const message: EmailMessage = {
-              id,
-              from: parsed.from?.text || '',
-              to: parsed.to?.text || '',
-              subject: parsed.subject || '',
-              text: parsed.text || '',
-              html: parsed.html || undefined,
-              date: parsed.date || new Date(),
-              attachments: parsed.attachments?.map(att => ({
-                filename: att.filename || 'attachment',
-                contentType: att.contentType || 'application/octet-stream',
-                content: att.content
-              })),
-              headers: parsed.headers as Record<string, string>
-            };
+          this.parseMessage(id, Buffer.concat(chunks)).then(message => {
             resolve(message);
           }).catch(err => {
             this.setLastError(err);
@@ -423,7 +394,7 @@ export class GmailProvider extends BaseEmailProvider {
 
       // Gmail doesn't use the standard delete flag, it uses the Trash folder
       // So we'll move the message to the Trash folder instead
-      this.moveMessage(id, '[Gmail]/Trash').then(resolve).catch(() => resolve(false));
+      this.moveMessage(id, '[Gmail]/Trash').then(moved => resolve(moved !== null)).catch(() => resolve(false));
     });
   }
 
@@ -453,28 +424,31 @@ export class GmailProvider extends BaseEmailProvider {
     }
   }
 
-  async moveMessage(messageId: string, targetFolder: string): Promise<boolean> {
+  async findMessageByHeader(folder: string, header: string, value: string): Promise<string | null> {
     if (!this.isConnected() || !this.imapClient) {
       this.setLastError(new Error('Not connected to server'));
-      return false;
+      return null;
     }
 
-    return new Promise((resolve) => {
-      if (!this.imapClient) {
-        this.setLastError(new Error('IMAP client not initialized'));
-        resolve(false);
-        return;
-      }
+    return this.searchWithClient(this.imapClient, folder, [['HEADER', header, value]]);
+  }
 
-      this.imapClient.move(messageId, targetFolder, (err) => {
-        if (err) {
-          this.setLastError(err);
-          resolve(false);
-          return;
-        }
-        resolve(true);
-      });
-    });
+  async findMessageByUid(folder: string, uid: string): Promise<string | null> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return null;
+    }
+
+    return this.searchWithClient(this.imapClient, folder, [['UID', uid]]);
+  }
+
+  async moveMessage(messageId: string, targetFolder: string): Promise<MovedMessage | null> {
+    if (!this.isConnected() || !this.imapClient) {
+      this.setLastError(new Error('Not connected to server'));
+      return null;
+    }
+
+    return this.moveWithClient(this.imapClient, messageId, targetFolder);
   }
 
   async createFolder(folderPath: string): Promise<boolean> {
@@ -501,6 +475,10 @@ export class GmailProvider extends BaseEmailProvider {
     });
   }
 
+  supportsIdle(): boolean {
+    return this.isConnected() && !!this.imapClient && this.imapClient.serverSupports('IDLE');
+  }
+
   getProviderCapabilities() {
     return {
       oauth: true,
@@ -6,13 +6,20 @@ export * from './base-provider';
 export { ICloudProvider } from './icloud-provider';
 export { GmailProvider } from './gmail-provider';
 export { OutlookProvider } from './outlook-provider';
+export { GenericImapProvider } from './generic-provider';
 
 // Export factory and manager
 import { EmailProviderFactory } from './provider-factory';
 export { EmailProviderFactory };
 export type { ProviderType } from './provider-factory';
 export { EmailProviderManager } from './provider-manager';
+export type { ConnectionStats, PoolStats, OAuthTokenSet, TokenRefreshHandler } from './provider-manager';
 export { OAuthService } from './oauth-service';
+export type { OAuthStatePayload, PkcePair } from './oauth-service';
+export { providerPresets, getProviderPreset } from './provider-presets';
+export type { ProviderPreset } from './provider-presets';
+export { resolveSpecialFolders, findOrCreateFolder } from './folder-resolver';
+export type { FolderRole, ResolvedFolder, ResolvedFolders } from './folder-resolver';
 
 // Default export for convenience
 import { EmailProviderManager } from './provider-manager';
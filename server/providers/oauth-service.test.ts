@@ -0,0 +1,117 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OAuthService } from './oauth-service';
+import { EmailProvider } from '../../shared/schema';
+
+// A token endpoint that records each request and answers with the next queued response
+let server: Server;
+let tokenUrl: string;
+const requests: URLSearchParams[] = [];
+const responses: Array<{ status: number; body: object }> = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push(new URLSearchParams(body));
+      const next = responses.shift() || { status: 500, body: { error: 'no response queued' } };
+      res.writeHead(next.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(next.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+
+  const gmail: EmailProvider = {
+    id: 2,
+    name: 'Gmail',
+    provider_type: 'gmail',
+    imap_host: 'imap.gmail.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.gmail.com',
+    smtp_port: 465,
+    smtp_secure: true,
+    oauth_enabled: true,
+    oauth_client_id: 'client-id',
+    oauth_client_secret: 'client-secret',
+    oauth_redirect_uri: null,
+    oauth_auth_url: 'https://accounts.example.com/auth',
+    oauth_token_url: tokenUrl,
+    oauth_scope: 'https://mail.google.com/',
+    junk_folder_path: '[Gmail]/Spam',
+    authserv_ids: ['mx.google.com'],
+    writes_received_spf: true,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+  OAuthService.getInstance().setProviderSettings([gmail]);
+});
+
+after(() => {
+  server.close();
+});
+
+test('exchanges an authorization code with the PKCE verifier', async () => {
+  responses.push({ status: 200, body: { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600, token_type: 'Bearer' } });
+
+  const before = Date.now();
+  const tokens = await OAuthService.getInstance().exchangeCodeForTokens('gmail', 'the-code', 'http://localhost/callback', 'the-verifier');
+
+  assert.ok(tokens);
+  assert.equal(tokens.accessToken, 'access-1');
+  assert.equal(tokens.refreshToken, 'refresh-1');
+  assert.ok(tokens.expiresAt.getTime() >= before + 3599 * 1000);
+
+  const request = requests[requests.length - 1];
+  assert.equal(request.get('grant_type'), 'authorization_code');
+  assert.equal(request.get('code'), 'the-code');
+  assert.equal(request.get('code_verifier'), 'the-verifier');
+  assert.equal(request.get('redirect_uri'), 'http://localhost/callback');
+  assert.equal(request.get('client_id'), 'client-id');
+  assert.equal(request.get('client_secret'), 'client-secret');
+});
+
+test('refreshes an access token and passes on a rotated refresh token', async () => {
+  responses.push({ status: 200, body: { access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 60, token_type: 'Bearer' } });
+
+  const tokens = await OAuthService.getInstance().refreshAccessToken('gmail', 'refresh-1');
+
+  assert.ok(tokens);
+  assert.equal(tokens.accessToken, 'access-2');
+  assert.equal(tokens.refreshToken, 'refresh-2');
+  const request = requests[requests.length - 1];
+  assert.equal(request.get('grant_type'), 'refresh_token');
+  assert.equal(request.get('refresh_token'), 'refresh-1');
+});
+
+test('returns null when the token endpoint refuses the request', async () => {
+  responses.push({ status: 400, body: { error: 'invalid_grant' } });
+
+  const tokens = await OAuthService.getInstance().exchangeCodeForTokens('gmail', 'bad-code', 'http://localhost/callback', 'the-verifier');
+
+  assert.equal(tokens, null);
+});
+
+test('rejects a state whose payload was changed', () => {
+  const oauthService = OAuthService.getInstance();
+  const { state } = oauthService.createSignedState({ providerType: 'gmail', userId: 1, childAccountId: 1, sessionHash: 'session' });
+  assert.ok(oauthService.verifySignedState(state));
+
+  const [encoded, signature] = state.split('.');
+  const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  const forged = Buffer.from(JSON.stringify({ ...payload, childAccountId: 2 })).toString('base64url');
+  assert.equal(oauthService.verifySignedState(`${forged}.${signature}`), null);
+});
+
+test('drops connect flows older than a state may be', () => {
+  const flows = OAuthService.getInstance().pruneExpiredFlows({
+    fresh: { createdAt: Date.now() - 60 * 1000 },
+    stale: { createdAt: Date.now() - 60 * 60 * 1000 }
+  });
+
+  assert.deepEqual(Object.keys(flows), ['fresh']);
+});
@@ -1,3 +1,4 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
 import { EmailProvider } from '../../shared/schema';
 import { ProviderType } from './provider-factory';
 
@@ -13,6 +14,31 @@ interface OAuthTokenResponse {
   token_type: string;
 }
 
+/**
+ * OAuth State Payload
+ * 
+ * The data carried in the signed `state` parameter. It binds the authorization
+ * request to the parent's session and the child account being connected.
+ */
+export interface OAuthStatePayload {
+  providerType: ProviderType;
+  userId: number;
+  childAccountId: number;
+  sessionHash: string;
+  nonce: string;
+  issuedAt: number;
+}
+
+/**
+ * PKCE Pair
+ * 
+ * A PKCE code verifier (kept server-side) and its S256 challenge (sent to the provider).
+ */
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
 /**
  * OAuth Service
  * 
@@ -21,6 +47,8 @@ interface OAuthTokenResponse {
 export class OAuthService {
   private static instance: OAuthService;
   private providerSettings: Map<ProviderType, EmailProvider> = new Map();
+  private stateSecret: string = process.env.OAUTH_STATE_SECRET || process.env.SESSION_SECRET || 'kidmail-protector-secret';
+  private stateMaxAge: number = 10 * 60 * 1000; // 10 minutes
 
   private constructor() {}
 
@@ -48,32 +76,68 @@ export class OAuthService {
     });
   }
 
+  /**
+   * Check whether a provider has OAuth2 configured
+   * @param providerType The type of email provider
+   * @returns True if the provider has OAuth enabled with a client ID and endpoints
+   */
+  isConfigured(providerType: ProviderType): boolean {
+    const providerSettings = this.providerSettings.get(providerType);
+    return !!(
+      providerSettings &&
+      providerSettings.oauth_enabled &&
+      providerSettings.oauth_client_id &&
+      providerSettings.oauth_auth_url &&
+      providerSettings.oauth_token_url
+    );
+  }
+
+  /**
+   * Get the redirect URI registered for a provider
+   * @param providerType The type of email provider
+   * @returns The configured redirect URI, or null if none is set
+   */
+  getRedirectUri(providerType: ProviderType): string | null {
+    return this.providerSettings.get(providerType)?.oauth_redirect_uri || null;
+  }
+
   /**
    * Get the OAuth2 authorization URL for a provider
    * @param providerType The type of email provider
-   * @param redirectUri The redirect URI to use (override provider default)
+   * @param options The signed state, PKCE challenge and redirect URI for this request
    * @returns The authorization URL to redirect the user to
    */
-  getAuthorizationUrl(providerType: ProviderType, redirectUri?: string): string | null {
+  getAuthorizationUrl(providerType: ProviderType, options: {
+    state: string;
+    codeChallenge: string;
+    redirectUri: string;
+    loginHint?: string;
+  }): string | null {
     const providerSettings = this.providerSettings.get(providerType);
     
-    if (!providerSettings || !providerSettings.oauth_enabled) {
+    if (!providerSettings || !this.isConfigured(providerType)) {
       console.error(`Provider ${providerType} does not support OAuth or is not configured`);
       return null;
     }
     
     // Build authorization URL with query parameters
     try {
-      const authUrl = new URL(providerSettings.oauth_auth_url);
+      const authUrl = new URL(providerSettings.oauth_auth_url!);
       
       // Common OAuth parameters
-      authUrl.searchParams.append('client_id', providerSettings.oauth_client_id);
-      authUrl.searchParams.append('redirect_uri', redirectUri || providerSettings.oauth_redirect_uri);
+      authUrl.searchParams.append('client_id', providerSettings.oauth_client_id!);
+      authUrl.searchParams.append('redirect_uri', options.redirectUri);
       authUrl.searchParams.append('response_type', 'code');
-      authUrl.searchParams.append('scope', providerSettings.oauth_scope);
+      authUrl.searchParams.append('scope', providerSettings.oauth_scope || '');
+      authUrl.searchParams.append('state', options.state);
       
-      // Add state parameter for security
-      authUrl.searchParams.append('state', this.generateStateParam());
+      // PKCE (RFC 7636)
+      authUrl.searchParams.append('code_challenge', options.codeChallenge);
+      authUrl.searchParams.append('code_challenge_method', 'S256');
+      
+      if (options.loginHint) {
+        authUrl.searchParams.append('login_hint', options.loginHint);
+      }
       
       // Provider-specific parameters
       if (providerType === 'gmail') {
@@ -93,12 +157,14 @@ export class OAuthService {
    * @param providerType The type of email provider
    * @param code The authorization code from the OAuth callback
    * @param redirectUri The redirect URI used in the authorization request
+   * @param codeVerifier The PKCE code verifier matching the request's challenge
    * @returns The token response or null if an error occurred
    */
   async exchangeCodeForTokens(
     providerType: ProviderType,
     code: string,
-    redirectUri?: string
+    redirectUri: string,
+    codeVerifier: string
   ): Promise<{
     accessToken: string;
     refreshToken: string;
@@ -106,7 +172,7 @@ export class OAuthService {
   } | null> {
     const providerSettings = this.providerSettings.get(providerType);
     
-    if (!providerSettings || !providerSettings.oauth_enabled) {
+    if (!providerSettings || !this.isConfigured(providerType)) {
       console.error(`Provider ${providerType} does not support OAuth or is not configured`);
       return null;
     }
@@ -114,14 +180,17 @@ export class OAuthService {
     try {
       // Build token request body
       const body = new URLSearchParams();
-      body.append('client_id', providerSettings.oauth_client_id);
-      body.append('client_secret', providerSettings.oauth_client_secret);
+      body.append('client_id', providerSettings.oauth_client_id!);
+      if (providerSettings.oauth_client_secret) {
+        body.append('client_secret', providerSettings.oauth_client_secret);
+      }
       body.append('code', code);
       body.append('grant_type', 'authorization_code');
-      body.append('redirect_uri', redirectUri || providerSettings.oauth_redirect_uri);
+      body.append('redirect_uri', redirectUri);
+      body.append('code_verifier', codeVerifier);
       
       // Send token request
-      const response = await fetch(providerSettings.oauth_token_url, {
+      const response = await fetch(providerSettings.oauth_token_url!, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -157,18 +226,19 @@ export class OAuthService {
    * Refresh an expired access token using the refresh token
    * @param providerType The type of email provider
    * @param refreshToken The refresh token to use
-   * @returns The new access token and expiration date, or null if an error occurred
+   * @returns The new access token, rotated refresh token (if any) and expiration date, or null if an error occurred
    */
   async refreshAccessToken(
     providerType: ProviderType,
     refreshToken: string
   ): Promise<{
     accessToken: string;
+    refreshToken?: string;
     expiresAt: Date;
   } | null> {
     const providerSettings = this.providerSettings.get(providerType);
     
-    if (!providerSettings || !providerSettings.oauth_enabled) {
+    if (!providerSettings || !this.isConfigured(providerType)) {
       console.error(`Provider ${providerType} does not support OAuth or is not configured`);
       return null;
     }
@@ -176,13 +246,15 @@ export class OAuthService {
     try {
       // Build token request body
       const body = new URLSearchParams();
-      body.append('client_id', providerSettings.oauth_client_id);
-      body.append('client_secret', providerSettings.oauth_client_secret);
+      body.append('client_id', providerSettings.oauth_client_id!);
+      if (providerSettings.oauth_client_secret) {
+        body.append('client_secret', providerSettings.oauth_client_secret);
+      }
       body.append('refresh_token', refreshToken);
       body.append('grant_type', 'refresh_token');
       
       // Send token request
-      const response = await fetch(providerSettings.oauth_token_url, {
+      const response = await fetch(providerSettings.oauth_token_url!, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -203,8 +275,10 @@ export class OAuthService {
       const expiresAt = new Date();
       expiresAt.setSeconds(expiresAt.getSeconds() + tokenResponse.expires_in);
       
+      // Some providers (e.g. Microsoft) rotate the refresh token on every use
       return {
         accessToken: tokenResponse.access_token,
+        refreshToken: tokenResponse.refresh_token,
         expiresAt
       };
     } catch (error) {
@@ -214,16 +288,85 @@ export class OAuthService {
   }
 
   /**
-   * Generate a random state parameter for OAuth requests
-   * @returns A random string to use as the state parameter
+   * Generate a PKCE code verifier and its S256 challenge
+   * @returns The verifier to keep server-side and the challenge to send
    */
-  private generateStateParam(): string {
-    const randomBytes = new Uint8Array(16);
-    for (let i = 0; i < 16; i++) {
-      randomBytes[i] = Math.floor(Math.random() * 256);
+  generatePkcePair(): PkcePair {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    return { codeVerifier, codeChallenge };
+  }
+
+  /**
+   * Hash a session ID for embedding in the state parameter, so the raw
+   * session ID never leaves the server
+   * @param sessionId The Express session ID
+   * @returns A hex digest of the session ID
+   */
+  hashSessionId(sessionId: string): string {
+    return createHash('sha256').update(sessionId).digest('hex');
+  }
+
+  /**
+   * Create a signed state parameter for an authorization request
+   * @param payload The parent, session and child account the request is bound to
+   * @returns The state string: base64url JSON payload and HMAC signature
+   */
+  createSignedState(payload: Omit<OAuthStatePayload, 'nonce' | 'issuedAt'>): { state: string; nonce: string } {
+    const fullPayload: OAuthStatePayload = {
+      ...payload,
+      nonce: randomBytes(16).toString('hex'),
+      issuedAt: Date.now()
+    };
+    const encoded = Buffer.from(JSON.stringify(fullPayload)).toString('base64url');
+    return {
+      state: `${encoded}.${this.signState(encoded)}`,
+      nonce: fullPayload.nonce
+    };
+  }
+
+  /**
+   * Verify a state parameter's signature and age
+   * @param state The state string returned by the provider
+   * @returns The decoded payload, or null if the state is forged, malformed or expired
+   */
+  verifySignedState(state: string): OAuthStatePayload | null {
+    const [encoded, signature] = state.split('.');
+    if (!encoded || !signature) {
+      return null;
+    }
+    
+    const expected = Buffer.from(this.signState(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+    
+    try {
+      const payload: OAuthStatePayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      if (typeof payload.issuedAt !== 'number' || Date.now() - payload.issuedAt > this.stateMaxAge) {
+        return null;
+      }
+      return payload;
+    } catch (error) {
+      return null;
     }
-    return Array.from(randomBytes)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
+  }
+
+  /**
+   * Drop in-flight connect flows older than their state may be, so abandoned
+   * flows do not stay in the session
+   * @param flows The session's flows, keyed by the state nonce
+   * @returns The flows that can still be completed
+   */
+  pruneExpiredFlows<T extends { createdAt: number }>(flows: Record<string, T> = {}): Record<string, T> {
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(flows).filter(([, flow]) => now - flow.createdAt <= this.stateMaxAge)
+    );
+  }
+
+  private signState(encodedPayload: string): string {
+    return createHmac('sha256', this.stateSecret).update(encodedPayload).digest('base64url');
   }
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ import { EmailProviderInterface } from './provider-interface';
 import { ICloudProvider } from './icloud-provider';
 import { GmailProvider } from './gmail-provider';
 import { OutlookProvider } from './outlook-provider';
+import { GenericImapProvider } from './generic-provider';
+import { providerPresets } from './provider-presets';
 
 // Add more provider types as they are implemented
 export type ProviderType = 'icloud' | 'gmail' | 'outlook' | 'yahoo' | 'aol' | 'protonmail' | 'zoho' | 'other';
@@ -13,52 +15,32 @@ export type ProviderType = 'icloud' | 'gmail' | 'outlook' | 'yahoo' | 'aol' | 'p
  * instance based on the provider type.
  */
 export class EmailProviderFactory {
-  // Cache provider instances to avoid recreating them
-  private static providerInstances: Map<ProviderType, EmailProviderInterface> = new Map();
-
   /**
-   * Create and return an email provider instance based on the provider type
+   * Create a new email provider instance based on the provider type.
+   * Every call returns an independent instance: providers hold per-account
+   * connection state (IMAP session, selected folder, credentials), so they
+   * must never be shared between child accounts.
    * @param providerType The type of email provider to create
-   * @returns An instance of the appropriate email provider
+   * @returns A new instance of the appropriate email provider
    */
-  static getProvider(providerType: ProviderType): EmailProviderInterface {
-    // Check if we already have an instance for this provider type
-    if (this.providerInstances.has(providerType)) {
-      const provider = this.providerInstances.get(providerType);
-      if (provider) {
-        return provider;
-      }
-    }
-
-    // Create a new instance based on the provider type
-    let provider: EmailProviderInterface;
-
+  static createProvider(providerType: ProviderType): EmailProviderInterface {
     switch (providerType) {
       case 'icloud':
-        provider = new ICloudProvider();
-        break;
+        return new ICloudProvider();
       case 'gmail':
-        provider = new GmailProvider();
-        break;
+        return new GmailProvider();
       case 'outlook':
-        provider = new OutlookProvider();
-        break;
-      // Add more cases as more providers are implemented
+        return new OutlookProvider();
+      // Providers without quirks of their own are driven entirely by their
+      // email_providers row (host, port, TLS, junk folder)
       case 'yahoo':
       case 'aol':
       case 'protonmail':
       case 'zoho':
       case 'other':
       default:
-        // Default to ICloudProvider for now, we can implement more providers later
-        console.warn(`Provider type '${providerType}' not fully implemented yet, falling back to iCloud provider`);
-        provider = new ICloudProvider();
-        break;
+        return new GenericImapProvider();
     }
-
-    // Cache the instance for future use
-    this.providerInstances.set(providerType, provider);
-    return provider;
   }
 
   /**
@@ -67,7 +49,7 @@ export class EmailProviderFactory {
    * @returns True if the provider type is supported, false otherwise
    */
   static isProviderSupported(providerType: ProviderType): boolean {
-    return ['icloud', 'gmail', 'outlook'].includes(providerType);
+    return Object.prototype.hasOwnProperty.call(providerPresets, providerType);
   }
 
   /**
@@ -75,7 +57,7 @@ export class EmailProviderFactory {
    * @returns An array of supported provider types
    */
   static getSupportedProviders(): ProviderType[] {
-    return ['icloud', 'gmail', 'outlook'];
+    return Object.keys(providerPresets) as ProviderType[];
   }
 
   /**
@@ -20,12 +20,41 @@ export interface EmailMessage {
     content: Buffer;
   }>;
   headers?: Record<string, string>;
+  // IMAP UID within the folder, for incremental sync
+  uid?: number;
+  // Message-ID header, which survives moves between folders
+  messageIdHeader?: string;
+  // Set when the message could not be parsed; only its headers are filled in
+  parseError?: string;
+  // Full message source, kept for DKIM verification
+  raw?: Buffer;
 }
 
+export interface FolderStatus {
+  path: string;
+  uidValidity: number;
+  uidNext: number;
+  messageCount: number;
+}
+
+// Where a moved message ended up. The UID is null when the server did not
+// report it and it could not be worked out.
+export interface MovedMessage {
+  folder: string;
+  uid: string | null;
+  uidValidity: number | null;
+}
+
+export type SpecialUseFolder = 'inbox' | 'junk' | 'trash' | 'sent' | 'drafts' | 'archive' | 'all' | 'flagged';
+
 export interface FolderInfo {
   name: string;
   path: string;
   messageCount: number;
+  // Raw LIST/XLIST attributes, e.g. '\\Junk' or '\\HasNoChildren'
+  attributes: string[];
+  // Folder role advertised by the server via SPECIAL-USE (RFC 6154) or XLIST
+  specialUse?: SpecialUseFolder;
 }
 
 export interface ConnectionOptions {
@@ -40,6 +69,19 @@ export interface ConnectionOptions {
     accessToken?: string;
     expiry?: Date;
   };
+  // Outgoing server settings, for providers that don't hard-code their SMTP host
+  smtp?: {
+    host: string;
+    port: number;
+    secure: boolean;
+  };
+}
+
+export interface MailboxEventHandlers {
+  // Called when the server pushes new messages into the selected folder
+  onNewMail?: (newMessageCount: number) => void;
+  // Called when the underlying connection closes for any reason
+  onConnectionLost?: (error?: Error) => void;
 }
 
 export interface EmailProviderInterface {
@@ -48,13 +90,17 @@ export interface EmailProviderInterface {
   disconnect(): Promise<void>;
   isConnected(): boolean;
   refreshConnection(): Promise<boolean>;
+  getLastError(): Error | undefined;
   
   // Folder operations
   listFolders(): Promise<FolderInfo[]>;
   selectFolder(folderPath: string): Promise<boolean>;
+  getFolderStatus(): FolderStatus | undefined;
   createFolder(folderPath: string): Promise<boolean>;
   deleteFolder(folderPath: string): Promise<boolean>;
-  moveMessage(messageId: string, targetFolder: string): Promise<boolean>;
+  moveMessage(messageId: string, targetFolder: string): Promise<MovedMessage | null>;
+  findMessageByHeader(folder: string, header: string, value: string): Promise<string | null>;
+  findMessageByUid(folder: string, uid: string): Promise<string | null>;
   
   // Message operations
   listMessages(folder?: string, options?: {
@@ -62,6 +108,8 @@ export interface EmailProviderInterface {
     offset?: number;
     unreadOnly?: boolean;
     since?: Date;
+    // Only messages with a UID above this one, read or unread, oldest first
+    sinceUid?: number;
   }): Promise<EmailMessage[]>;
   
   getMessage(id: string): Promise<EmailMessage | null>;
@@ -82,6 +130,10 @@ export interface EmailProviderInterface {
     }>;
   }): Promise<boolean>;
   
+  // Push notifications (IMAP IDLE) for the currently selected folder
+  supportsIdle(): boolean;
+  subscribe(handlers: MailboxEventHandlers): () => void;
+  
   // Provider-specific features
   getProviderCapabilities(): {
     oauth: boolean;
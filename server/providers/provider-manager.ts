@@ -1,5 +1,7 @@
 import { EmailProviderInterface, ConnectionOptions } from './provider-interface';
 import { EmailProviderFactory, ProviderType } from './provider-factory';
+import { OAuthService } from './oauth-service';
+import { credentialVault } from '../credential-vault';
 import { ChildAccount, EmailProvider } from '../../shared/schema';
 
 /**
@@ -15,8 +17,65 @@ interface ConnectionPoolEntry {
   lastUsed: Date;
   isConnected: boolean;
   connectionError?: Error;
+  // Pinned connections (e.g. held open for IMAP IDLE) are never reaped as idle
+  pinned: boolean;
+  createdAt: Date;
+  useCount: number;
+  errorCount: number;
+  lastErrorAt?: Date;
 }
 
+/**
+ * Connection Stats
+ * 
+ * Per-connection statistics reported by the pool stats API.
+ */
+export interface ConnectionStats {
+  accountId: number;
+  providerType: ProviderType;
+  isConnected: boolean;
+  pinned: boolean;
+  busy: boolean;
+  createdAt: Date;
+  lastUsed: Date;
+  idleMs: number;
+  useCount: number;
+  errorCount: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+/**
+ * Pool Stats
+ * 
+ * Snapshot of the whole connection pool.
+ */
+export interface PoolStats {
+  size: number;
+  maxPoolSize: number;
+  idleTimeoutMs: number;
+  connections: ConnectionStats[];
+}
+
+/**
+ * OAuth Token Set
+ * 
+ * The current OAuth2 credentials for an account.
+ */
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * Token Refresh Handler
+ * 
+ * Called after the manager refreshes an account's access token so the new
+ * tokens can be persisted.
+ */
+export type TokenRefreshHandler = (accountId: number, tokens: OAuthTokenSet) => Promise<void>;
+
 /**
  * Email Provider Manager
  * 
@@ -26,12 +85,18 @@ interface ConnectionPoolEntry {
 export class EmailProviderManager {
   private static instance: EmailProviderManager;
   private connectionPool: Map<number, ConnectionPoolEntry> = new Map();
-  private providerSettings: Map<ProviderType, EmailProvider> = new Map();
+  private providerSettings: Map<number, EmailProvider> = new Map();
+  // Tail of each account's lock queue; a pending promise means the connection is in use
+  private connectionLocks: Map<number, Promise<void>> = new Map();
+  // Latest OAuth tokens per account; callers may hold account snapshots from before a refresh
+  private oauthTokens: Map<number, OAuthTokenSet> = new Map();
+  private tokenRefreshHandler: TokenRefreshHandler | null = null;
   
   // Connection pool configuration
   private maxPoolSize: number = 20;
   private connectionTimeout: number = 30 * 1000; // 30 seconds
   private idleTimeout: number = 5 * 60 * 1000; // 5 minutes
+  private tokenRefreshMargin: number = 5 * 60 * 1000; // refresh tokens expiring within 5 minutes
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   private constructor() {
@@ -57,8 +122,90 @@ export class EmailProviderManager {
   setProviderSettings(settings: EmailProvider[]): void {
     this.providerSettings.clear();
     settings.forEach(setting => {
-      this.providerSettings.set(setting.provider_type as ProviderType, setting);
+      this.providerSettings.set(setting.id, setting);
     });
+    
+    // Token refreshes need the same OAuth client settings
+    OAuthService.getInstance().setProviderSettings(settings);
+  }
+
+  /**
+   * Set the handler used to persist refreshed OAuth tokens
+   * @param handler Called with the account ID and new tokens after each refresh
+   */
+  setTokenRefreshHandler(handler: TokenRefreshHandler): void {
+    this.tokenRefreshHandler = handler;
+  }
+
+  /**
+   * Get valid OAuth tokens for an account, refreshing the access token first
+   * if it is missing, expired or about to expire
+   * @param account The child account to get tokens for, with decrypted secrets
+   * @param providerType The account's provider type
+   * @returns The tokens to connect with
+   */
+  private async getFreshOAuthTokens(account: ChildAccount, providerType: ProviderType): Promise<OAuthTokenSet> {
+    let tokens: OAuthTokenSet = {
+      accessToken: account.oauth_token || '',
+      refreshToken: account.oauth_refresh_token,
+      expiresAt: account.token_expiry || new Date(0)
+    };
+    
+    // Prefer tokens we refreshed ourselves unless the account was reconnected since
+    const cached = this.oauthTokens.get(account.id);
+    if (cached && cached.expiresAt.getTime() >= tokens.expiresAt.getTime()) {
+      tokens = cached;
+    }
+    
+    const expiresSoon = tokens.expiresAt.getTime() - Date.now() < this.tokenRefreshMargin;
+    if ((!tokens.accessToken || expiresSoon) && tokens.refreshToken) {
+      const refreshed = await OAuthService.getInstance().refreshAccessToken(providerType, tokens.refreshToken);
+      
+      if (refreshed) {
+        tokens = {
+          accessToken: refreshed.accessToken,
+          refreshToken: refreshed.refreshToken || tokens.refreshToken,
+          expiresAt: refreshed.expiresAt
+        };
+        
+        if (this.tokenRefreshHandler) {
+          try {
+            await this.tokenRefreshHandler(account.id, tokens);
+          } catch (error) {
+            console.error(`Error saving refreshed tokens for account ${account.id}:`, error);
+          }
+        }
+      } else {
+        console.error(`Failed to refresh OAuth token for account ${account.id}`);
+      }
+    }
+    
+    this.oauthTokens.set(account.id, tokens);
+    return tokens;
+  }
+
+  /**
+   * Get the provider settings row for an account, with the account's own
+   * servers in place of the provider's when it has them
+   * @param account The child account to look up settings for
+   * @returns The account's provider settings, or undefined if not loaded
+   */
+  private getProviderSettingsForAccount(account: ChildAccount): EmailProvider | undefined {
+    const settings = this.providerSettings.get(account.provider_id);
+    if (!settings || !account.custom_imap_host) {
+      return settings;
+    }
+    
+    // Accounts on providers without a preset bring their own servers
+    return {
+      ...settings,
+      imap_host: account.custom_imap_host,
+      imap_port: account.custom_imap_port ?? settings.imap_port,
+      imap_secure: account.custom_imap_secure ?? settings.imap_secure,
+      smtp_host: account.custom_smtp_host || settings.smtp_host,
+      smtp_port: account.custom_smtp_port ?? settings.smtp_port,
+      smtp_secure: account.custom_smtp_secure ?? settings.smtp_secure
+    };
   }
 
   /**
@@ -73,11 +220,19 @@ export class EmailProviderManager {
     if (this.connectionPool.has(accountId)) {
       const entry = this.connectionPool.get(accountId)!;
       
+      // If the account was moved to a different provider, start over with a new instance
+      const providerType = (this.getProviderSettingsForAccount(account)?.provider_type || 'icloud') as ProviderType;
+      if (entry.providerType !== providerType) {
+        await this.disconnectProvider(accountId);
+        return await this.createNewConnection(account);
+      }
+      
       // Update last used time
       entry.lastUsed = new Date();
+      entry.useCount++;
       
       // If the provider is connected, return it
-      if (entry.isConnected) {
+      if (entry.isConnected && entry.provider.isConnected()) {
         return entry.provider;
       }
       
@@ -89,7 +244,8 @@ export class EmailProviderManager {
         return entry.provider;
       } else {
         // Connection failed, return null
-        entry.connectionError = entry.provider.getLastError();
+        entry.isConnected = false;
+        this.recordError(entry, entry.provider.getLastError());
         return null;
       }
     }
@@ -98,6 +254,97 @@ export class EmailProviderManager {
     return await this.createNewConnection(account);
   }
 
+  /**
+   * Run a task against an account's provider while holding that account's
+   * connection lock. Tasks for the same account run one at a time, so two
+   * concurrent checks can never interleave folder selection on one IMAP session.
+   * @param account The child account whose provider to use
+   * @param task The work to perform with the connected provider
+   * @param options keepSelection selects the task's starting folder again when
+   * it is done, for one-off work in other folders: IDLE watches whichever folder
+   * is selected, so it must stay on the one monitoring left it on
+   * @returns The task's result
+   */
+  async withProvider<T>(
+    account: ChildAccount,
+    task: (provider: EmailProviderInterface) => Promise<T>,
+    options: { keepSelection?: boolean } = {}
+  ): Promise<T> {
+    const release = await this.acquireLock(account.id);
+    
+    try {
+      const provider = await this.getProviderForAccount(account);
+      if (!provider) {
+        throw new Error(`Failed to get provider for account ${account.id}`);
+      }
+      
+      const selectedFolder = options.keepSelection ? provider.getFolderStatus()?.path : undefined;
+      try {
+        return await task(provider);
+      } catch (error) {
+        const entry = this.connectionPool.get(account.id);
+        if (entry) {
+          this.recordError(entry, error instanceof Error ? error : new Error(String(error)));
+        }
+        throw error;
+      } finally {
+        if (selectedFolder && provider.getFolderStatus()?.path !== selectedFolder && !(await provider.selectFolder(selectedFolder))) {
+          console.error(`Failed to reselect ${selectedFolder} for account ${account.id}:`, provider.getLastError());
+        }
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Wait for an account's connection lock
+   * @param accountId The ID of the account to lock
+   * @returns A function that releases the lock
+   */
+  private async acquireLock(accountId: number): Promise<() => void> {
+    const previous = this.connectionLocks.get(accountId) || Promise.resolve();
+    
+    let releaseLock: () => void = () => {};
+    const current = new Promise<void>(resolve => {
+      releaseLock = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.connectionLocks.set(accountId, tail);
+    
+    await previous;
+    
+    return () => {
+      releaseLock();
+      // Drop the queue once nobody else is waiting
+      if (this.connectionLocks.get(accountId) === tail) {
+        this.connectionLocks.delete(accountId);
+      }
+    };
+  }
+
+  /**
+   * Record an error against a pool entry for the stats API
+   */
+  private recordError(entry: ConnectionPoolEntry, error?: Error): void {
+    entry.connectionError = error;
+    entry.errorCount++;
+    entry.lastErrorAt = new Date();
+  }
+
+  /**
+   * Pin or unpin an account's pooled connection. Pinned connections are kept
+   * open by the idle cleanup and are never evicted as least recently used.
+   * @param accountId The ID of the account whose connection to pin
+   * @param pinned Whether the connection should be pinned
+   */
+  setConnectionPinned(accountId: number, pinned: boolean): void {
+    const entry = this.connectionPool.get(accountId);
+    if (entry) {
+      entry.pinned = pinned;
+    }
+  }
+
   /**
    * Disconnect and remove a provider connection from the pool
    * @param accountId The ID of the account to disconnect
@@ -147,39 +394,37 @@ export class EmailProviderManager {
       this.disconnectLeastRecentlyUsed();
     }
     
-    // Determine the provider type from the account
-    const providerType = account.provider as ProviderType || 'icloud';
+    // Determine the provider type from the account's provider settings
+    const providerType = (this.getProviderSettingsForAccount(account)?.provider_type || 'icloud') as ProviderType;
     
-    // Get a provider instance from the factory
-    const provider = EmailProviderFactory.getProvider(providerType);
+    // Every account gets its own provider instance, so accounts on the same
+    // provider never share an IMAP session
+    const provider = EmailProviderFactory.createProvider(providerType);
     
     // Connect to the provider
     const connected = await this.connectProvider(account, provider);
     
-    if (connected) {
-      // Add to the connection pool
-      this.connectionPool.set(account.id, {
-        provider,
-        accountId: account.id,
-        providerType,
-        lastUsed: new Date(),
-        isConnected: true
-      });
-      
-      return provider;
-    } else {
+    const entry: ConnectionPoolEntry = {
+      provider,
+      accountId: account.id,
+      providerType,
+      lastUsed: new Date(),
+      isConnected: connected,
+      pinned: false,
+      createdAt: new Date(),
+      useCount: 1,
+      errorCount: 0
+    };
+    
+    if (!connected) {
       // Connection failed
-      this.connectionPool.set(account.id, {
-        provider,
-        accountId: account.id,
-        providerType,
-        lastUsed: new Date(),
-        isConnected: false,
-        connectionError: provider.getLastError()
-      });
-      
-      return null;
+      this.recordError(entry, provider.getLastError());
     }
+    
+    // Add to the connection pool
+    this.connectionPool.set(account.id, entry);
+    
+    return connected ? provider : null;
   }
 
   /**
@@ -190,15 +435,17 @@ export class EmailProviderManager {
    */
   private async connectProvider(account: ChildAccount, provider: EmailProviderInterface): Promise<boolean> {
     // Get provider settings
-    const providerType = account.provider as ProviderType || 'icloud';
-    const providerSettings = this.providerSettings.get(providerType);
+    const providerSettings = this.getProviderSettingsForAccount(account);
     
     if (!providerSettings) {
-      console.error(`No provider settings found for provider type: ${providerType}`);
+      console.error(`No provider settings found for provider ID: ${account.provider_id}`);
       return false;
     }
     
     try {
+      // Secrets are stored encrypted; only decrypt them for the connection attempt
+      const credentials = credentialVault.decryptAccountSecrets(account);
+      
       // Prepare connection options
       const connectionOptions: ConnectionOptions = {
         host: providerSettings.imap_host,
@@ -208,23 +455,31 @@ export class EmailProviderManager {
         auth: {
           type: account.auth_method as any,
           value: ''
+        },
+        smtp: {
+          host: providerSettings.smtp_host,
+          port: providerSettings.smtp_port,
+          secure: providerSettings.smtp_secure
         }
       };
       
       // Set the auth value based on auth method
       switch (account.auth_method) {
         case 'password':
-          connectionOptions.auth.value = account.password || '';
+          connectionOptions.auth.value = credentials.password || '';
           break;
         case 'app_password':
-          connectionOptions.auth.value = account.app_password || '';
+          connectionOptions.auth.value = credentials.app_password || '';
           break;
-        case 'oauth2':
+        case 'oauth2': {
+          const providerType = providerSettings.provider_type as ProviderType;
+          const tokens = await this.getFreshOAuthTokens(credentials, providerType);
           connectionOptions.auth.value = '';
-          connectionOptions.auth.accessToken = account.oauth_token || '';
-          connectionOptions.auth.refreshToken = account.oauth_refresh_token || '';
-          connectionOptions.auth.expiry = account.token_expiry || new Date();
+          connectionOptions.auth.accessToken = tokens.accessToken;
+          connectionOptions.auth.refreshToken = tokens.refreshToken || '';
+          connectionOptions.auth.expiry = tokens.expiresAt;
           break;
+        }
         default:
           console.error(`Unsupported auth method: ${account.auth_method}`);
           return false;
@@ -255,7 +510,7 @@ export class EmailProviderManager {
     for (const [accountId, entry] of this.connectionPool.entries()) {
       const idleTime = now.getTime() - entry.lastUsed.getTime();
       
-      if (idleTime > this.idleTimeout) {
+      if (!entry.pinned && idleTime > this.idleTimeout) {
         idsToDisconnect.push(accountId);
       }
     }
@@ -277,7 +532,7 @@ export class EmailProviderManager {
     
     // Find the least recently used connection
     for (const [accountId, entry] of this.connectionPool.entries()) {
-      if (entry.lastUsed.getTime() < oldestTime) {
+      if (!entry.pinned && entry.lastUsed.getTime() < oldestTime) {
         oldestId = accountId;
         oldestTime = entry.lastUsed.getTime();
       }
@@ -326,6 +581,35 @@ export class EmailProviderManager {
     };
   }
 
+  /**
+   * Get detailed statistics for the pool and each connection in it
+   * @returns Pool size and per-connection idle time, usage and errors
+   */
+  getPoolStats(): PoolStats {
+    const now = Date.now();
+    const connections: ConnectionStats[] = Array.from(this.connectionPool.values()).map(entry => ({
+      accountId: entry.accountId,
+      providerType: entry.providerType,
+      isConnected: entry.isConnected && entry.provider.isConnected(),
+      pinned: entry.pinned,
+      busy: this.connectionLocks.has(entry.accountId),
+      createdAt: entry.createdAt,
+      lastUsed: entry.lastUsed,
+      idleMs: now - entry.lastUsed.getTime(),
+      useCount: entry.useCount,
+      errorCount: entry.errorCount,
+      lastError: entry.connectionError?.message,
+      lastErrorAt: entry.lastErrorAt
+    }));
+    
+    return {
+      size: this.connectionPool.size,
+      maxPoolSize: this.maxPoolSize,
+      idleTimeoutMs: this.idleTimeout,
+      connections
+    };
+  }
+
   /**
    * Get errors for accounts that failed to connect
    * @returns A map of account IDs to connection errors
@@ -0,0 +1,181 @@
+import { EmailProvider } from '../../shared/schema';
+import type { ProviderType } from './provider-factory';
+
+/**
+ * Provider Preset
+ *
+ * Known-good server settings for an email provider. These are used to seed the
+ * `email_providers` table so every value of `emailProviderEnum` has a row the
+ * provider manager can connect with.
+ */
+export type ProviderPreset = Omit<EmailProvider, 'id' | 'created_at' | 'updated_at'>;
+
+// OAuth client credentials come from the environment. When no redirect URI is
+// configured, the callback URL is derived from the incoming request
+// (`/api/oauth/<provider>/callback`).
+const noOAuth = {
+  oauth_enabled: false,
+  oauth_client_id: null,
+  oauth_client_secret: null,
+  oauth_redirect_uri: null,
+  oauth_auth_url: null,
+  oauth_token_url: null,
+  oauth_scope: null
+};
+
+/**
+ * The authserv-ids a provider's receiving servers write in
+ * Authentication-Results, overridden by a comma-separated
+ * <PROVIDER>_AUTHSERV_IDS environment variable
+ */
+function authservIds(providerType: ProviderType, defaults: string[]): string[] {
+  const configured = process.env[`${providerType.toUpperCase()}_AUTHSERV_IDS`];
+  if (configured === undefined) {
+    return defaults;
+  }
+  return configured.split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Preset catalog, one entry per provider type. Order matters: it is the seed
+ * order, so iCloud, Gmail and Outlook keep provider IDs 1, 2 and 3.
+ */
+export const providerPresets: Record<ProviderType, ProviderPreset> = {
+  icloud: {
+    name: 'iCloud Mail',
+    provider_type: 'icloud',
+    imap_host: 'imap.mail.me.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.mail.me.com',
+    smtp_port: 587,
+    smtp_secure: false,
+    ...noOAuth,
+    junk_folder_path: 'Junk',
+    authserv_ids: authservIds('icloud', ['icloud.com']),
+    writes_received_spf: false
+  },
+  gmail: {
+    name: 'Gmail',
+    provider_type: 'gmail',
+    imap_host: 'imap.gmail.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.gmail.com',
+    smtp_port: 465,
+    smtp_secure: true,
+    oauth_enabled: true,
+    oauth_client_id: process.env.GOOGLE_OAUTH_CLIENT_ID || null,
+    oauth_client_secret: process.env.GOOGLE_OAUTH_CLIENT_SECRET || null,
+    oauth_redirect_uri: process.env.GOOGLE_OAUTH_REDIRECT_URI || null,
+    oauth_auth_url: 'https://accounts.google.com/o/oauth2/auth',
+    oauth_token_url: 'https://oauth2.googleapis.com/token',
+    oauth_scope: 'https://mail.google.com/',
+    junk_folder_path: '[Gmail]/Spam',
+    authserv_ids: authservIds('gmail', ['mx.google.com']),
+    writes_received_spf: true
+  },
+  outlook: {
+    name: 'Outlook',
+    provider_type: 'outlook',
+    imap_host: 'outlook.office365.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.office365.com',
+    smtp_port: 587,
+    smtp_secure: false,
+    oauth_enabled: true,
+    oauth_client_id: process.env.MICROSOFT_OAUTH_CLIENT_ID || null,
+    oauth_client_secret: process.env.MICROSOFT_OAUTH_CLIENT_SECRET || null,
+    oauth_redirect_uri: process.env.MICROSOFT_OAUTH_REDIRECT_URI || null,
+    oauth_auth_url: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
+    oauth_token_url: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+    oauth_scope: 'offline_access https://outlook.office.com/IMAP.AccessAsUser.All https://outlook.office.com/SMTP.Send',
+    junk_folder_path: 'Junk Email',
+    // Exchange Online writes its results without an authserv-id, so none can be believed
+    authserv_ids: authservIds('outlook', []),
+    writes_received_spf: true
+  },
+  yahoo: {
+    name: 'Yahoo Mail',
+    provider_type: 'yahoo',
+    imap_host: 'imap.mail.yahoo.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.mail.yahoo.com',
+    smtp_port: 465,
+    smtp_secure: true,
+    ...noOAuth,
+    junk_folder_path: 'Bulk',
+    authserv_ids: authservIds('yahoo', ['yahoo.com']),
+    writes_received_spf: false
+  },
+  aol: {
+    name: 'AOL Mail',
+    provider_type: 'aol',
+    imap_host: 'imap.aol.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.aol.com',
+    smtp_port: 465,
+    smtp_secure: true,
+    ...noOAuth,
+    junk_folder_path: 'Bulk',
+    authserv_ids: authservIds('aol', ['yahoo.com', 'aol.com']),
+    writes_received_spf: false
+  },
+  protonmail: {
+    // Proton Mail is only reachable over IMAP through the locally running Bridge,
+    // which listens on localhost and upgrades with STARTTLS
+    name: 'Proton Mail (Bridge)',
+    provider_type: 'protonmail',
+    imap_host: '127.0.0.1',
+    imap_port: 1143,
+    imap_secure: false,
+    smtp_host: '127.0.0.1',
+    smtp_port: 1025,
+    smtp_secure: false,
+    ...noOAuth,
+    junk_folder_path: 'Spam',
+    authserv_ids: authservIds('protonmail', ['protonmail.ch', 'proton.ch']),
+    writes_received_spf: false
+  },
+  zoho: {
+    name: 'Zoho Mail',
+    provider_type: 'zoho',
+    imap_host: 'imap.zoho.com',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: 'smtp.zoho.com',
+    smtp_port: 465,
+    smtp_secure: true,
+    ...noOAuth,
+    junk_folder_path: 'Spam',
+    authserv_ids: authservIds('zoho', ['zohomail.com', 'zoho.com']),
+    writes_received_spf: false
+  },
+  other: {
+    // Placeholder for self-hosted or unlisted services; the servers are set on each child account
+    name: 'Other (IMAP)',
+    provider_type: 'other',
+    imap_host: '',
+    imap_port: 993,
+    imap_secure: true,
+    smtp_host: '',
+    smtp_port: 465,
+    smtp_secure: true,
+    ...noOAuth,
+    junk_folder_path: 'Junk',
+    authserv_ids: authservIds('other', []),
+    writes_received_spf: false
+  }
+};
+
+/**
+ * Get the preset server settings for a provider type
+ * @param providerType The provider type to look up
+ * @returns The preset, or undefined if the type is unknown
+ */
+export function getProviderPreset(providerType: ProviderType): ProviderPreset | undefined {
+  return providerPresets[providerType];
+}
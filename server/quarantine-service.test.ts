@@ -0,0 +1,137 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { quarantineService, QUARANTINE_FOLDER_NAME } from './quarantine-service';
+import { EmailProviderManager, EmailProviderInterface, EmailMessage, FolderInfo, FolderStatus, MovedMessage } from './providers';
+import { ChildAccount } from '@shared/schema';
+
+type StoredMessage = { messageIdHeader?: string };
+type Folder = { uidValidity: number; uidNext: number; messages: Map<number, StoredMessage> };
+
+/**
+ * A mailbox held in memory that implements just what quarantine uses. Moves
+ * report the destination UID only when reportUid is set, like servers that
+ * send no COPYUID and whose UIDNEXT could not be read.
+ */
+class FakeMailbox {
+  folders: Map<string, Folder> = new Map();
+  reportUid = true;
+  private selected: string | null = null;
+
+  constructor() {
+    [['INBOX', 7], [QUARANTINE_FOLDER_NAME, 3]].forEach(([path, uidValidity]) => {
+      this.folders.set(path as string, { uidValidity: uidValidity as number, uidNext: 1, messages: new Map() });
+    });
+  }
+
+  deliver(path: string, message: StoredMessage): string {
+    const folder = this.folders.get(path)!;
+    const uid = folder.uidNext++;
+    folder.messages.set(uid, message);
+    return String(uid);
+  }
+
+  provider(): EmailProviderInterface {
+    const provider: Partial<EmailProviderInterface> = {
+      listFolders: async () => Array.from(this.folders.keys()).map(path => ({ name: path, path } as FolderInfo)),
+      createFolder: async () => false,
+      getLastError: () => undefined,
+      selectFolder: async (path: string) => {
+        this.selected = this.folders.has(path) ? path : null;
+        return this.selected !== null;
+      },
+      getFolderStatus: (): FolderStatus | undefined => {
+        const folder = this.selected ? this.folders.get(this.selected) : undefined;
+        return folder && this.selected
+          ? { path: this.selected, uidValidity: folder.uidValidity, uidNext: folder.uidNext, messageCount: folder.messages.size }
+          : undefined;
+      },
+      moveMessage: async (id: string, target: string): Promise<MovedMessage | null> => {
+        const source = this.folders.get(this.selected!)!;
+        const message = source.messages.get(parseInt(id));
+        if (!message || !this.folders.has(target)) {
+          return null;
+        }
+        source.messages.delete(parseInt(id));
+        const uid = this.deliver(target, message);
+        return { folder: target, uid: this.reportUid ? uid : null, uidValidity: this.folders.get(target)!.uidValidity };
+      },
+      findMessageByUid: async (path: string, uid: string) => {
+        this.selected = path;
+        return this.folders.get(path)?.messages.has(parseInt(uid)) ? uid : null;
+      },
+      findMessageByHeader: async (path: string, header: string, value: string) => {
+        this.selected = path;
+        const match = Array.from(this.folders.get(path)?.messages ?? []).find(([, message]) => message.messageIdHeader === value);
+        return match ? String(match[0]) : null;
+      },
+      deleteMessage: async (id: string) => this.folders.get(this.selected!)!.messages.delete(parseInt(id))
+    };
+    return provider as EmailProviderInterface;
+  }
+}
+
+let mailbox: FakeMailbox;
+let account: ChildAccount;
+
+before(async () => {
+  quarantineService.init(storage);
+  account = (await storage.getChildAccount(1))!;
+
+  // Every provider call in the service goes to the fake mailbox
+  EmailProviderManager.getInstance().withProvider = async <T>(
+    _account: ChildAccount,
+    task: (provider: EmailProviderInterface) => Promise<T>
+  ) => task(mailbox.provider());
+});
+
+after(() => {
+  quarantineService.stop();
+  EmailProviderManager.getInstance().destroy();
+});
+
+async function quarantine(message: StoredMessage) {
+  const uid = mailbox.deliver('INBOX', message);
+  const email: EmailMessage = { id: uid, from: 'a@example.com', to: account.email, subject: 'Test', text: '', date: new Date(), messageIdHeader: message.messageIdHeader };
+  const provider = mailbox.provider();
+  await provider.selectFolder('INBOX');
+  await quarantineService.quarantineMessages(account, provider, 'INBOX', [{ message: email, reason: 'test' }]);
+
+  const records = await storage.getQuarantinedMessages(account.user_id, account.id, 'quarantined');
+  return records.sort((a, b) => b.id - a.id)[0];
+}
+
+test('restores a message that has no Message-ID by its quarantine UID', async () => {
+  mailbox = new FakeMailbox();
+  const record = await quarantine({});
+
+  assert.equal(record.message_id_header, null);
+  assert.equal(record.quarantine_uid, 1);
+  assert.equal(record.quarantine_uid_validity, 3);
+
+  const restored = await quarantineService.restore(record);
+  assert.equal(restored.status, 'restored');
+  assert.equal(mailbox.folders.get(QUARANTINE_FOLDER_NAME)!.messages.size, 0);
+  assert.equal(mailbox.folders.get('INBOX')!.messages.size, 1);
+});
+
+test('falls back to the Message-ID once the quarantine folder is renumbered', async () => {
+  mailbox = new FakeMailbox();
+  const record = await quarantine({ messageIdHeader: '<renumbered@example.com>' });
+  mailbox.folders.get(QUARANTINE_FOLDER_NAME)!.uidValidity = 4;
+
+  const purged = await quarantineService.purge(record);
+  assert.equal(purged.status, 'purged');
+  assert.equal(mailbox.folders.get(QUARANTINE_FOLDER_NAME)!.messages.size, 0);
+});
+
+test('leaves a record in quarantine when its message cannot be found to delete', async () => {
+  mailbox = new FakeMailbox();
+  mailbox.reportUid = false;
+  const record = await quarantine({});
+  assert.equal(record.quarantine_uid, null);
+
+  await assert.rejects(quarantineService.purge(record, 'expired'), /could not be found/);
+  assert.equal((await storage.getQuarantinedMessage(record.id))!.status, 'quarantined');
+  assert.equal(mailbox.folders.get(QUARANTINE_FOLDER_NAME)!.messages.size, 1);
+});
@@ -0,0 +1,290 @@
+import { storage } from './storage';
+import { ActivityLog, ChildAccount, QuarantinedMessage } from '@shared/schema';
+import { EmailProviderManager, EmailProviderInterface, EmailMessage, findOrCreateFolder } from './providers';
+import { adaptiveClassifier } from './adaptive-classifier';
+
+export const QUARANTINE_FOLDER_NAME = 'KidMail Quarantine';
+
+/**
+ * A flagged message waiting to be moved into quarantine
+ */
+export interface QuarantineItem {
+  message: EmailMessage;
+  reason: string;
+  activityLog?: ActivityLog;
+}
+
+/**
+ * Quarantine Service
+ *
+ * Moves flagged messages into a "KidMail Quarantine" folder on the child's
+ * mailbox instead of deleting them, so a parent can restore false positives.
+ * Quarantined messages are purged when the parent asks or when their
+ * retention period runs out.
+ */
+class QuarantineService {
+  private storageService: typeof storage | null = null;
+  private folderPaths: Map<number, string> = new Map();
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private expiryCheckMs: number = 60 * 60 * 1000; // 1 hour
+  private defaultRetentionDays: number = 30;
+
+  init(storageService: typeof storage) {
+    this.storageService = storageService;
+
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+    }
+    this.expiryInterval = setInterval(() => {
+      this.purgeExpired().catch(err => console.error('Error purging expired quarantine:', err));
+    }, this.expiryCheckMs);
+  }
+
+  /**
+   * Stop purging expired messages
+   */
+  stop() {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+  }
+
+  /**
+   * Find or create the quarantine folder on an account
+   * @param account The child account
+   * @param provider A connected provider for the account
+   * @returns The folder path, or null if it could not be created
+   */
+  async ensureQuarantineFolder(account: ChildAccount, provider: EmailProviderInterface): Promise<string | null> {
+    const cached = this.folderPaths.get(account.id);
+    if (cached) {
+      return cached;
+    }
+
+    const path = await findOrCreateFolder(provider, QUARANTINE_FOLDER_NAME);
+    if (path) {
+      this.folderPaths.set(account.id, path);
+      return path;
+    }
+
+    console.error(`Could not create quarantine folder for ${account.email}:`, provider.getLastError());
+    return null;
+  }
+
+  /**
+   * Move flagged messages into quarantine and record each move
+   * @param account The child account
+   * @param provider A connected provider with the source folder selected
+   * @param sourceFolder The folder the messages are in now
+   * @param items The messages to quarantine and the activity log entries that flagged them
+   * @param retentionDays How long to keep the messages before purging them
+   */
+  async quarantineMessages(
+    account: ChildAccount,
+    provider: EmailProviderInterface,
+    sourceFolder: string,
+    items: QuarantineItem[],
+    retentionDays: number = this.defaultRetentionDays
+  ): Promise<void> {
+    if (!this.storageService) {
+      throw new Error('Quarantine service not initialized');
+    }
+
+    if (items.length === 0) {
+      return;
+    }
+
+    // Never fall back to deleting: a false positive must stay recoverable
+    const quarantineFolder = await this.ensureQuarantineFolder(account, provider);
+    if (!quarantineFolder) {
+      await this.storageService.createActivityLog({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        activity_type: 'error',
+        details: `Could not create the ${QUARANTINE_FOLDER_NAME} folder; ${items.length} flagged message(s) were left in ${sourceFolder}`
+      });
+      return;
+    }
+
+    const expiresAt = new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000);
+
+    for (const item of items) {
+      const moved = await provider.moveMessage(item.message.id, quarantineFolder);
+      if (!moved) {
+        console.error(`Error quarantining message ${item.message.id}:`, provider.getLastError());
+        continue;
+      }
+
+      await this.storageService.createQuarantinedMessage({
+        user_id: account.user_id,
+        child_account_id: account.id,
+        activity_log_id: item.activityLog?.id ?? null,
+        original_folder: sourceFolder,
+        quarantine_folder: quarantineFolder,
+        quarantine_uid: moved.uid ? parseInt(moved.uid) : null,
+        quarantine_uid_validity: moved.uidValidity,
+        message_id_header: item.message.messageIdHeader ?? null,
+        subject: item.message.subject || null,
+        sender_email: item.message.from || null,
+        reason: item.reason,
+        features: adaptiveClassifier.features(item.message.subject || '', item.message.text || '', item.message.html || ''),
+        expires_at: expiresAt
+      });
+    }
+  }
+
+  /**
+   * Check whether a parent restored a message, so it is not quarantined again
+   * when it reappears in the scanned folder
+   */
+  async wasRestored(childAccountId: number, messageIdHeader: string): Promise<boolean> {
+    if (!this.storageService) {
+      return false;
+    }
+
+    const record = await this.storageService.findQuarantinedMessageByHeader(childAccountId, messageIdHeader);
+    return record?.status === 'restored';
+  }
+
+  /**
+   * Move a quarantined message back to the folder it came from
+   * @param record The quarantine record
+   * @returns The updated record
+   */
+  async restore(record: QuarantinedMessage): Promise<QuarantinedMessage> {
+    await this.withAccountProvider(record, async (account, provider) => {
+      const uid = await this.locate(record, provider);
+      if (!uid) {
+        throw new Error('The message could not be found in the quarantine folder');
+      }
+
+      const moved = await provider.moveMessage(uid, record.original_folder);
+      if (!moved) {
+        throw new Error(`Could not move the message back to ${record.original_folder}`);
+      }
+    });
+
+    await this.learnFromOutcome(record, 'restored');
+    return await this.resolve(record, 'restored', `Restored quarantined email to ${record.original_folder}: ${record.subject || 'No Subject'}`);
+  }
+
+  /**
+   * Permanently delete a quarantined message. The record is only marked
+   * purged or expired once the message has actually been deleted.
+   * @param record The quarantine record
+   * @param status 'purged' when a parent asked, 'expired' when retention ran out
+   * @returns The updated record
+   */
+  async purge(record: QuarantinedMessage, status: 'purged' | 'expired' = 'purged'): Promise<QuarantinedMessage> {
+    await this.withAccountProvider(record, async (account, provider) => {
+      const uid = await this.locate(record, provider);
+      if (!uid) {
+        throw new Error('The message could not be found in the quarantine folder');
+      }
+      if (!(await provider.deleteMessage(uid))) {
+        throw new Error('Could not delete the message from the quarantine folder');
+      }
+    });
+
+    // Expiry is not a decision by the parent, so there is nothing to learn from it
+    if (status === 'purged') {
+      await this.learnFromOutcome(record, 'purged');
+    }
+
+    const details = status === 'expired'
+      ? `Quarantine retention expired; deleted email: ${record.subject || 'No Subject'}`
+      : `Permanently deleted quarantined email: ${record.subject || 'No Subject'}`;
+    return await this.resolve(record, status, details);
+  }
+
+  /**
+   * Purge every quarantined message whose retention period has run out
+   */
+  async purgeExpired(): Promise<void> {
+    if (!this.storageService) {
+      return;
+    }
+
+    const expired = await this.storageService.getExpiredQuarantinedMessages(new Date());
+    for (const record of expired) {
+      try {
+        await this.purge(record, 'expired');
+      } catch (error) {
+        console.error(`Error purging expired quarantine record ${record.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Find a quarantined message in the quarantine folder: by the UID it was
+   * given there while the folder keeps the same UIDVALIDITY, otherwise by
+   * its Message-ID
+   * @returns The message's UID, or null if it cannot be found
+   */
+  private async locate(record: QuarantinedMessage, provider: EmailProviderInterface): Promise<string | null> {
+    const { quarantine_folder: folder, quarantine_uid: uid, message_id_header: messageIdHeader } = record;
+
+    if (uid !== null && await provider.selectFolder(folder) && provider.getFolderStatus()?.uidValidity === record.quarantine_uid_validity) {
+      return await provider.findMessageByUid(folder, String(uid));
+    }
+    return messageIdHeader ? await provider.findMessageByHeader(folder, 'Message-ID', messageIdHeader) : null;
+  }
+
+  /**
+   * Teach the adaptive classifier from a parent's decision. Learning is
+   * best-effort and never blocks the restore or delete.
+   */
+  private async learnFromOutcome(record: QuarantinedMessage, outcome: 'restored' | 'purged'): Promise<void> {
+    try {
+      await adaptiveClassifier.recordOutcome(record, outcome);
+    } catch (error) {
+      console.error(`Error learning from quarantine record ${record.id}:`, error);
+    }
+  }
+
+  private async resolve(
+    record: QuarantinedMessage,
+    status: 'restored' | 'purged' | 'expired',
+    details: string
+  ): Promise<QuarantinedMessage> {
+    if (!this.storageService) {
+      throw new Error('Quarantine service not initialized');
+    }
+
+    const updated = await this.storageService.updateQuarantinedMessage(record.id, {
+      status,
+      resolved_at: new Date()
+    });
+
+    await this.storageService.createActivityLog({
+      user_id: record.user_id,
+      child_account_id: record.child_account_id,
+      activity_type: `quarantine_${status}`,
+      details,
+      sender_email: record.sender_email
+    });
+
+    return updated;
+  }
+
+  private async withAccountProvider(
+    record: QuarantinedMessage,
+    task: (account: ChildAccount, provider: EmailProviderInterface) => Promise<void>
+  ): Promise<void> {
+    if (!this.storageService) {
+      throw new Error('Quarantine service not initialized');
+    }
+
+    const account = await this.storageService.getChildAccount(record.child_account_id);
+    if (!account) {
+      throw new Error(`Child account ${record.child_account_id} not found`);
+    }
+
+    const providerManager = EmailProviderManager.getInstance();
+    providerManager.setProviderSettings(await this.storageService.getAllEmailProviders());
+    await providerManager.withProvider(account, provider => task(account, provider), { keepSelection: true });
+  }
+}
+
+export const quarantineService = new QuarantineService();
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasNestedQuantifier } from './regex-safety';
+
+test('finds a repeated group that repeats inside', () => {
+  for (const pattern of ['(a+)+$', '(\\w+\\s?)*', '((a+))+', '(a|b+)*', '(?:x*y)+', '(?<word>a+){2,}', '(a{2,}){3}']) {
+    assert.equal(hasNestedQuantifier(pattern), true, pattern);
+  }
+});
+
+test('allows single repetitions', () => {
+  for (const pattern of ['casino|poker', '\\d+-\\d+', '(?:free )+money', '(a+){1}', '(a+)?', '\\(a+\\)+', '[(a+)]+', 'v[i1!]agra']) {
+    assert.equal(hasNestedQuantifier(pattern), false, pattern);
+  }
+});
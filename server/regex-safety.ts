@@ -0,0 +1,82 @@
+type Group = { repeats: boolean }; // Whether anything inside the group repeats
+
+// A quantifier at the start of the text: *, +, ? or {n}, {n,}, {n,m}
+const QUANTIFIER = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/;
+
+/**
+ * Whether a regular expression repeats a group that itself contains a
+ * repetition, as in (a+)+ or (\w+\s?)*. Patterns like these can backtrack
+ * exponentially on text that almost matches, so user-written rules that have
+ * one are turned away before they run.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groups: Group[] = [];
+  let closed: Group | null = null; // The group that just ended, if the last atom was one
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i += 2;
+      closed = null;
+      continue;
+    }
+
+    if (char === '[') {
+      // Skip the character class; nothing inside it is a quantifier
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      closed = null;
+      continue;
+    }
+
+    if (char === '(') {
+      groups.push({ repeats: false });
+      // Step over the ? of (?:, (?= and the like so it is not read as a quantifier
+      i += pattern[i + 1] === '?' ? 2 : 1;
+      closed = null;
+      continue;
+    }
+
+    if (char === ')') {
+      closed = groups.pop() || { repeats: false };
+      if (closed.repeats && groups.length > 0) {
+        groups[groups.length - 1].repeats = true;
+      }
+      i++;
+      continue;
+    }
+
+    const quantifier = pattern.slice(i).match(QUANTIFIER);
+    if (quantifier) {
+      // {n} and {n,m} repeat only when more than one is allowed
+      const max = quantifier[1] === undefined ? null : quantifier[2] === undefined ? parseInt(quantifier[1]) : quantifier[3] ? parseInt(quantifier[3]) : Infinity;
+      const repeats = quantifier[0] === '*' || quantifier[0] === '+' || (max !== null && max > 1);
+
+      if (repeats) {
+        if (closed && closed.repeats) {
+          return true;
+        }
+        if (groups.length > 0) {
+          groups[groups.length - 1].repeats = true;
+        }
+      }
+      i += quantifier[0].length;
+      // A lazy quantifier ends in ?
+      if (pattern[i] === '?') {
+        i++;
+      }
+      closed = null;
+      continue;
+    }
+
+    i++;
+    closed = null;
+  }
+
+  return false;
+}
@@ -4,13 +4,34 @@ import { storage } from "./storage";
 import { z } from "zod";
 import { 
   insertChildAccountSchema, 
+  insertMonitoredFolderSchema,
+  insertAttachmentPolicySchema,
+  insertCategorySettingSchema,
   insertFilterRuleSchema, 
   insertActivityLogSchema, 
-  insertUserSchema 
+  insertUserSchema,
+  contentCategories,
+  contentCategoryLabels,
+  learningModes,
+  type ChildAccount,
+  type ContentCategory
 } from "@shared/schema";
 import { emailService } from "./email-service";
+import { quarantineService } from "./quarantine-service";
+import { approvalService } from "./approval-service";
 import { contentFilter } from "./content-filter";
+import { defaultAttachmentPolicy } from "./attachment-inspector";
 import { setupAuth } from "./auth";
+import { credentialVault } from "./credential-vault";
+import { toPublicChildAccount, toPublicUser } from "./serializers";
+import { EmailProviderManager, OAuthService, EmailProviderFactory, type ProviderType } from "./providers";
+import type { NormalizationStep } from "./text-normalizer";
+import { defaultCategorySetting, type LearnedPrediction, type ScoreItem, type ScoreThresholds } from "./filter-scoring";
+import type { DetectedLanguage } from "./language-detector";
+import { htmlExtractor } from "./html-extractor";
+import { adaptiveClassifier } from "./adaptive-classifier";
+import { ruleSimulator } from "./rule-simulator";
+import { hasNestedQuantifier } from "./regex-safety";
 
 // Interface for email content analysis
 export interface EmailContentAnalysis {
@@ -21,13 +42,35 @@ export interface EmailContentAnalysis {
   contentHtml: string;
   contentText: string;
   safety: 'safe' | 'warning' | 'unsafe' | 'unknown';
+  score?: number;
+  thresholds?: ScoreThresholds;
+  // What added to the score, including the normalization step that revealed each disguised term
+  breakdown?: ScoreItem[];
+  category?: ContentCategory;
+  prediction?: LearnedPrediction; // The adaptive classifier's opinion, beside the rules' verdict
+  language?: DetectedLanguage; // Decides which languages' default terms were matched
   matchedRules?: Array<{
     id: number;
     rule_text: string;
     is_regex: boolean;
+    normalization?: NormalizationStep | null;
   }>;
 }
 
+// Restart monitoring so folder changes take effect on the next check
+function restartMonitoring(account: ChildAccount) {
+  if (account.is_active) {
+    emailService.startMonitoring(account)
+      .catch(err => console.error(`Error restarting monitoring for account ${account.id}:`, err));
+  }
+}
+
+// Providers without a preset can only be reached through the account's own servers
+async function lacksServerSettings(account: { provider_id: number; custom_imap_host?: string | null }): Promise<boolean> {
+  const provider = await storage.getEmailProvider(account.provider_id);
+  return provider?.provider_type === 'other' && !account.custom_imap_host;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication
   setupAuth(app);
@@ -53,15 +96,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "User not found" });
     }
     
-    res.json(user);
+    res.json(toPublicUser(user));
   });
 
   // Child account routes
   app.post("/api/child-accounts", async (req, res) => {
     try {
       const data = insertChildAccountSchema.parse(req.body);
-      const childAccount = await storage.createChildAccount(data);
-      res.status(201).json(childAccount);
+      if (await lacksServerSettings(data)) {
+        return res.status(400).json({ message: "An IMAP server is required for this provider" });
+      }
+      const childAccount = await storage.createChildAccount(credentialVault.encryptAccountSecrets(data));
+      
+      if (childAccount.is_active) {
+        emailService.startMonitoring(childAccount)
+          .catch(err => console.error(`Error starting monitoring for account ${childAccount.id}:`, err));
+      }
+      
+      res.status(201).json(toPublicChildAccount(childAccount));
     } catch (error) {
       res.status(400).json({ message: "Invalid child account data" });
     }
@@ -77,7 +129,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ? await storage.getChildAccountsByUserId(userId)
       : await storage.getAllChildAccounts();
     
-    res.json(accounts);
+    res.json(accounts.map(toPublicChildAccount));
   });
 
   app.get("/api/child-accounts/:id", async (req, res) => {
@@ -91,7 +143,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Child account not found" });
     }
     
-    res.json(account);
+    res.json(toPublicChildAccount(account));
   });
 
   app.patch("/api/child-accounts/:id", async (req, res) => {
@@ -107,8 +159,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const data = insertChildAccountSchema.partial().parse(req.body);
-      const updatedAccount = await storage.updateChildAccount(id, data);
-      res.json(updatedAccount);
+      if (await lacksServerSettings({ ...account, ...data })) {
+        return res.status(400).json({ message: "An IMAP server is required for this provider" });
+      }
+      const updatedAccount = await storage.updateChildAccount(id, credentialVault.encryptAccountSecrets(data));
+      
+      // Restart monitoring so schedule and connection changes take effect
+      if (updatedAccount.is_active) {
+        emailService.startMonitoring(updatedAccount)
+          .catch(err => console.error(`Error restarting monitoring for account ${id}:`, err));
+      } else {
+        emailService.stopMonitoring(id);
+      }
+      
+      res.json(toPublicChildAccount(updatedAccount));
     } catch (error) {
       res.status(400).json({ message: "Invalid update data" });
     }
@@ -125,14 +189,232 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Child account not found" });
     }
     
+    emailService.stopMonitoring(id);
     await storage.deleteChildAccount(id);
     res.status(204).end();
   });
 
+  app.get("/api/child-accounts/:id/folders", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    try {
+      const folders = await emailService.getAccountFolders(account, req.query.refresh === "true");
+      res.json(folders);
+    } catch (error) {
+      console.error(`Error resolving folders for account ${id}:`, error);
+      res.status(502).json({ message: "Could not list folders for this account" });
+    }
+  });
+
+  // Monitored folder routes
+  app.get("/api/child-accounts/:id/monitored-folders", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    const folders = await storage.getMonitoredFolders(id);
+    res.json(folders);
+  });
+  
+  app.post("/api/child-accounts/:id/monitored-folders", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    const parsed = insertMonitoredFolderSchema.safeParse({ ...req.body, child_account_id: id });
+    if (!parsed.success || !parsed.data.folder_role === !parsed.data.folder_path) {
+      return res.status(400).json({ message: "Invalid monitored folder data; set either a folder role or a folder path" });
+    }
+    
+    // Sent mail only ever produces alerts
+    const data = parsed.data.folder_role === "sent" ? { ...parsed.data, action: "log" as const } : parsed.data;
+    const folder = await storage.createMonitoredFolder(data);
+    restartMonitoring(account);
+    res.status(201).json(folder);
+  });
+  
+  app.patch("/api/monitored-folders/:id", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid folder ID" });
+    }
+    
+    const folder = await storage.getMonitoredFolder(id);
+    const account = folder ? await storage.getChildAccount(folder.child_account_id) : undefined;
+    if (!folder || !account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Monitored folder not found" });
+    }
+    
+    // The folder itself is fixed; only its action and whether it is scanned can change
+    const parsed = insertMonitoredFolderSchema.pick({ action: true, is_active: true }).partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid update data" });
+    }
+    
+    if (folder.folder_role === "sent" && parsed.data.action && parsed.data.action !== "log") {
+      return res.status(400).json({ message: "Sent mail can only be logged, never moved or deleted" });
+    }
+    
+    const updatedFolder = await storage.updateMonitoredFolder(id, parsed.data);
+    restartMonitoring(account);
+    res.json(updatedFolder);
+  });
+  
+  app.delete("/api/monitored-folders/:id", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid folder ID" });
+    }
+    
+    const folder = await storage.getMonitoredFolder(id);
+    const account = folder ? await storage.getChildAccount(folder.child_account_id) : undefined;
+    if (!folder || !account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Monitored folder not found" });
+    }
+    
+    await storage.deleteMonitoredFolder(id);
+    restartMonitoring(account);
+    res.status(204).end();
+  });
+
+  // Attachment policy routes
+  app.get("/api/child-accounts/:id/attachment-policy", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    // Accounts without a saved policy use the defaults
+    const policy = await storage.getAttachmentPolicy(id);
+    res.json(policy || { ...defaultAttachmentPolicy, child_account_id: id });
+  });
+  
+  app.put("/api/child-accounts/:id/attachment-policy", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    const parsed = insertAttachmentPolicySchema.safeParse({ ...req.body, child_account_id: id });
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid attachment policy data" });
+    }
+    
+    const policy = await storage.saveAttachmentPolicy(parsed.data);
+    res.json(policy);
+  });
+
+  app.get("/api/child-accounts/:id/category-settings", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    // Every category, with the defaults for those never changed
+    const saved = await storage.getCategorySettings(id);
+    res.json(contentCategories.map(category =>
+      saved.find(setting => setting.category === category) || { ...defaultCategorySetting, child_account_id: id, category }
+    ));
+  });
+  
+  app.put("/api/child-accounts/:id/category-settings/:category", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await storage.getChildAccount(id);
+    if (!account || account.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    const parsed = insertCategorySettingSchema.safeParse({ ...req.body, child_account_id: id, category: req.params.category });
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid category setting" });
+    }
+    
+    const setting = await storage.saveCategorySetting(parsed.data);
+    res.json(setting);
+  });
+
   // Filter rules routes
   app.post("/api/filter-rules", async (req, res) => {
     try {
       const data = insertFilterRuleSchema.parse(req.body);
+      if (data.is_regex && hasNestedQuantifier(data.rule_text)) {
+        return res.status(400).json({ message: `Regex pattern repeats a repeated group and could take too long to run: ${data.rule_text}` });
+      }
       const rule = await storage.createFilterRule(data);
       res.status(201).json(rule);
     } catch (error) {
@@ -140,6 +422,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Try draft rules against recently processed mail before saving them
+  app.post("/api/filter-rules/simulate", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const schema = z.object({
+      rules: z.array(insertFilterRuleSchema.omit({ user_id: true })).min(1).max(100),
+      replace: z.boolean().optional().default(false), // The draft is a whole rule set that replaces the current rules
+      childAccountId: z.number().optional()
+    });
+    
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid draft rules" });
+    }
+    
+    const { rules, replace, childAccountId } = parsed.data;
+    const draft = rules.map(rule => ({
+      rule_text: rule.rule_text,
+      is_regex: rule.is_regex ?? false,
+      match_mode: rule.match_mode ?? "word",
+      match_phrase: rule.match_phrase ?? true,
+      weight: rule.weight ?? 50,
+      category: rule.category ?? null,
+      child_account_id: rule.child_account_id ?? null,
+    }));
+    
+    for (const rule of draft.filter(rule => rule.is_regex)) {
+      try {
+        new RegExp(rule.rule_text, "i");
+      } catch (error) {
+        return res.status(400).json({ message: `Invalid regex pattern: ${rule.rule_text}` });
+      }
+      if (hasNestedQuantifier(rule.rule_text)) {
+        return res.status(400).json({ message: `Regex pattern repeats a repeated group and could take too long to run: ${rule.rule_text}` });
+      }
+    }
+    
+    try {
+      res.json(await ruleSimulator.simulate(req.user.id, draft, replace, childAccountId));
+    } catch (error) {
+      console.error("Error simulating filter rules:", error);
+      res.status(500).json({ message: "Failed to simulate filter rules" });
+    }
+  });
+
   app.get("/api/filter-rules", async (req, res) => {
     const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
     const childAccountId = req.query.childAccountId ? parseInt(req.query.childAccountId as string) : undefined;
@@ -187,6 +516,252 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(status);
   });
 
+  // Provider connection pool stats, limited to the current user's child accounts
+  app.get("/api/provider-pool/stats", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const childAccounts = await storage.getChildAccountsByUserId(req.user.id);
+    const accountIds = new Set(childAccounts.map(account => account.id));
+    const stats = EmailProviderManager.getInstance().getPoolStats();
+    
+    res.json({
+      ...stats,
+      connections: stats.connections.filter(connection => accountIds.has(connection.accountId))
+    });
+  });
+
+  // OAuth connect flow
+  app.get("/api/oauth/:provider/start", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const providerType = req.params.provider as ProviderType;
+    if (!EmailProviderFactory.getOAuth2Providers().includes(providerType)) {
+      return res.status(400).json({ message: "Provider does not support OAuth" });
+    }
+    
+    const childAccountId = parseInt(req.query.childAccountId as string);
+    if (isNaN(childAccountId)) {
+      return res.status(400).json({ message: "Invalid child account ID" });
+    }
+    
+    const childAccount = await storage.getChildAccount(childAccountId);
+    if (!childAccount || childAccount.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Child account not found" });
+    }
+    
+    const oauthService = OAuthService.getInstance();
+    oauthService.setProviderSettings(await storage.getAllEmailProviders());
+    if (!oauthService.isConfigured(providerType)) {
+      return res.status(503).json({ message: `OAuth is not configured for ${providerType}` });
+    }
+    
+    const redirectUri = oauthService.getRedirectUri(providerType)
+      || `${req.protocol}://${req.get("host")}/api/oauth/${providerType}/callback`;
+    const { codeVerifier, codeChallenge } = oauthService.generatePkcePair();
+    const { state, nonce } = oauthService.createSignedState({
+      providerType,
+      userId: req.user.id,
+      childAccountId,
+      sessionHash: oauthService.hashSessionId(req.sessionID)
+    });
+    
+    const authUrl = oauthService.getAuthorizationUrl(providerType, {
+      state,
+      codeChallenge,
+      redirectUri,
+      loginHint: childAccount.email
+    });
+    if (!authUrl) {
+      return res.status(500).json({ message: "Failed to build authorization URL" });
+    }
+    
+    // Keep the verifier server-side; only the challenge goes to the provider
+    req.session.oauthFlows = {
+      ...oauthService.pruneExpiredFlows(req.session.oauthFlows),
+      [nonce]: { codeVerifier, redirectUri, createdAt: Date.now() }
+    };
+    req.session.save(err => {
+      if (err) {
+        console.error("Error saving OAuth session state:", err);
+        return res.status(500).json({ message: "Failed to start OAuth flow" });
+      }
+      res.redirect(authUrl);
+    });
+  });
+
+  app.get("/api/oauth/:provider/callback", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const providerType = req.params.provider as ProviderType;
+    const fail = (reason: string) => res.redirect(`/?oauth=error&reason=${encodeURIComponent(reason)}`);
+    
+    if (req.query.error) {
+      return fail(String(req.query.error));
+    }
+    
+    const code = typeof req.query.code === "string" ? req.query.code : undefined;
+    const state = typeof req.query.state === "string" ? req.query.state : undefined;
+    if (!code || !state) {
+      return fail("missing_code");
+    }
+    
+    const oauthService = OAuthService.getInstance();
+    const payload = oauthService.verifySignedState(state);
+    if (
+      !payload ||
+      payload.providerType !== providerType ||
+      payload.userId !== req.user.id ||
+      payload.sessionHash !== oauthService.hashSessionId(req.sessionID)
+    ) {
+      return fail("invalid_state");
+    }
+    
+    // Each state can be redeemed once, and only while it is fresh
+    const flows = oauthService.pruneExpiredFlows(req.session.oauthFlows);
+    const flow = flows[payload.nonce];
+    delete flows[payload.nonce];
+    req.session.oauthFlows = flows;
+    if (!flow) {
+      return fail("invalid_state");
+    }
+    
+    const childAccount = await storage.getChildAccount(payload.childAccountId);
+    if (!childAccount || childAccount.user_id !== req.user.id) {
+      return fail("account_not_found");
+    }
+    
+    oauthService.setProviderSettings(await storage.getAllEmailProviders());
+    const tokens = await oauthService.exchangeCodeForTokens(providerType, code, flow.redirectUri, flow.codeVerifier);
+    if (!tokens) {
+      return fail("token_exchange_failed");
+    }
+    
+    const updatedAccount = await storage.updateChildAccount(childAccount.id, credentialVault.encryptAccountSecrets({
+      auth_method: "oauth2" as const,
+      oauth_token: tokens.accessToken,
+      oauth_refresh_token: tokens.refreshToken,
+      token_expiry: tokens.expiresAt
+    }));
+    
+    await emailService.logActivity({
+      user_id: req.user.id,
+      child_account_id: childAccount.id,
+      activity_type: "oauth_connected",
+      details: `Connected ${childAccount.email} with ${providerType} OAuth`
+    });
+    
+    if (updatedAccount.is_active) {
+      emailService.startMonitoring(updatedAccount)
+        .catch(err => console.error(`Error restarting monitoring for account ${updatedAccount.id}:`, err));
+    }
+    
+    res.redirect("/?oauth=success");
+  });
+
+  // Quarantine routes
+  app.get("/api/quarantine", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const childAccountId = req.query.childAccountId ? parseInt(req.query.childAccountId as string) : undefined;
+    if (childAccountId !== undefined && isNaN(childAccountId)) {
+      return res.status(400).json({ message: "Invalid child account ID" });
+    }
+    
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const messages = await storage.getQuarantinedMessages(req.user.id, childAccountId, status);
+    res.json(messages);
+  });
+  
+  app.post("/api/quarantine/:id/:action(restore|purge)", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid quarantine ID" });
+    }
+    
+    const record = await storage.getQuarantinedMessage(id);
+    if (!record || record.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Quarantined message not found" });
+    }
+    if (record.status !== "quarantined") {
+      return res.status(409).json({ message: `Message was already ${record.status}` });
+    }
+    
+    try {
+      const updated = req.params.action === "restore"
+        ? await quarantineService.restore(record)
+        : await quarantineService.purge(record);
+      res.json(updated);
+    } catch (error) {
+      console.error(`Error trying to ${req.params.action} quarantined message ${id}:`, error);
+      res.status(502).json({ message: error instanceof Error ? error.message : `Failed to ${req.params.action} message` });
+    }
+  });
+
+  // Approval queue routes
+  app.get("/api/approvals", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const childAccountId = req.query.childAccountId ? parseInt(req.query.childAccountId as string) : undefined;
+    if (childAccountId !== undefined && isNaN(childAccountId)) {
+      return res.status(400).json({ message: "Invalid child account ID" });
+    }
+    
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const approvals = await storage.getPendingApprovals(req.user.id, childAccountId, status);
+    res.json(approvals);
+  });
+  
+  app.post("/api/approvals/:id/:action(approve|reject)", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid approval ID" });
+    }
+    
+    const schema = z.object({
+      trustSender: z.boolean().optional()
+    });
+    const parsed = schema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid approval data" });
+    }
+    
+    const record = await storage.getPendingApproval(id);
+    if (!record || record.user_id !== req.user.id) {
+      return res.status(404).json({ message: "Pending message not found" });
+    }
+    if (record.status !== "pending") {
+      return res.status(409).json({ message: `Message was already ${record.status}` });
+    }
+    
+    try {
+      const updated = req.params.action === "approve"
+        ? await approvalService.approve(record, { trustSender: parsed.data.trustSender })
+        : await approvalService.reject(record);
+      res.json(updated);
+    } catch (error) {
+      console.error(`Error trying to ${req.params.action} pending message ${id}:`, error);
+      res.status(502).json({ message: error instanceof Error ? error.message : `Failed to ${req.params.action} message` });
+    }
+  });
+
   // Manual check route
   app.post("/api/check-now", async (req, res) => {
     const schema = z.object({
@@ -239,22 +814,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       // Determine which rules were matched
-      const matchedRules = filterRules.filter(rule => {
-        if (rule.is_regex) {
-          try {
-            const regex = new RegExp(rule.rule_text, "i");
-            return regex.test(subject) || regex.test(contentText) || regex.test(contentHtml);
-          } catch (error) {
-            console.error(`Invalid regex in rule ${rule.id}:`, error);
-            return false;
-          }
-        } else {
-          const ruleText = rule.rule_text.toLowerCase();
-          return subject.toLowerCase().includes(ruleText) || 
-                 contentText.toLowerCase().includes(ruleText) || 
-                 contentHtml.toLowerCase().includes(ruleText);
-        }
-      });
+      const html = htmlExtractor.extract(contentHtml);
+      const matchedRules = contentFilter.findMatchingRules(
+        filterRules,
+        subject,
+        contentText,
+        html.visibleText,
+        html.attributeText,
+        html.hiddenText
+      );
       
       const analysis: EmailContentAnalysis = {
         subject,
@@ -262,11 +830,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         date: new Date().toISOString(),
         contentHtml,
         contentText,
-        safety: filterResult.isInappropriate ? 'unsafe' : 'safe',
-        matchedRules: matchedRules.map(rule => ({
+        safety: filterResult.verdict,
+        score: filterResult.score,
+        thresholds: filterResult.thresholds,
+        breakdown: filterResult.breakdown,
+        category: filterResult.category,
+        prediction: filterResult.prediction,
+        language: filterResult.language,
+        matchedRules: matchedRules.map(({ rule, normalization }) => ({
           id: rule.id,
           rule_text: rule.rule_text,
-          is_regex: rule.is_regex
+          is_regex: rule.is_regex,
+          normalization
         }))
       };
       
@@ -464,10 +1039,14 @@ In a production environment, this would display the actual content of the email.
     
     // Generate threat distribution
     const threatDistribution = [
-      { type: "Inappropriate Content", count: activityLogs.filter(log => log.activity_type === "inappropriate_deleted").length },
+      { type: "Inappropriate Content", count: activityLogs.filter(log => log.activity_type === "inappropriate_deleted" && !log.category).length },
+      ...contentCategories.map(category => ({
+        type: contentCategoryLabels[category],
+        count: activityLogs.filter(log => log.activity_type === "inappropriate_deleted" && log.category === category).length
+      })),
       { type: "Spam", count: activityLogs.filter(log => log.activity_type === "deleted").length },
-      { type: "Phishing", count: Math.floor(Math.random() * 3) },
-      { type: "Malware", count: Math.floor(Math.random() * 2) }
+      { type: "Phishing", count: activityLogs.filter(log => log.threat_type === "phishing").length },
+      { type: "Malware", count: activityLogs.filter(log => log.threat_type === "malware").length }
     ].filter(threat => threat.count > 0);
     
     // Generate risk trend for the last 7 days
@@ -623,22 +1202,27 @@ In a production environment, this would display the actual content of the email.
       });
     }
     
-    // Add some realistic threats if we have too few
-    if (topThreats.length < 2 && unsafeEmails > 0) {
+    const suspiciousLinks = activityLogs.filter(log => log.threat_type === "suspicious_link").length;
+    if (suspiciousLinks > 0) {
       topThreats.push({
         type: "Suspicious Links",
-        count: 1,
+        count: suspiciousLinks,
         severity: "high"
       });
     }
     
-    if (riskLevel === "high" && topThreats.length < 3) {
-      topThreats.push({
-        type: "Adult Content",
-        count: 1,
-        severity: "high"
-      });
-    }
+    // The content categories that triggered the filter
+    const severeCategories: ContentCategory[] = ["adult", "drugs", "violence", "self_harm"];
+    contentCategories.forEach(category => {
+      const count = activityLogs.filter(log => log.category === category).length;
+      if (count > 0) {
+        topThreats.push({
+          type: contentCategoryLabels[category],
+          count,
+          severity: severeCategories.includes(category) ? "high" : "medium"
+        });
+      }
+    });
     
     res.json({
       childAccountId: childId,
@@ -667,6 +1251,7 @@ In a production environment, this would display the actual content of the email.
         enabled: systemStatusData.adaptive_learning_enabled || false,
         learningRate: systemStatusData.learning_rate || "0.1",
         learningMode: systemStatusData.learning_mode || "passive",
+        trainedExamples: await adaptiveClassifier.stats(req.user.id),
       });
     } catch (error) {
       console.error("Error getting adaptive learning status:", error);
@@ -681,6 +1266,10 @@ In a production environment, this would display the actual content of the email.
     
     const { enabled, learningRate, learningMode } = req.body;
     
+    if (learningMode !== undefined && !learningModes.includes(learningMode)) {
+      return res.status(400).json({ message: `Learning mode must be one of: ${learningModes.join(", ")}` });
+    }
+    
     try {
       const systemStatusData = await storage.getSystemStatus();
       const updatedStatus = await storage.updateSystemStatus({
@@ -706,9 +1295,14 @@ In a production environment, this would display the actual content of the email.
       return res.status(401).send("Unauthorized");
     }
     
-    const { childAccountId, emailSubject, originalClassification, correctedClassification, feedbackNotes, featureData } = req.body;
+    const { childAccountId, emailSubject, emailText, emailHtml, originalClassification, correctedClassification, feedbackNotes, featureData } = req.body;
     
     try {
+      // The classifier learns from the words of the email, when it was sent along
+      const tokens = emailText || emailHtml
+        ? adaptiveClassifier.features(emailSubject || "", emailText || "", emailHtml || "")
+        : undefined;
+      
       const feedback = await storage.createMlFeedback({
         user_id: req.user.id,
         child_account_id: childAccountId,
@@ -716,9 +1310,10 @@ In a production environment, this would display the actual content of the email.
         original_classification: originalClassification,
         corrected_classification: correctedClassification,
         feedback_notes: feedbackNotes,
-        feature_data: featureData,
+        feature_data: tokens ? { ...featureData, tokens } : featureData,
       });
       
+      await adaptiveClassifier.train(req.user.id);
       res.status(201).json(feedback);
     } catch (error) {
       console.error("Error submitting ML feedback:", error);
@@ -726,6 +1321,23 @@ In a production environment, this would display the actual content of the email.
     }
   });
   
+  app.get("/api/adaptive-learning/agreement", isAuthenticated, async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Unauthorized");
+    }
+    
+    try {
+      const predictions = await storage.getModelPredictions(req.user.id);
+      res.json({
+        modes: await adaptiveClassifier.agreementReport(req.user.id),
+        recent: predictions.slice(0, 20),
+      });
+    } catch (error) {
+      console.error("Error getting model agreement report:", error);
+      res.status(500).json({ message: "Failed to get model agreement report" });
+    }
+  });
+  
   app.get("/api/adaptive-learning/feedback", isAuthenticated, async (req, res) => {
     if (!req.user) {
       return res.status(401).send("Unauthorized");
@@ -742,6 +1354,14 @@ In a production environment, this would display the actual content of the email.
 
   const httpServer = createServer(app);
 
+  // Re-wrap any credentials still encrypted under a retired master key
+  credentialVault.rotateStoredSecrets(storage)
+    .then(rotated => rotated > 0 && console.log(`Rotated credentials for ${rotated} child account(s)`))
+    .catch(err => console.error("Failed to rotate stored credentials:", err));
+
+  quarantineService.init(storage);
+  approvalService.init(storage);
+  
   // Initialize the email service
   emailService.init(storage, contentFilter).catch(err => {
     console.error("Failed to initialize email service:", err);
@@ -0,0 +1,44 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from './storage';
+import { ruleSimulator } from './rule-simulator';
+import { RuleDraft } from './content-filter';
+
+// A user of its own, so the demo data's filter rules do not apply
+const userId = 900;
+
+const rule = (rule_text: string, is_regex: boolean): RuleDraft => ({
+  rule_text, is_regex, match_mode: 'word', match_phrase: true, weight: 50, category: null, child_account_id: null
+});
+
+before(async () => {
+  for (let i = 0; i < 20; i++) {
+    await storage.createProcessedMessage({
+      user_id: userId,
+      child_account_id: 1,
+      folder_path: 'INBOX',
+      subject: `Newsletter ${i}`,
+      body_text: 'word '.repeat(4000),
+      hidden_text: '',
+      breakdown: [],
+      thresholds: { warning: 30, unsafe: 60 },
+      verdict: 'safe'
+    });
+  }
+});
+
+test('tries word rules against all recent mail', async () => {
+  const result = await ruleSimulator.simulate(userId, [rule('newsletter', false)], false);
+
+  assert.equal(result.messages, 20);
+  assert.equal(result.matched, 20);
+});
+
+test('leaves older mail out once regex rules have used up their budget', async () => {
+  const draft = Array.from({ length: 100 }, (_, index) => rule(`zz${index}q`, true));
+  const result = await ruleSimulator.simulate(userId, draft, false);
+
+  // Each 20,000-character message costs 200 pattern runs of the 50 million allowed
+  assert.equal(result.messages, 12);
+  assert.equal(result.matched, 0);
+});
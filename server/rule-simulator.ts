@@ -0,0 +1,201 @@
+import { storage } from './storage';
+import { contentFilter, RuleDraft, MessageText } from './content-filter';
+import { verdictFor, FilterVerdict, ScoreItem, ScoreThresholds } from './filter-scoring';
+import { termSpans, TextSpan } from './term-matcher';
+import { ProcessedMessage } from '@shared/schema';
+
+export type SimulationSample = {
+  id: number;
+  subject: string;
+  subjectSpans: TextSpan[];
+  snippet: string; // Part of the body around the first match
+  snippetSpans: TextSpan[];
+  rules: string[]; // The draft rules that matched
+  verdict: FilterVerdict; // With the current rules
+  draftVerdict: FilterVerdict; // With the draft rules
+};
+
+export type SimulationResult = {
+  messages: number; // Messages the draft was tried against
+  matched: number; // Messages any draft rule matched
+  hits: Array<{ rule_text: string; is_regex: boolean; count: number }>;
+  samples: SimulationSample[];
+  verdictChanges: Array<{ from: FilterVerdict; to: FilterVerdict; count: number }>;
+};
+
+// Matched messages returned as samples
+const MAX_SAMPLES = 10;
+// Characters of body text shown before and after the first match
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 120;
+// Characters regex rules may be run over in one simulation, counting each
+// pattern separately; older mail is left out once it is used up
+const MAX_REGEX_WORK = 50000000;
+
+/**
+ * Rule Simulator
+ *
+ * Tries draft filter rules against the user's recently processed mail before
+ * they are saved. Only custom rules are scored again: everything else that
+ * added to a message's score (default terms, links, sender checks and so on)
+ * is taken from the original check, and the verdicts before and after use
+ * the thresholds the message was checked with.
+ */
+class RuleSimulator {
+  /**
+   * Run draft rules against the processed message history
+   * @param draft The rules to try
+   * @param replace Whether the draft replaces the user's custom rules rather than adding to them
+   * @param childAccountId Only try mail of this child account
+   */
+  async simulate(userId: number, draft: RuleDraft[], replace: boolean, childAccountId?: number): Promise<SimulationResult> {
+    const current = await storage.getFilterRules(userId);
+    const history = this.withinBudget(await storage.getProcessedMessages(userId, childAccountId), current, draft, replace);
+    const texts = history.map(message => this.textOf(message));
+
+    const currentItems = await contentFilter.scoreCustomRules(current, texts);
+    const draftItems = await contentFilter.scoreCustomRules(replace ? draft : [...current, ...draft], texts);
+
+    const hits = draft.map(rule => ({ rule_text: rule.rule_text, is_regex: rule.is_regex, count: 0 }));
+    const changes = new Map<string, { from: FilterVerdict; to: FilterVerdict; count: number }>();
+    const samples: SimulationSample[] = [];
+    let matched = 0;
+
+    history.forEach((message, index) => {
+      // Other child accounts' rules never apply to this message
+      const applicable = draft.filter(rule => rule.child_account_id === null || rule.child_account_id === message.child_account_id);
+      const matches = contentFilter.findMatchingRules(applicable, texts[index].visibleText, texts[index].hiddenText);
+      matches.forEach(({ rule }) => hits[draft.indexOf(rule)].count++);
+
+      const base = (message.breakdown as ScoreItem[]).filter(item => item.source !== 'custom_rule');
+      const thresholds = message.thresholds as ScoreThresholds;
+      const verdict = verdictFor(this.total(base) + this.total(currentItems[index]), thresholds);
+      const draftVerdict = verdictFor(this.total(base) + this.total(draftItems[index]), thresholds);
+
+      if (verdict !== draftVerdict) {
+        const key = `${verdict}:${draftVerdict}`;
+        const change = changes.get(key) || { from: verdict, to: draftVerdict, count: 0 };
+        change.count++;
+        changes.set(key, change);
+      }
+
+      if (matches.length === 0) {
+        return;
+      }
+      matched++;
+      if (samples.length < MAX_SAMPLES) {
+        samples.push(this.sample(message, matches.map(match => match.rule), verdict, draftVerdict));
+      }
+    });
+
+    return {
+      messages: history.length,
+      matched,
+      hits,
+      samples,
+      verdictChanges: Array.from(changes.values()).sort((a, b) => b.count - a.count)
+    };
+  }
+
+  /**
+   * The newest messages that regex rules can be run over within MAX_REGEX_WORK.
+   * The current rules are run once, or twice when the draft adds to them, and
+   * the draft rules twice: once to score and once to count hits.
+   */
+  private withinBudget(history: ProcessedMessage[], current: RuleDraft[], draft: RuleDraft[], replace: boolean): ProcessedMessage[] {
+    const regexCount = (rules: RuleDraft[]) => rules.filter(rule => rule.is_regex).length;
+    const patterns = regexCount(current) * (replace ? 1 : 2) + regexCount(draft) * 2;
+    if (patterns === 0) {
+      return history;
+    }
+
+    let work = 0;
+    const within: ProcessedMessage[] = [];
+    for (const message of history) {
+      const text = this.textOf(message);
+      work += (text.visibleText.length + text.hiddenText.length) * patterns;
+      if (work > MAX_REGEX_WORK) {
+        break;
+      }
+      within.push(message);
+    }
+    return within;
+  }
+
+  private textOf(message: ProcessedMessage): MessageText {
+    return {
+      childAccountId: message.child_account_id,
+      visibleText: [message.subject, message.body_text].filter(Boolean).join('\n'),
+      hiddenText: message.hidden_text
+    };
+  }
+
+  private total(items: ScoreItem[]): number {
+    return items.reduce((total, item) => total + item.score, 0);
+  }
+
+  /**
+   * A matched message with the matches in its subject and body marked
+   */
+  private sample(message: ProcessedMessage, rules: RuleDraft[], verdict: FilterVerdict, draftVerdict: FilterVerdict): SimulationSample {
+    const subject = message.subject || '';
+    const bodySpans = this.merge(rules.flatMap(rule => this.spans(rule, message.body_text)));
+
+    // Show the body around the first match, or its start when the match was elsewhere
+    const start = bodySpans.length > 0 ? Math.max(0, bodySpans[0].start - SNIPPET_BEFORE) : 0;
+    const end = Math.min(message.body_text.length, (bodySpans.length > 0 ? bodySpans[0].end : 0) + SNIPPET_AFTER);
+
+    return {
+      id: message.id,
+      subject,
+      subjectSpans: this.merge(rules.flatMap(rule => this.spans(rule, subject))),
+      snippet: message.body_text.slice(start, end),
+      snippetSpans: bodySpans
+        .filter(span => span.start >= start && span.end <= end)
+        .map(span => ({ start: span.start - start, end: span.end - start })),
+      rules: rules.map(rule => rule.rule_text),
+      verdict,
+      draftVerdict
+    };
+  }
+
+  /**
+   * Where a rule matches text as written
+   */
+  private spans(rule: RuleDraft, text: string): TextSpan[] {
+    if (!rule.is_regex) {
+      return termSpans({ text: rule.rule_text, mode: rule.match_mode, phrase: rule.match_phrase, value: rule }, text);
+    }
+
+    const spans: TextSpan[] = [];
+    const regex = new RegExp(rule.rule_text, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // Step past empty matches so the search moves on
+        regex.lastIndex++;
+        continue;
+      }
+      spans.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return spans;
+  }
+
+  /**
+   * Sort spans and join those that overlap
+   */
+  private merge(spans: TextSpan[]): TextSpan[] {
+    const merged: TextSpan[] = [];
+    [...spans].sort((a, b) => a.start - b.start).forEach(span => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+    return merged;
+  }
+}
+
+export const ruleSimulator = new RuleSimulator();
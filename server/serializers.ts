@@ -0,0 +1,26 @@
+import { ChildAccount, PublicChildAccount, PublicUser, User } from '@shared/schema';
+
+/**
+ * Strip credentials from a child account before sending it to the client
+ * @param account The child account as stored
+ * @returns The account with secrets replaced by presence flags
+ */
+export function toPublicChildAccount(account: ChildAccount): PublicChildAccount {
+  const { password, app_password, oauth_token, oauth_refresh_token, ...rest } = account;
+  return {
+    ...rest,
+    has_password: !!password,
+    has_app_password: !!app_password,
+    has_oauth_token: !!(oauth_token || oauth_refresh_token)
+  };
+}
+
+/**
+ * Strip the password hash from a user before sending it to the client
+ * @param user The user as stored
+ * @returns The user without the password hash
+ */
+export function toPublicUser(user: User): PublicUser {
+  const { password, ...rest } = user;
+  return rest;
+}
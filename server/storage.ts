@@ -8,8 +8,29 @@ import {
   junkMailPreferences, type JunkMailPreferences, type InsertJunkMailPreferences,
   emailProviders, type EmailProvider, type InsertEmailProvider,
   emailProviderEnum,
-  mlFeedback, type MlFeedback, type InsertMlFeedback
+  mlFeedback, type MlFeedback, type InsertMlFeedback,
+  syncCheckpoints, type SyncCheckpoint, type InsertSyncCheckpoint,
+  quarantinedMessages, type QuarantinedMessage, type InsertQuarantinedMessage,
+  pendingApprovals, type PendingApproval, type InsertPendingApproval,
+  monitoredFolders, type MonitoredFolder, type InsertMonitoredFolder,
+  attachmentPolicies, type AttachmentPolicy, type InsertAttachmentPolicy,
+  categorySettings, type CategorySetting, type InsertCategorySetting,
+  classifierModels, type ClassifierModel, type InsertClassifierModel,
+  modelPredictions, type ModelPrediction, type InsertModelPrediction,
+  processedMessages, type ProcessedMessage, type InsertProcessedMessage
 } from "@shared/schema";
+import { credentialVault } from "./credential-vault";
+import { extractEmailAddress } from "./email-address";
+import { headerAnalyzer } from "./header-analyzer";
+import type { DkimResult } from "./dkim-verifier";
+import { providerPresets } from "./providers/provider-presets";
+import type { ProviderType } from "./providers/provider-factory";
+
+// Recently processed messages kept per user, for trying out draft filter rules
+const PROCESSED_MESSAGE_HISTORY = 500;
+
+// Recent model predictions kept per user, for reporting how often the model agrees with the rules
+const MODEL_PREDICTION_HISTORY = 1000;
 
 export interface IStorage {
   // User methods
@@ -42,7 +63,7 @@ export interface IStorage {
   getTrustedSenders(userId?: number, childAccountId?: number): Promise<TrustedSender[]>;
   createTrustedSender(sender: InsertTrustedSender): Promise<TrustedSender>;
   deleteTrustedSender(id: number): Promise<void>;
-  isEmailTrusted(email: string, userId: number, childAccountId?: number): Promise<boolean>;
+  isEmailTrusted(email: string, userId: number, childAccountId?: number, headers?: Record<string, string>, dkimResults?: DkimResult[]): Promise<boolean>;
   
   // Junk mail preferences methods
   getJunkMailPreferences(userId: number, childAccountId?: number): Promise<JunkMailPreferences | undefined>;
@@ -65,6 +86,51 @@ export interface IStorage {
   createMlFeedback(feedback: InsertMlFeedback): Promise<MlFeedback>;
   getMlFeedback(userId: number, childAccountId?: number): Promise<MlFeedback[]>;
   getMlFeedbackById(id: number): Promise<MlFeedback | undefined>;
+  
+  // Adaptive classifier methods
+  getClassifierModel(userId: number): Promise<ClassifierModel | undefined>;
+  saveClassifierModel(model: InsertClassifierModel): Promise<ClassifierModel>;
+  createModelPrediction(prediction: InsertModelPrediction): Promise<ModelPrediction>;
+  getModelPredictions(userId: number): Promise<ModelPrediction[]>;
+  
+  // Processed message history methods
+  createProcessedMessage(message: InsertProcessedMessage): Promise<ProcessedMessage>;
+  getProcessedMessages(userId: number, childAccountId?: number): Promise<ProcessedMessage[]>;
+  
+  // Monitored folder methods
+  getMonitoredFolder(id: number): Promise<MonitoredFolder | undefined>;
+  getMonitoredFolders(childAccountId: number): Promise<MonitoredFolder[]>;
+  createMonitoredFolder(folder: InsertMonitoredFolder): Promise<MonitoredFolder>;
+  updateMonitoredFolder(id: number, data: Partial<InsertMonitoredFolder>): Promise<MonitoredFolder>;
+  deleteMonitoredFolder(id: number): Promise<void>;
+  
+  // Attachment policy methods
+  getAttachmentPolicy(childAccountId: number): Promise<AttachmentPolicy | undefined>;
+  saveAttachmentPolicy(policy: InsertAttachmentPolicy): Promise<AttachmentPolicy>;
+  
+  // Content category methods
+  getCategorySettings(childAccountId: number): Promise<CategorySetting[]>;
+  saveCategorySetting(setting: InsertCategorySetting): Promise<CategorySetting>;
+  
+  // Sync checkpoint methods
+  getSyncCheckpoint(childAccountId: number, folderPath: string): Promise<SyncCheckpoint | undefined>;
+  saveSyncCheckpoint(checkpoint: InsertSyncCheckpoint): Promise<SyncCheckpoint>;
+  deleteSyncCheckpoints(childAccountId: number): Promise<void>;
+  
+  // Quarantine methods
+  createQuarantinedMessage(message: InsertQuarantinedMessage): Promise<QuarantinedMessage>;
+  getQuarantinedMessage(id: number): Promise<QuarantinedMessage | undefined>;
+  getQuarantinedMessages(userId: number, childAccountId?: number, status?: string): Promise<QuarantinedMessage[]>;
+  findQuarantinedMessageByHeader(childAccountId: number, messageIdHeader: string): Promise<QuarantinedMessage | undefined>;
+  getExpiredQuarantinedMessages(now: Date): Promise<QuarantinedMessage[]>;
+  updateQuarantinedMessage(id: number, data: Partial<Pick<QuarantinedMessage, 'status' | 'resolved_at'>>): Promise<QuarantinedMessage>;
+  
+  // Approval queue methods
+  createPendingApproval(approval: InsertPendingApproval): Promise<PendingApproval>;
+  getPendingApproval(id: number): Promise<PendingApproval | undefined>;
+  getPendingApprovals(userId: number, childAccountId?: number, status?: string): Promise<PendingApproval[]>;
+  findPendingApprovalByHeader(childAccountId: number, messageIdHeader: string): Promise<PendingApproval | undefined>;
+  updatePendingApproval(id: number, data: Partial<Pick<PendingApproval, 'status' | 'resolved_at' | 'trusted_sender_id'>>): Promise<PendingApproval>;
 }
 
 export class MemStorage implements IStorage {
@@ -77,6 +143,15 @@ export class MemStorage implements IStorage {
   private systemStatusData: SystemStatus | undefined;
   private emailProviderData: Map<number, EmailProvider>;
   private mlFeedbackData: Map<number, MlFeedback>;
+  private syncCheckpointData: Map<number, SyncCheckpoint>;
+  private quarantinedMessageData: Map<number, QuarantinedMessage>;
+  private pendingApprovalData: Map<number, PendingApproval>;
+  private monitoredFolderData: Map<number, MonitoredFolder>;
+  private attachmentPolicyData: Map<number, AttachmentPolicy>;
+  private categorySettingData: Map<number, CategorySetting>;
+  private classifierModelData: Map<number, ClassifierModel>;
+  private modelPredictionData: Map<number, ModelPrediction>;
+  private processedMessageData: Map<number, ProcessedMessage>;
   
   private userIdCounter: number;
   private childAccountIdCounter: number;
@@ -86,6 +161,15 @@ export class MemStorage implements IStorage {
   private junkMailPreferencesIdCounter: number;
   private emailProviderIdCounter: number;
   private mlFeedbackIdCounter: number;
+  private syncCheckpointIdCounter: number;
+  private quarantinedMessageIdCounter: number;
+  private pendingApprovalIdCounter: number;
+  private monitoredFolderIdCounter: number;
+  private attachmentPolicyIdCounter: number;
+  private categorySettingIdCounter: number;
+  private classifierModelIdCounter: number;
+  private modelPredictionIdCounter: number;
+  private processedMessageIdCounter: number;
   
   constructor() {
     this.users = new Map();
@@ -95,6 +179,16 @@ export class MemStorage implements IStorage {
     this.trustedSenders = new Map();
     this.junkMailPreferences = new Map();
     this.emailProviderData = new Map();
+    this.mlFeedbackData = new Map();
+    this.syncCheckpointData = new Map();
+    this.quarantinedMessageData = new Map();
+    this.pendingApprovalData = new Map();
+    this.monitoredFolderData = new Map();
+    this.attachmentPolicyData = new Map();
+    this.categorySettingData = new Map();
+    this.classifierModelData = new Map();
+    this.modelPredictionData = new Map();
+    this.processedMessageData = new Map();
     
     this.userIdCounter = 1;
     this.childAccountIdCounter = 1;
@@ -103,13 +197,26 @@ export class MemStorage implements IStorage {
     this.trustedSenderIdCounter = 1;
     this.junkMailPreferencesIdCounter = 1;
     this.emailProviderIdCounter = 1;
+    this.mlFeedbackIdCounter = 1;
+    this.syncCheckpointIdCounter = 1;
+    this.quarantinedMessageIdCounter = 1;
+    this.pendingApprovalIdCounter = 1;
+    this.monitoredFolderIdCounter = 1;
+    this.attachmentPolicyIdCounter = 1;
+    this.categorySettingIdCounter = 1;
+    this.classifierModelIdCounter = 1;
+    this.modelPredictionIdCounter = 1;
+    this.processedMessageIdCounter = 1;
     
     // Initialize with a default system status
     this.systemStatusData = {
       id: 1,
       status: 'operational',
       last_updated: new Date(),
-      details: 'System initialized and ready'
+      details: 'System initialized and ready',
+      adaptive_learning_enabled: false,
+      learning_rate: '0.1',
+      learning_mode: 'passive'
     };
     
     // Add some demo data
@@ -157,11 +264,17 @@ export class MemStorage implements IStorage {
       last_check: null,
       last_forward: null,
       is_active: account.is_active ?? true,
-      check_interval: account.check_interval ?? 15
+      check_interval: account.check_interval ?? 15,
+      approval_mode: account.approval_mode ?? 'auto'
     };
     
     this.childAccounts.set(id, childAccount);
     
+    // New accounts start out scanning the junk folder, as before folders were
+    // configurable, and the Sent folder for outgoing-mail alerts
+    await this.createMonitoredFolder({ child_account_id: id, folder_role: 'junk', action: 'quarantine' });
+    await this.createMonitoredFolder({ child_account_id: id, folder_role: 'sent', action: 'log' });
+    
     // Log the account creation
     await this.createActivityLog({
       user_id: account.user_id,
@@ -192,6 +305,13 @@ export class MemStorage implements IStorage {
     }
     
     this.childAccounts.delete(id);
+    await this.deleteSyncCheckpoints(id);
+    Array.from(this.monitoredFolderData.values())
+      .filter(folder => folder.child_account_id === id)
+      .forEach(folder => this.monitoredFolderData.delete(folder.id));
+    Array.from(this.attachmentPolicyData.values())
+      .filter(policy => policy.child_account_id === id)
+      .forEach(policy => this.attachmentPolicyData.delete(policy.id));
   }
   
   // Filter rule methods
@@ -226,6 +346,10 @@ export class MemStorage implements IStorage {
       child_account_id: rule.child_account_id ?? null,
       rule_text: rule.rule_text,
       is_regex: rule.is_regex ?? false,
+      match_mode: rule.match_mode ?? 'word',
+      match_phrase: rule.match_phrase ?? true,
+      weight: rule.weight ?? 50,
+      category: rule.category ?? null,
       created_at: new Date()
     };
     
@@ -252,6 +376,9 @@ export class MemStorage implements IStorage {
       activity_type: log.activity_type,
       details: log.details ?? null,
       sender_email: log.sender_email ?? null,
+      threat_type: log.threat_type ?? null,
+      dkim_domain: log.dkim_domain ?? null,
+      category: log.category ?? null,
       created_at: new Date()
     };
     
@@ -346,9 +473,14 @@ export class MemStorage implements IStorage {
     });
   }
   
-  async isEmailTrusted(email: string, userId: number, childAccountId?: number): Promise<boolean> {
-    // Normalize the email for comparison
-    const normalizedEmail = email.toLowerCase().trim();
+  async isEmailTrusted(email: string, userId: number, childAccountId?: number, headers?: Record<string, string>, dkimResults?: DkimResult[]): Promise<boolean> {
+    // A From address that fails authentication may be forged, so it earns no trust
+    if (headers && headerAnalyzer.verifySender(email, headers, dkimResults) === 'fail') {
+      return false;
+    }
+    
+    // Normalize the email for comparison; From headers usually carry a display name
+    const normalizedEmail = extractEmailAddress(email);
     
     // Check if the sender is in the trusted senders list
     const isTrusted = Array.from(this.trustedSenders.values()).some(sender => {
@@ -394,6 +526,7 @@ export class MemStorage implements IStorage {
       keep_receipts: prefs.keep_receipts ?? false,
       keep_social_media: prefs.keep_social_media ?? false,
       auto_delete_all: prefs.auto_delete_all ?? true,
+      quarantine_retention_days: prefs.quarantine_retention_days ?? 30,
       created_at: new Date(),
       updated_at: new Date()
     };
@@ -446,7 +579,10 @@ export class MemStorage implements IStorage {
         id: 1,
         status: 'operational',
         details: 'System initialized and ready',
-        last_updated: new Date()
+        last_updated: new Date(),
+        adaptive_learning_enabled: false,
+        learning_rate: '0.1',
+        learning_mode: 'passive'
       };
     }
     return this.systemStatusData;
@@ -458,14 +594,20 @@ export class MemStorage implements IStorage {
         id: 1,
         status: data.status,
         details: data.details ?? null,
-        last_updated: new Date()
+        last_updated: new Date(),
+        adaptive_learning_enabled: data.adaptive_learning_enabled ?? false,
+        learning_rate: data.learning_rate ?? '0.1',
+        learning_mode: data.learning_mode ?? 'passive'
       };
     } else {
       this.systemStatusData = {
         ...this.systemStatusData,
         status: data.status ?? this.systemStatusData.status,
         details: data.details ?? this.systemStatusData.details,
-        last_updated: new Date()
+        last_updated: new Date(),
+        adaptive_learning_enabled: data.adaptive_learning_enabled ?? this.systemStatusData.adaptive_learning_enabled,
+        learning_rate: data.learning_rate ?? this.systemStatusData.learning_rate,
+        learning_mode: data.learning_mode ?? this.systemStatusData.learning_mode
       };
     }
     
@@ -489,7 +631,7 @@ export class MemStorage implements IStorage {
       id: 1,
       user_id: 1,
       email: 'child1@icloud.com',
-      app_password: 'app-password-1',
+      app_password: credentialVault.encrypt('app-password-1'),
       password: null,
       display_name: 'Child One',
       is_active: true,
@@ -507,7 +649,8 @@ export class MemStorage implements IStorage {
       custom_host: null,
       custom_port: null,
       notes: 'Demo account for iCloud',
-      filter_level: 'medium'
+      filter_level: 'medium',
+      approval_mode: 'auto'
     };
     
     const childAccount2: ChildAccount = {
@@ -525,20 +668,47 @@ export class MemStorage implements IStorage {
       forwarding_email: 'parent@example.com',
       provider_id: 2, // Gmail
       auth_method: 'oauth2',
-      oauth_token: 'fake-oauth-token',
-      oauth_refresh_token: 'fake-oauth-refresh-token',
+      oauth_token: credentialVault.encrypt('fake-oauth-token'),
+      oauth_refresh_token: credentialVault.encrypt('fake-oauth-refresh-token'),
       oauth_token_expires: new Date(Date.now() + 60 * 60 * 1000), // 1 hour from now
       custom_junk_folder: null,
       custom_host: null,
       custom_port: null,
       notes: 'Demo account for Gmail',
-      filter_level: 'high'
+      filter_level: 'high',
+      approval_mode: 'auto'
     };
     
     this.childAccounts.set(childAccount1.id, childAccount1);
     this.childAccounts.set(childAccount2.id, childAccount2);
     this.childAccountIdCounter = 3;
     
+    // Scan the junk and Sent folders of both demo accounts, and the first one's inbox too
+    [childAccount1.id, childAccount2.id].forEach(childAccountId => {
+      (['junk', 'sent'] as const).forEach(role => {
+        const id = this.monitoredFolderIdCounter++;
+        this.monitoredFolderData.set(id, {
+          id,
+          child_account_id: childAccountId,
+          folder_role: role,
+          folder_path: null,
+          action: role === 'sent' ? 'log' : 'quarantine',
+          is_active: true,
+          created_at: new Date()
+        });
+      });
+    });
+    const inboxFolderId = this.monitoredFolderIdCounter++;
+    this.monitoredFolderData.set(inboxFolderId, {
+      id: inboxFolderId,
+      child_account_id: childAccount1.id,
+      folder_role: 'inbox',
+      folder_path: null,
+      action: 'quarantine',
+      is_active: true,
+      created_at: new Date()
+    });
+    
     // Create some filter rules
     const filterRule1: FilterRule = {
       id: 1,
@@ -546,6 +716,10 @@ export class MemStorage implements IStorage {
       child_account_id: null, // Applies to all children
       rule_text: 'custom-bad-word',
       is_regex: false,
+      match_mode: 'word',
+      match_phrase: true,
+      weight: 50,
+      category: null,
       created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) // 5 days ago
     };
     
@@ -555,6 +729,10 @@ export class MemStorage implements IStorage {
       child_account_id: 1, // Only for first child
       rule_text: '\\bbet\\b',
       is_regex: true,
+      match_mode: 'word',
+      match_phrase: true,
+      weight: 50,
+      category: 'gambling',
       created_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago
     };
     
@@ -594,6 +772,7 @@ export class MemStorage implements IStorage {
       keep_receipts: true,
       keep_social_media: false,
       auto_delete_all: true,
+      quarantine_retention_days: 30,
       created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
       updated_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago
     };
@@ -606,6 +785,7 @@ export class MemStorage implements IStorage {
       keep_receipts: true,
       keep_social_media: true,
       auto_delete_all: true,
+      quarantine_retention_days: 30,
       created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
       updated_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
     };
@@ -623,6 +803,9 @@ export class MemStorage implements IStorage {
         activity_type: 'account_added',
         details: 'Added new account: Child One (child1@icloud.com)',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // 7 days ago
       },
       {
@@ -632,6 +815,9 @@ export class MemStorage implements IStorage {
         activity_type: 'account_added',
         details: 'Added new account: Child Two (child2@gmail.com)',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
       },
       {
@@ -641,6 +827,9 @@ export class MemStorage implements IStorage {
         activity_type: 'check',
         details: 'Checking for new junk emails',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 24 * 60 * 60 * 1000) // 1 day ago
       },
       {
@@ -650,6 +839,9 @@ export class MemStorage implements IStorage {
         activity_type: 'filter_match',
         details: 'Inappropriate email detected: Contains blocked term: gambling',
         sender_email: 'spam@example.com',
+        threat_type: null,
+        dkim_domain: null,
+        category: 'gambling',
         created_at: new Date(Date.now() - 23 * 60 * 60 * 1000) // 23 hours ago
       },
       {
@@ -659,6 +851,9 @@ export class MemStorage implements IStorage {
         activity_type: 'forward',
         details: 'Email forwarded to parent@example.com',
         sender_email: 'spam@example.com',
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 23 * 60 * 60 * 1000) // 23 hours ago
       },
       {
@@ -668,6 +863,9 @@ export class MemStorage implements IStorage {
         activity_type: 'check',
         details: 'Checking for new junk emails',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 12 * 60 * 60 * 1000) // 12 hours ago
       },
       {
@@ -677,6 +875,9 @@ export class MemStorage implements IStorage {
         activity_type: 'check',
         details: 'Checking for new junk emails',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 1 * 60 * 60 * 1000) // 1 hour ago
       },
       {
@@ -686,6 +887,9 @@ export class MemStorage implements IStorage {
         activity_type: 'check',
         details: 'Checking for new junk emails',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 30 * 60 * 1000) // 30 minutes ago
       },
       {
@@ -695,6 +899,9 @@ export class MemStorage implements IStorage {
         activity_type: 'trusted_sender_added',
         details: 'Added trusted sender: school@example.edu (School email)',
         sender_email: 'school@example.edu',
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000) // 6 days ago
       },
       {
@@ -704,6 +911,9 @@ export class MemStorage implements IStorage {
         activity_type: 'trusted_sender_added',
         details: 'Added trusted sender: coach@sportsteam.com (Soccer coach)',
         sender_email: 'coach@sportsteam.com',
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
       },
       {
@@ -713,6 +923,9 @@ export class MemStorage implements IStorage {
         activity_type: 'junk_preferences_created',
         details: 'Created junk mail preferences',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) // 7 days ago
       },
       {
@@ -722,6 +935,9 @@ export class MemStorage implements IStorage {
         activity_type: 'junk_preferences_created',
         details: 'Created junk mail preferences',
         sender_email: null,
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
       },
       {
@@ -731,6 +947,9 @@ export class MemStorage implements IStorage {
         activity_type: 'kept',
         details: 'Kept junk email (newsletter): Weekly School Newsletter',
         sender_email: 'newsletter@school.edu',
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago
       },
       {
@@ -740,6 +959,9 @@ export class MemStorage implements IStorage {
         activity_type: 'kept',
         details: 'Kept junk email (social media): Your Instagram notifications',
         sender_email: 'notifications@instagram.com',
+        threat_type: null,
+        dkim_domain: null,
+        category: null,
         created_at: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000) // 1 day ago
       }
     ];
@@ -749,63 +971,13 @@ export class MemStorage implements IStorage {
     });
     this.activityLogIdCounter = logs.length + 1;
     
-    // Setup default email providers
-    const providers: EmailProvider[] = [
-      {
-        id: 1,
-        name: 'iCloud Mail',
-        provider_type: 'icloud',
-        host: 'imap.mail.me.com',
-        port: 993,
-        smtp_host: 'smtp.mail.me.com',
-        smtp_port: 587,
-        oauth_client_id: null,
-        oauth_client_secret: null,
-        oauth_redirect_uri: null,
-        oauth_auth_url: null,
-        oauth_token_url: null,
-        oauth_scope: null,
-        junk_folder_path: 'Junk',
-        created_at: new Date(),
-        updated_at: new Date()
-      },
-      {
-        id: 2,
-        name: 'Gmail',
-        provider_type: 'gmail',
-        host: 'imap.gmail.com',
-        port: 993,
-        smtp_host: 'smtp.gmail.com',
-        smtp_port: 587,
-        oauth_client_id: null,
-        oauth_client_secret: null,
-        oauth_redirect_uri: 'http://localhost:5000/api/oauth/callback',
-        oauth_auth_url: 'https://accounts.google.com/o/oauth2/auth',
-        oauth_token_url: 'https://oauth2.googleapis.com/token',
-        oauth_scope: 'https://mail.google.com/',
-        junk_folder_path: '[Gmail]/Spam',
-        created_at: new Date(),
-        updated_at: new Date()
-      },
-      {
-        id: 3,
-        name: 'Outlook',
-        provider_type: 'outlook',
-        host: 'outlook.office365.com',
-        port: 993,
-        smtp_host: 'smtp.office365.com',
-        smtp_port: 587,
-        oauth_client_id: null,
-        oauth_client_secret: null,
-        oauth_redirect_uri: 'http://localhost:5000/api/oauth/callback',
-        oauth_auth_url: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
-        oauth_token_url: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
-        oauth_scope: 'offline_access https://outlook.office.com/IMAP.AccessAsUser.All https://outlook.office.com/SMTP.Send',
-        junk_folder_path: 'Junk Email',
-        created_at: new Date(),
-        updated_at: new Date()
-      }
-    ];
+    // Seed one email provider row per supported provider type from the preset catalog
+    const providers: EmailProvider[] = (Object.keys(providerPresets) as ProviderType[]).map((providerType, index) => ({
+      ...providerPresets[providerType],
+      id: index + 1,
+      created_at: new Date(),
+      updated_at: new Date()
+    }));
     
     providers.forEach(provider => {
       this.emailProviderData.set(provider.id, provider);
@@ -885,6 +1057,363 @@ export class MemStorage implements IStorage {
       sender_email: null
     });
   }
+  
+  // Machine learning feedback methods
+  async createMlFeedback(data: InsertMlFeedback): Promise<MlFeedback> {
+    const id = this.mlFeedbackIdCounter++;
+    const feedback: MlFeedback = {
+      id,
+      user_id: data.user_id,
+      child_account_id: data.child_account_id ?? null,
+      email_subject: data.email_subject ?? null,
+      original_classification: data.original_classification,
+      corrected_classification: data.corrected_classification,
+      feedback_notes: data.feedback_notes ?? null,
+      feature_data: data.feature_data ?? null,
+      created_at: new Date()
+    };
+    
+    this.mlFeedbackData.set(id, feedback);
+    return feedback;
+  }
+  
+  async getMlFeedback(userId: number, childAccountId?: number): Promise<MlFeedback[]> {
+    return Array.from(this.mlFeedbackData.values()).filter(
+      (feedback) => feedback.user_id === userId &&
+        (childAccountId === undefined || feedback.child_account_id === childAccountId)
+    );
+  }
+  
+  async getMlFeedbackById(id: number): Promise<MlFeedback | undefined> {
+    return this.mlFeedbackData.get(id);
+  }
+  
+  // Adaptive classifier methods
+  async getClassifierModel(userId: number): Promise<ClassifierModel | undefined> {
+    return Array.from(this.classifierModelData.values()).find(
+      (model) => model.user_id === userId
+    );
+  }
+  
+  async saveClassifierModel(data: InsertClassifierModel): Promise<ClassifierModel> {
+    const existing = await this.getClassifierModel(data.user_id);
+    const model: ClassifierModel = {
+      id: existing ? existing.id : this.classifierModelIdCounter++,
+      user_id: data.user_id,
+      model: data.model,
+      last_feedback_id: data.last_feedback_id ?? existing?.last_feedback_id ?? 0,
+      updated_at: new Date()
+    };
+    
+    this.classifierModelData.set(model.id, model);
+    return model;
+  }
+  
+  async createModelPrediction(data: InsertModelPrediction): Promise<ModelPrediction> {
+    const id = this.modelPredictionIdCounter++;
+    const prediction: ModelPrediction = {
+      id,
+      user_id: data.user_id,
+      child_account_id: data.child_account_id ?? null,
+      subject: data.subject ?? null,
+      learning_mode: data.learning_mode,
+      rule_verdict: data.rule_verdict,
+      predicted: data.predicted,
+      probability: data.probability,
+      final_verdict: data.final_verdict,
+      created_at: new Date()
+    };
+    
+    this.modelPredictionData.set(id, prediction);
+    
+    // Only the most recent predictions are kept for each user
+    const history = Array.from(this.modelPredictionData.values())
+      .filter(entry => entry.user_id === data.user_id)
+      .sort((a, b) => b.id - a.id);
+    history.slice(MODEL_PREDICTION_HISTORY).forEach(entry => this.modelPredictionData.delete(entry.id));
+    
+    return prediction;
+  }
+  
+  async getModelPredictions(userId: number): Promise<ModelPrediction[]> {
+    return Array.from(this.modelPredictionData.values())
+      .filter(prediction => prediction.user_id === userId)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+  
+  // Processed message history methods
+  async createProcessedMessage(data: InsertProcessedMessage): Promise<ProcessedMessage> {
+    const id = this.processedMessageIdCounter++;
+    const message: ProcessedMessage = {
+      id,
+      user_id: data.user_id,
+      child_account_id: data.child_account_id,
+      folder_path: data.folder_path,
+      subject: data.subject ?? null,
+      sender_email: data.sender_email ?? null,
+      body_text: data.body_text,
+      hidden_text: data.hidden_text,
+      breakdown: data.breakdown,
+      thresholds: data.thresholds,
+      verdict: data.verdict,
+      processed_at: new Date()
+    };
+    this.processedMessageData.set(id, message);
+    
+    // Only the most recent messages are kept for each user
+    const history = Array.from(this.processedMessageData.values())
+      .filter(entry => entry.user_id === data.user_id)
+      .sort((a, b) => b.id - a.id);
+    history.slice(PROCESSED_MESSAGE_HISTORY).forEach(entry => this.processedMessageData.delete(entry.id));
+    
+    return message;
+  }
+  
+  async getProcessedMessages(userId: number, childAccountId?: number): Promise<ProcessedMessage[]> {
+    return Array.from(this.processedMessageData.values())
+      .filter(message => message.user_id === userId &&
+        (childAccountId === undefined || message.child_account_id === childAccountId))
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  // Monitored folder methods
+  async getMonitoredFolder(id: number): Promise<MonitoredFolder | undefined> {
+    return this.monitoredFolderData.get(id);
+  }
+  
+  async getMonitoredFolders(childAccountId: number): Promise<MonitoredFolder[]> {
+    return Array.from(this.monitoredFolderData.values())
+      .filter(folder => folder.child_account_id === childAccountId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createMonitoredFolder(data: InsertMonitoredFolder): Promise<MonitoredFolder> {
+    const id = this.monitoredFolderIdCounter++;
+    const folder: MonitoredFolder = {
+      id,
+      child_account_id: data.child_account_id,
+      folder_role: data.folder_role ?? null,
+      folder_path: data.folder_path ?? null,
+      action: data.action ?? 'quarantine',
+      is_active: data.is_active ?? true,
+      created_at: new Date()
+    };
+    
+    this.monitoredFolderData.set(id, folder);
+    return folder;
+  }
+  
+  async updateMonitoredFolder(id: number, data: Partial<InsertMonitoredFolder>): Promise<MonitoredFolder> {
+    const folder = this.monitoredFolderData.get(id);
+    if (!folder) {
+      throw new Error(`Monitored folder with ID ${id} not found`);
+    }
+    
+    const updatedFolder: MonitoredFolder = { ...folder, ...data };
+    this.monitoredFolderData.set(id, updatedFolder);
+    return updatedFolder;
+  }
+  
+  async deleteMonitoredFolder(id: number): Promise<void> {
+    if (!this.monitoredFolderData.has(id)) {
+      throw new Error(`Monitored folder with ID ${id} not found`);
+    }
+    
+    this.monitoredFolderData.delete(id);
+  }
+  
+  // Attachment policy methods
+  async getAttachmentPolicy(childAccountId: number): Promise<AttachmentPolicy | undefined> {
+    return Array.from(this.attachmentPolicyData.values()).find(
+      (policy) => policy.child_account_id === childAccountId
+    );
+  }
+  
+  async saveAttachmentPolicy(data: InsertAttachmentPolicy): Promise<AttachmentPolicy> {
+    const existing = await this.getAttachmentPolicy(data.child_account_id);
+    const policy: AttachmentPolicy = {
+      id: existing ? existing.id : this.attachmentPolicyIdCounter++,
+      child_account_id: data.child_account_id,
+      block_executables: data.block_executables ?? existing?.block_executables ?? true,
+      block_scripts: data.block_scripts ?? existing?.block_scripts ?? true,
+      block_macro_documents: data.block_macro_documents ?? existing?.block_macro_documents ?? true,
+      block_encrypted_archives: data.block_encrypted_archives ?? existing?.block_encrypted_archives ?? true,
+      max_archive_depth: data.max_archive_depth ?? existing?.max_archive_depth ?? 3,
+      updated_at: new Date()
+    };
+    
+    this.attachmentPolicyData.set(policy.id, policy);
+    return policy;
+  }
+  
+  // Content category methods
+  async getCategorySettings(childAccountId: number): Promise<CategorySetting[]> {
+    return Array.from(this.categorySettingData.values()).filter(
+      (setting) => setting.child_account_id === childAccountId
+    );
+  }
+  
+  async saveCategorySetting(data: InsertCategorySetting): Promise<CategorySetting> {
+    const existing = (await this.getCategorySettings(data.child_account_id)).find(
+      (setting) => setting.category === data.category
+    );
+    const setting: CategorySetting = {
+      id: existing ? existing.id : this.categorySettingIdCounter++,
+      child_account_id: data.child_account_id,
+      category: data.category,
+      enabled: data.enabled ?? existing?.enabled ?? true,
+      sensitivity: data.sensitivity ?? existing?.sensitivity ?? 'medium',
+      updated_at: new Date()
+    };
+    
+    this.categorySettingData.set(setting.id, setting);
+    return setting;
+  }
+  
+  // Sync checkpoint methods
+  async getSyncCheckpoint(childAccountId: number, folderPath: string): Promise<SyncCheckpoint | undefined> {
+    return Array.from(this.syncCheckpointData.values()).find(
+      (checkpoint) => checkpoint.child_account_id === childAccountId && checkpoint.folder_path === folderPath
+    );
+  }
+  
+  async saveSyncCheckpoint(data: InsertSyncCheckpoint): Promise<SyncCheckpoint> {
+    const existing = await this.getSyncCheckpoint(data.child_account_id, data.folder_path);
+    const checkpoint: SyncCheckpoint = {
+      id: existing ? existing.id : this.syncCheckpointIdCounter++,
+      child_account_id: data.child_account_id,
+      folder_path: data.folder_path,
+      uid_validity: data.uid_validity,
+      last_uid: data.last_uid ?? 0,
+      retry_uids: data.retry_uids ?? null,
+      updated_at: new Date()
+    };
+    
+    this.syncCheckpointData.set(checkpoint.id, checkpoint);
+    return checkpoint;
+  }
+  
+  async deleteSyncCheckpoints(childAccountId: number): Promise<void> {
+    Array.from(this.syncCheckpointData.values())
+      .filter(checkpoint => checkpoint.child_account_id === childAccountId)
+      .forEach(checkpoint => this.syncCheckpointData.delete(checkpoint.id));
+  }
+  
+  // Quarantine methods
+  async createQuarantinedMessage(data: InsertQuarantinedMessage): Promise<QuarantinedMessage> {
+    const id = this.quarantinedMessageIdCounter++;
+    const message: QuarantinedMessage = {
+      id,
+      user_id: data.user_id,
+      child_account_id: data.child_account_id,
+      activity_log_id: data.activity_log_id ?? null,
+      original_folder: data.original_folder,
+      quarantine_folder: data.quarantine_folder,
+      quarantine_uid: data.quarantine_uid ?? null,
+      quarantine_uid_validity: data.quarantine_uid_validity ?? null,
+      message_id_header: data.message_id_header ?? null,
+      subject: data.subject ?? null,
+      sender_email: data.sender_email ?? null,
+      reason: data.reason ?? null,
+      features: data.features ?? null,
+      status: 'quarantined',
+      quarantined_at: new Date(),
+      expires_at: data.expires_at,
+      resolved_at: null
+    };
+    
+    this.quarantinedMessageData.set(id, message);
+    return message;
+  }
+  
+  async getQuarantinedMessage(id: number): Promise<QuarantinedMessage | undefined> {
+    return this.quarantinedMessageData.get(id);
+  }
+  
+  async getQuarantinedMessages(userId: number, childAccountId?: number, status?: string): Promise<QuarantinedMessage[]> {
+    return Array.from(this.quarantinedMessageData.values())
+      .filter(message => message.user_id === userId)
+      .filter(message => childAccountId === undefined || message.child_account_id === childAccountId)
+      .filter(message => status === undefined || message.status === status)
+      .sort((a, b) => b.quarantined_at.getTime() - a.quarantined_at.getTime());
+  }
+  
+  async findQuarantinedMessageByHeader(childAccountId: number, messageIdHeader: string): Promise<QuarantinedMessage | undefined> {
+    return Array.from(this.quarantinedMessageData.values())
+      .filter(message => message.child_account_id === childAccountId && message.message_id_header === messageIdHeader)
+      .sort((a, b) => b.quarantined_at.getTime() - a.quarantined_at.getTime())[0];
+  }
+  
+  async getExpiredQuarantinedMessages(now: Date): Promise<QuarantinedMessage[]> {
+    return Array.from(this.quarantinedMessageData.values()).filter(
+      message => message.status === 'quarantined' && message.expires_at.getTime() <= now.getTime()
+    );
+  }
+  
+  async updateQuarantinedMessage(id: number, data: Partial<Pick<QuarantinedMessage, 'status' | 'resolved_at'>>): Promise<QuarantinedMessage> {
+    const message = this.quarantinedMessageData.get(id);
+    if (!message) {
+      throw new Error(`Quarantined message with ID ${id} not found`);
+    }
+    
+    const updatedMessage: QuarantinedMessage = { ...message, ...data };
+    this.quarantinedMessageData.set(id, updatedMessage);
+    return updatedMessage;
+  }
+  
+  // Approval queue methods
+  async createPendingApproval(data: InsertPendingApproval): Promise<PendingApproval> {
+    const id = this.pendingApprovalIdCounter++;
+    const approval: PendingApproval = {
+      id,
+      user_id: data.user_id,
+      child_account_id: data.child_account_id,
+      original_folder: data.original_folder,
+      pending_folder: data.pending_folder,
+      message_id_header: data.message_id_header ?? null,
+      subject: data.subject ?? null,
+      sender_email: data.sender_email,
+      status: 'pending',
+      trusted_sender_id: null,
+      held_at: new Date(),
+      resolved_at: null
+    };
+    
+    this.pendingApprovalData.set(id, approval);
+    return approval;
+  }
+  
+  async getPendingApproval(id: number): Promise<PendingApproval | undefined> {
+    return this.pendingApprovalData.get(id);
+  }
+  
+  async getPendingApprovals(userId: number, childAccountId?: number, status?: string): Promise<PendingApproval[]> {
+    return Array.from(this.pendingApprovalData.values())
+      .filter(approval => approval.user_id === userId)
+      .filter(approval => childAccountId === undefined || approval.child_account_id === childAccountId)
+      .filter(approval => status === undefined || approval.status === status)
+      .sort((a, b) => b.held_at.getTime() - a.held_at.getTime());
+  }
+  
+  async findPendingApprovalByHeader(childAccountId: number, messageIdHeader: string): Promise<PendingApproval | undefined> {
+    return Array.from(this.pendingApprovalData.values())
+      .filter(approval => approval.child_account_id === childAccountId && approval.message_id_header === messageIdHeader)
+      .sort((a, b) => b.held_at.getTime() - a.held_at.getTime())[0];
+  }
+  
+  async updatePendingApproval(
+    id: number,
+    data: Partial<Pick<PendingApproval, 'status' | 'resolved_at' | 'trusted_sender_id'>>
+  ): Promise<PendingApproval> {
+    const approval = this.pendingApprovalData.get(id);
+    if (!approval) {
+      throw new Error(`Pending approval with ID ${id} not found`);
+    }
+    
+    const updatedApproval: PendingApproval = { ...approval, ...data };
+    this.pendingApprovalData.set(id, updatedApproval);
+    return updatedApproval;
+  }
 }
 
 export const storage = new MemStorage();
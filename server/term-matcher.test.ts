@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TermMatcher, TermPattern, termSpans, stem } from './term-matcher';
+
+const matcher = (...patterns: Array<Omit<TermPattern<string>, 'value'>>) =>
+  new TermMatcher(patterns.map(pattern => ({ ...pattern, value: pattern.text })));
+
+test('matches whole words only', () => {
+  const terms = matcher({ text: 'bet' }, { text: 'slim' }, { text: 'sex' });
+
+  assert.deepEqual(terms.match('Learn the alphabet with our Muslim neighbours in Sussex'), []);
+  assert.deepEqual(terms.match('Place a bet, get slim, free sex!'), ['bet', 'slim', 'sex']);
+  assert.deepEqual(terms.match('BET now'), ['bet']);
+});
+
+test('matches a phrase only with its words together and in order', () => {
+  const terms = matcher({ text: 'free money' });
+
+  assert.deepEqual(terms.match('Get FREE, money-back offers'), ['free money']);
+  assert.deepEqual(terms.match('money for free'), []);
+  assert.deepEqual(terms.match('free your money'), []);
+});
+
+test('matches the words of a term anywhere when phrase matching is off', () => {
+  const terms = matcher({ text: 'free money', phrase: false });
+
+  assert.deepEqual(terms.match('money for free'), ['free money']);
+  assert.deepEqual(terms.match('free time'), []);
+});
+
+test('lets the last word of a prefix term start a longer word', () => {
+  const terms = matcher({ text: 'gambl', mode: 'prefix' }, { text: 'online casin', mode: 'prefix' });
+
+  assert.deepEqual(terms.match('gambling online casinos'), ['gambl', 'online casin']);
+  assert.deepEqual(terms.match('a gambler at the online casino'), ['gambl', 'online casin']);
+  assert.deepEqual(terms.match('scrambling'), []);
+  assert.deepEqual(terms.match('onlines casino'), []);
+});
+
+test('compares words by stem in stem mode', () => {
+  const terms = matcher({ text: 'betting', mode: 'stem' });
+
+  assert.equal(stem('betting'), stem('bets'));
+  assert.deepEqual(terms.match('He bets on horses'), ['betting']);
+  assert.deepEqual(terms.match('the alphabet'), []);
+});
+
+test('reports every term among overlapping matches, in the order given', () => {
+  const terms = matcher({ text: 'club' }, { text: 'poker night' }, { text: 'night club' }, { text: 'poker' });
+
+  assert.deepEqual(terms.match('poker night club'), ['club', 'poker night', 'night club', 'poker']);
+  assert.equal(terms.first('poker night club'), 'club');
+  assert.equal(terms.first('nothing here'), null);
+});
+
+test('ignores terms with no words', () => {
+  assert.deepEqual(matcher({ text: '!!' }, { text: 'win' }).match('!! win !!'), ['win']);
+});
+
+test('finds spans of the term as written', () => {
+  const text = 'Alphabet soup, Free  Money and free-money';
+
+  assert.deepEqual(termSpans({ text: 'bet', value: null }, text), []);
+  assert.deepEqual(termSpans({ text: 'free money', value: null }, text), [{ start: 15, end: 26 }, { start: 31, end: 41 }]);
+  assert.deepEqual(termSpans({ text: 'soup', mode: 'prefix', value: null }, 'soups'), [{ start: 0, end: 5 }]);
+});
@@ -0,0 +1,227 @@
+export type TermMatchMode = 'word' | 'prefix' | 'stem';
+
+export type TermPattern<T> = {
+  text: string;
+  mode?: TermMatchMode; // Defaults to 'word'
+  phrase?: boolean; // Defaults to true: several words must appear together, in order
+  value: T;
+};
+
+export type TextSpan = {
+  start: number;
+  end: number; // Exclusive
+};
+
+// Built at runtime: Unicode property escapes are beyond the compile target
+const TOKEN_PATTERN = new RegExp('[\\p{L}\\p{N}\\p{M}]+', 'gu');
+
+// Letters, digits and marks, as in TOKEN_PATTERN
+const WORD_CHAR = '[\\p{L}\\p{N}\\p{M}]';
+
+// Longest first; 'ies' and 'ied' become 'y'
+const SUFFIXES = ['ingly', 'edly', 'ings', 'ing', 'ies', 'ied', 'ers', 'est', 'es', 'ed', 'er', 'ly', 's'];
+
+/**
+ * Split text into lowercase words. Apostrophes inside a word are dropped so
+ * "don't" stays one word.
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/(\w)['’](\w)/g, '$1$2');
+  return normalized.match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Reduce an English word to a rough stem, so "betting", "bets" and "bet"
+ * compare equal. Both the rule and the message go through the same steps,
+ * so the stem only has to be consistent, not a real word.
+ */
+export function stem(token: string): string {
+  if (token.length <= 3) {
+    return token;
+  }
+
+  let result = token;
+  for (const suffix of SUFFIXES) {
+    // "class", "bonus" and "this" keep their final s
+    if (suffix === 's' && /(ss|us|is)$/.test(result)) {
+      continue;
+    }
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + (suffix === 'ies' || suffix === 'ied' ? 'y' : '');
+      break;
+    }
+  }
+
+  // "betting" -> "bett" -> "bet"
+  if (/([^aeiouslz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  // "gamble" and "gambling" both become "gambl"
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Where a term appears in text as written, for highlighting. Words are
+ * compared as match() compares them, except that a stemmed word is shown
+ * from its stem to the end of the word; terms only found once the text has
+ * been normalized have no spans.
+ */
+export function termSpans(pattern: TermPattern<unknown>, text: string): TextSpan[] {
+  const words = tokenize(pattern.text);
+  const parts = words.length === 0 ? [] : pattern.phrase === false ? words.map(word => [word]) : [words];
+  const spans: TextSpan[] = [];
+
+  parts.forEach(part => {
+    const body = part.map((word, index) => {
+      const escaped = (pattern.mode === 'stem' ? stem(word) : word).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const open = pattern.mode === 'stem' || (pattern.mode === 'prefix' && index === part.length - 1);
+      return open ? `${escaped}${WORD_CHAR}*` : escaped;
+    }).join(`[^\\p{L}\\p{N}\\p{M}]+`);
+    const regex = new RegExp(`(?<!${WORD_CHAR})${body}(?!${WORD_CHAR})`, 'giu');
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      spans.push({ start: match.index, end: match.index + match[0].length });
+    }
+  });
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Aho-Corasick automaton over characters
+ */
+class Automaton {
+  private transitions: Array<Map<string, number>> = [new Map()];
+  private failure: number[] = [0];
+  private outputs: number[][] = [[]];
+
+  add(pattern: string, id: number) {
+    let state = 0;
+    for (const char of pattern) {
+      let next = this.transitions[state].get(char);
+      if (next === undefined) {
+        next = this.transitions.length;
+        this.transitions.push(new Map());
+        this.failure.push(0);
+        this.outputs.push([]);
+        this.transitions[state].set(char, next);
+      }
+      state = next;
+    }
+    this.outputs[state].push(id);
+  }
+
+  /**
+   * Link each state to the longest proper suffix that is also a state
+   */
+  build() {
+    const queue: number[] = [];
+    this.transitions[0].forEach(child => {
+      this.failure[child] = 0;
+      queue.push(child);
+    });
+
+    for (let i = 0; i < queue.length; i++) {
+      const state = queue[i];
+      this.transitions[state].forEach((child, char) => {
+        let fallback = this.failure[state];
+        while (fallback > 0 && !this.transitions[fallback].has(char)) {
+          fallback = this.failure[fallback];
+        }
+        const target = this.transitions[fallback].get(char);
+        this.failure[child] = target !== undefined && target !== child ? target : 0;
+        this.outputs[child] = this.outputs[child].concat(this.outputs[this.failure[child]]);
+        queue.push(child);
+      });
+    }
+  }
+
+  search(text: string, found: (id: number) => void) {
+    let state = 0;
+    for (const char of text) {
+      while (state > 0 && !this.transitions[state].has(char)) {
+        state = this.failure[state];
+      }
+      state = this.transitions[state].get(char) ?? 0;
+      this.outputs[state].forEach(found);
+    }
+  }
+}
+
+/**
+ * Term Matcher
+ *
+ * Matches many filter terms against a message in one pass. Text is split into
+ * words and terms match whole words, so "bet" does not match "alphabet".
+ * Per term, the last word can instead be a prefix of a longer word, or words
+ * can be compared by stem; a term with several words matches as a phrase
+ * unless phrase matching is turned off, in which case each word only has to
+ * appear somewhere.
+ */
+export class TermMatcher<T> {
+  private patterns: TermPattern<T>[];
+  private wordAutomaton = new Automaton();
+  private stemAutomaton = new Automaton();
+  private hasStems = false;
+  // For every automaton entry, the pattern it belongs to and which part of it
+  private parts: Array<{ pattern: number; part: number }> = [];
+  private partCounts: number[] = [];
+
+  constructor(patterns: TermPattern<T>[]) {
+    this.patterns = patterns;
+
+    patterns.forEach((pattern, index) => {
+      const words = tokenize(pattern.text);
+      const parts = words.length === 0 ? [] : pattern.phrase === false ? words.map(word => [word]) : [words];
+      this.partCounts.push(parts.length);
+
+      parts.forEach((part, partIndex) => {
+        const id = this.parts.length;
+        this.parts.push({ pattern: index, part: partIndex });
+
+        // Words in the searched text are separated by single spaces, with one at each end
+        if (pattern.mode === 'stem') {
+          this.stemAutomaton.add(` ${part.map(stem).join(' ')} `, id);
+          this.hasStems = true;
+        } else if (pattern.mode === 'prefix') {
+          this.wordAutomaton.add(` ${part.join(' ')}`, id);
+        } else {
+          this.wordAutomaton.add(` ${part.join(' ')} `, id);
+        }
+      });
+    });
+
+    this.wordAutomaton.build();
+    this.stemAutomaton.build();
+  }
+
+  /**
+   * Every pattern found in the text, in the order the patterns were given
+   */
+  match(text: string): T[] {
+    const words = tokenize(text);
+    const found: Array<Set<number>> = this.patterns.map(() => new Set());
+    const record = (id: number) => found[this.parts[id].pattern].add(this.parts[id].part);
+
+    this.wordAutomaton.search(` ${words.join(' ')} `, record);
+    if (this.hasStems) {
+      this.stemAutomaton.search(` ${words.map(stem).join(' ')} `, record);
+    }
+
+    return this.patterns
+      .filter((_, index) => this.partCounts[index] > 0 && found[index].size === this.partCounts[index])
+      .map(pattern => pattern.value);
+  }
+
+  /**
+   * The first pattern, in the order given, that is found in the text
+   */
+  first(text: string): T | null {
+    return this.match(text)[0] ?? null;
+  }
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { textNormalizer } from './text-normalizer';
+
+test('closes up letters spaced out with punctuation', () => {
+  assert.equal(textNormalizer.normalize('want some s.e.x?'), 'want some sex?');
+  assert.equal(textNormalizer.normalize('free p o r n here'), 'free porn here');
+  assert.deepEqual(textNormalizer.variants('s - e - x').map(variant => variant.step), [null, 'separators']);
+});
+
+test('leaves kisses at the end of a letter alone', () => {
+  const text = 'Love you lots, Grandma x x x';
+
+  assert.deepEqual(textNormalizer.variants(text), [{ step: null, text }]);
+  assert.equal(textNormalizer.normalize('See you Sunday! X x X x'), 'See you Sunday! X x X x');
+});
+
+test('does not join whole words', () => {
+  const text = 'I am at home, a bit tired';
+
+  assert.equal(textNormalizer.normalize(text), text);
+});
+
+test('maps lookalike letters only in words drawn in Latin', () => {
+  assert.equal(textNormalizer.normalize('frее gift'), 'free gift');
+  assert.equal(textNormalizer.normalize('привет'), 'привет');
+});
+
+test('decodes leetspeak inside words but not numbers or prices', () => {
+  assert.equal(textNormalizer.normalize('cheap v1agra for $5 in 2024'), 'cheap viagra for $5 in 2024');
+});
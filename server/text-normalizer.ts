@@ -0,0 +1,130 @@
+export type NormalizationStep = 'unicode' | 'invisible' | 'lookalikes' | 'separators' | 'leetspeak';
+
+export type NormalizedText = {
+  step: NormalizationStep | null; // The last step applied; null for the original text
+  text: string;
+};
+
+export const normalizationLabels: Record<NormalizationStep, string> = {
+  unicode: 'Unicode compatibility forms',
+  invisible: 'invisible characters',
+  lookalikes: 'lookalike letters',
+  separators: 'spaced-out letters',
+  leetspeak: 'leetspeak'
+};
+
+// Cyrillic and Greek letters that are drawn like Latin ones
+export const confusables: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'і': 'i',
+  'ј': 'j', 'ԁ': 'd', 'ԛ': 'q', 'ѕ': 's', 'ԝ': 'w', 'һ': 'h', 'ӏ': 'l', 'ɡ': 'g',
+  'α': 'a', 'ο': 'o', 'ρ': 'p', 'ν': 'v', 'τ': 't', 'ι': 'i', 'κ': 'k', 'χ': 'x'
+};
+
+const leetspeak: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '€': 'e'
+};
+
+// Built at runtime: Unicode property escapes and lookbehind are beyond the compile target
+const INVISIBLE = new RegExp('[\\p{Cf}\\u034F\\uFE00-\\uFE0F]', 'gu');
+const WORD = new RegExp('[\\p{L}\\p{N}\\p{M}@$!€]+', 'gu');
+const COMBINING_MARK = new RegExp('\\p{Mn}', 'gu');
+// Three or more single characters with one to three separators between each: "s.e.x", "p o r n"
+const SPACED_LETTERS = new RegExp('(?<![\\p{L}\\p{N}])[\\p{L}\\p{N}@$](?:[\\s.\\-_*·•,|/\\\\+~\'"]{1,3}[\\p{L}\\p{N}@$](?![\\p{L}\\p{N}])){2,}', 'gu');
+const SEPARATOR = /[\s.\-_*·•,|/\\+~'"]+/g;
+
+/**
+ * Text Normalizer
+ *
+ * Undoes the tricks spammers use to get words past filters: compatibility
+ * characters (fullwidth and styled letters), invisible characters inside
+ * words, Cyrillic and Greek lookalikes, letters spaced out with punctuation
+ * and digits or symbols standing in for letters. Each step builds on the one
+ * before, so a match can be traced to the step that revealed it.
+ */
+class TextNormalizer {
+  /**
+   * The text after each normalization step, starting with the original.
+   * Steps that change nothing are left out.
+   */
+  variants(text: string): NormalizedText[] {
+    const variants: NormalizedText[] = [{ step: null, text }];
+    const steps: Array<[NormalizationStep, (value: string) => string]> = [
+      ['unicode', value => value.normalize('NFKC')],
+      ['invisible', value => value.replace(INVISIBLE, '')],
+      ['lookalikes', value => this.replaceLookalikes(value)],
+      ['separators', value => value.replace(SPACED_LETTERS, match => this.joinSpacedLetters(match))],
+      ['leetspeak', value => this.decodeLeetspeak(value)]
+    ];
+
+    let current = text;
+    steps.forEach(([step, apply]) => {
+      const next = apply(current);
+      if (next !== current) {
+        variants.push({ step, text: next });
+        current = next;
+      }
+    });
+
+    return variants;
+  }
+
+  /**
+   * The text with every normalization step applied
+   */
+  normalize(text: string): string {
+    const variants = this.variants(text);
+    return variants[variants.length - 1].text;
+  }
+
+  /**
+   * Map lookalikes to Latin in words that could be written entirely in Latin
+   * letters, dropping any accents stacked on them. Ordinary Cyrillic and
+   * Greek words contain other letters and are left alone.
+   */
+  private replaceLookalikes(text: string): string {
+    return text.replace(WORD, word => {
+      const letters = Array.from(word.normalize('NFD').replace(COMBINING_MARK, ''));
+      const drawnInLatin = letters.every(char => /[a-z0-9@$!€]/i.test(char) || confusables[char.toLowerCase()] !== undefined);
+
+      if (!drawnInLatin) {
+        return word;
+      }
+      return letters.map(char => confusables[char.toLowerCase()] ?? char).join('');
+    });
+  }
+
+  /**
+   * Close up a run of spaced-out letters. A run of one letter repeated is
+   * left as it is: that is kisses at the end of a letter ("x x x") or
+   * emphasis, not a word being hidden.
+   */
+  private joinSpacedLetters(run: string): string {
+    const joined = run.replace(SEPARATOR, '');
+    return new Set(Array.from(joined.toLowerCase())).size === 1 ? run : joined;
+  }
+
+  /**
+   * Decode digits and symbols inside words that also contain letters, so
+   * "v1agra" becomes "viagra" but "2024" and "$5" are untouched. A symbol
+   * not followed by a letter or digit is punctuation, not a letter.
+   */
+  private decodeLeetspeak(text: string): string {
+    return text.replace(WORD, word => {
+      if (!/[a-z]/i.test(word) || !/[0-9@$!€]/.test(word)) {
+        return word;
+      }
+
+      const chars = Array.from(word);
+      return chars.map((char, index) => {
+        const isSymbol = /[@$!€]/.test(char);
+        if (leetspeak[char] === undefined || (isSymbol && !/[a-z0-9]/i.test(chars[index + 1] || ''))) {
+          return char;
+        }
+        return leetspeak[char];
+      }).join('');
+    });
+  }
+}
+
+export const textNormalizer = new TextNormalizer();
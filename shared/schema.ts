@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, pgEnum, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -41,6 +41,8 @@ export const emailProviders = pgTable("email_providers", {
   oauth_token_url: text("oauth_token_url"),
   oauth_scope: text("oauth_scope"),
   junk_folder_path: text("junk_folder_path").default("Junk").notNull(),
+  authserv_ids: text("authserv_ids").array(), // Servers whose Authentication-Results are believed; subdomains included
+  writes_received_spf: boolean("writes_received_spf").default(false).notNull(), // Whether the provider's servers add Received-SPF to every message
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -71,6 +73,8 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// User as returned by the API, without the password hash
+export type PublicUser = Omit<User, 'password'>;
 
 // Child email accounts to monitor
 export const childAccounts = pgTable("child_accounts", {
@@ -93,6 +97,13 @@ export const childAccounts = pgTable("child_accounts", {
   
   // Custom settings
   custom_junk_folder: text("custom_junk_folder"),
+  // Server settings for providers without a preset ('other'); these replace the provider's
+  custom_imap_host: text("custom_imap_host"),
+  custom_imap_port: integer("custom_imap_port"),
+  custom_imap_secure: boolean("custom_imap_secure"),
+  custom_smtp_host: text("custom_smtp_host"),
+  custom_smtp_port: integer("custom_smtp_port"),
+  custom_smtp_secure: boolean("custom_smtp_secure"),
   
   // Checking configuration
   created_at: timestamp("created_at").defaultNow().notNull(),
@@ -106,6 +117,7 @@ export const childAccounts = pgTable("child_accounts", {
   // Filtering settings  
   age_group: text("age_group").default("all").notNull(), // 'young_child', 'pre_teen', 'teen', 'all'
   filter_level: text("filter_level").default("medium").notNull(), // 'low', 'medium', 'high', 'custom'
+  approval_mode: text("approval_mode").default("auto").notNull(), // 'auto' (from age group), 'allowlist', 'off'
 });
 
 export const insertChildAccountSchema = createInsertSchema(childAccounts).pick({
@@ -121,16 +133,58 @@ export const insertChildAccountSchema = createInsertSchema(childAccounts).pick({
   oauth_refresh_token: true,
   token_expiry: true,
   custom_junk_folder: true,
+  custom_imap_host: true,
+  custom_imap_port: true,
+  custom_imap_secure: true,
+  custom_smtp_host: true,
+  custom_smtp_port: true,
+  custom_smtp_secure: true,
   check_interval: true,
   check_start_time: true,
   check_end_time: true,
   forwarding_email: true,
   age_group: true,
   filter_level: true,
+  approval_mode: true,
 });
 
 export type InsertChildAccount = z.infer<typeof insertChildAccountSchema>;
 export type ChildAccount = typeof childAccounts.$inferSelect;
+// Child account as returned by the API: credentials are replaced by presence flags
+export type PublicChildAccount = Omit<ChildAccount, 'password' | 'app_password' | 'oauth_token' | 'oauth_refresh_token'> & {
+  has_password: boolean;
+  has_app_password: boolean;
+  has_oauth_token: boolean;
+};
+
+// Kinds of content that filter rules belong to; each can be tuned per child
+export const contentCategories = ["adult", "gambling", "drugs", "violence", "self_harm", "scams", "dating", "weight_loss"] as const;
+
+export type ContentCategory = typeof contentCategories[number];
+
+export const contentCategoryLabels: Record<ContentCategory, string> = {
+  adult: "Adult content",
+  gambling: "Gambling",
+  drugs: "Drugs & medication",
+  violence: "Violence",
+  self_harm: "Self-harm",
+  scams: "Scams & finance",
+  dating: "Dating",
+  weight_loss: "Weight loss",
+};
+
+// Languages with their own default filter lists and language detection profile
+export const filterLanguages = ["en", "es", "fr", "de", "pt"] as const;
+
+export type FilterLanguage = typeof filterLanguages[number];
+
+export const filterLanguageLabels: Record<FilterLanguage, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+};
 
 // Filter words and phrases
 export const filterRules = pgTable("filter_rules", {
@@ -139,6 +193,10 @@ export const filterRules = pgTable("filter_rules", {
   child_account_id: integer("child_account_id").references(() => childAccounts.id),
   rule_text: text("rule_text").notNull(),
   is_regex: boolean("is_regex").default(false).notNull(),
+  match_mode: text("match_mode", { enum: ["word", "prefix", "stem"] }).default("word").notNull(), // Whole words, last word as a prefix, or by word stem
+  match_phrase: boolean("match_phrase").default(true).notNull(), // Several words must appear together; otherwise each anywhere
+  weight: integer("weight").default(50).notNull(), // Points a match adds to the message's score
+  category: text("category", { enum: contentCategories }), // null for rules outside the categories, which always apply
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -147,6 +205,10 @@ export const insertFilterRuleSchema = createInsertSchema(filterRules).pick({
   child_account_id: true,
   rule_text: true,
   is_regex: true,
+  match_mode: true,
+  match_phrase: true,
+  weight: true,
+  category: true,
 });
 
 export type InsertFilterRule = z.infer<typeof insertFilterRuleSchema>;
@@ -160,6 +222,9 @@ export const activityLogs = pgTable("activity_logs", {
   activity_type: text("activity_type").notNull(), // 'check', 'forward', 'filter_match', 'error', etc.
   details: text("details"),
   sender_email: text("sender_email"),
+  threat_type: text("threat_type"), // 'malware', 'suspicious_link', 'phishing'; set when a check identified a specific kind of threat
+  dkim_domain: text("dkim_domain"), // Signing domain of a DKIM signature we verified on the message
+  category: text("category"), // Content category that contributed most to a filter verdict
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -169,6 +234,9 @@ export const insertActivityLogSchema = createInsertSchema(activityLogs).pick({
   activity_type: true,
   details: true,
   sender_email: true,
+  threat_type: true,
+  dkim_domain: true,
+  category: true,
 });
 
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
@@ -203,6 +271,7 @@ export const junkMailPreferences = pgTable("junk_mail_preferences", {
   keep_receipts: boolean("keep_receipts").default(false).notNull(),
   keep_social_media: boolean("keep_social_media").default(false).notNull(),
   auto_delete_all: boolean("auto_delete_all").default(true).notNull(),
+  quarantine_retention_days: integer("quarantine_retention_days").default(30).notNull(), // Days before quarantined mail is purged
   created_at: timestamp("created_at").defaultNow().notNull(),
   updated_at: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -214,11 +283,17 @@ export const insertJunkMailPreferencesSchema = createInsertSchema(junkMailPrefer
   keep_receipts: true,
   keep_social_media: true,
   auto_delete_all: true,
+  quarantine_retention_days: true,
 });
 
 export type InsertJunkMailPreferences = z.infer<typeof insertJunkMailPreferencesSchema>;
 export type JunkMailPreferences = typeof junkMailPreferences.$inferSelect;
 
+// How much say the adaptive classifier has over verdicts
+export const learningModes = ["passive", "active", "aggressive"] as const;
+
+export type LearningMode = typeof learningModes[number];
+
 // System status and settings
 export const systemStatus = pgTable("system_status", {
   id: serial("id").primaryKey(),
@@ -227,7 +302,7 @@ export const systemStatus = pgTable("system_status", {
   details: text("details"),
   adaptive_learning_enabled: boolean("adaptive_learning_enabled").default(false),
   learning_rate: text("learning_rate").default("0.1"),
-  learning_mode: text("learning_mode").default("passive"), // 'passive', 'active', 'aggressive'
+  learning_mode: text("learning_mode", { enum: learningModes }).default("passive"),
 });
 
 export const insertSystemStatusSchema = createInsertSchema(systemStatus).pick({
@@ -266,3 +341,245 @@ export const insertMlFeedbackSchema = createInsertSchema(mlFeedback).pick({
 
 export type InsertMlFeedback = z.infer<typeof insertMlFeedbackSchema>;
 export type MlFeedback = typeof mlFeedback.$inferSelect;
+
+// A user's adaptive classifier, trained from their ML feedback
+export const classifierModels = pgTable("classifier_models", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  model: jsonb("model").notNull(), // Serialized word counts per class
+  last_feedback_id: integer("last_feedback_id").default(0).notNull(), // Feedback up to this ID has been learned
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertClassifierModelSchema = createInsertSchema(classifierModels).pick({
+  user_id: true,
+  model: true,
+  last_feedback_id: true,
+});
+
+export type InsertClassifierModel = z.infer<typeof insertClassifierModelSchema>;
+export type ClassifierModel = typeof classifierModels.$inferSelect;
+
+// What the adaptive classifier predicted for a message, next to the verdict of the rules
+export const modelPredictions = pgTable("model_predictions", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  child_account_id: integer("child_account_id").references(() => childAccounts.id),
+  subject: text("subject"),
+  learning_mode: text("learning_mode", { enum: learningModes }).notNull(), // The mode in force when the message was checked
+  rule_verdict: text("rule_verdict", { enum: ["safe", "warning", "unsafe"] }).notNull(),
+  predicted: text("predicted", { enum: ["safe", "unsafe"] }).notNull(),
+  probability: integer("probability").notNull(), // Percent chance the model gave that the message is unsafe
+  final_verdict: text("final_verdict", { enum: ["safe", "warning", "unsafe"] }).notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertModelPredictionSchema = createInsertSchema(modelPredictions).pick({
+  user_id: true,
+  child_account_id: true,
+  subject: true,
+  learning_mode: true,
+  rule_verdict: true,
+  predicted: true,
+  probability: true,
+  final_verdict: true,
+});
+
+export type InsertModelPrediction = z.infer<typeof insertModelPredictionSchema>;
+export type ModelPrediction = typeof modelPredictions.$inferSelect;
+
+// Recently filtered messages, kept so draft filter rules can be tried against real mail
+export const processedMessages = pgTable("processed_messages", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  folder_path: text("folder_path").notNull(),
+  subject: text("subject"),
+  sender_email: text("sender_email"),
+  body_text: text("body_text").notNull(), // The text a reader sees, shortened for storage
+  hidden_text: text("hidden_text").notNull(), // Image descriptions, link titles and hidden HTML text
+  breakdown: jsonb("breakdown").notNull(), // The score items of the check
+  thresholds: jsonb("thresholds").notNull(), // The warning and unsafe scores at the time
+  verdict: text("verdict", { enum: ["safe", "warning", "unsafe"] }).notNull(),
+  processed_at: timestamp("processed_at").defaultNow().notNull(),
+});
+
+export const insertProcessedMessageSchema = createInsertSchema(processedMessages).pick({
+  user_id: true,
+  child_account_id: true,
+  folder_path: true,
+  subject: true,
+  sender_email: true,
+  body_text: true,
+  hidden_text: true,
+  breakdown: true,
+  thresholds: true,
+  verdict: true,
+});
+
+export type InsertProcessedMessage = z.infer<typeof insertProcessedMessageSchema>;
+export type ProcessedMessage = typeof processedMessages.$inferSelect;
+
+// IMAP sync position per child account folder, so each check only scans new messages
+export const syncCheckpoints = pgTable("sync_checkpoints", {
+  id: serial("id").primaryKey(),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  folder_path: text("folder_path").notNull(),
+  // UIDs and UIDVALIDITY are unsigned 32-bit values, beyond the range of integer
+  uid_validity: bigint("uid_validity", { mode: "number" }).notNull(),
+  last_uid: bigint("last_uid", { mode: "number" }).default(0).notNull(),
+  retry_uids: jsonb("retry_uids"), // Messages at or below last_uid that could not be processed, as { uid, attempts }
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSyncCheckpointSchema = createInsertSchema(syncCheckpoints).pick({
+  child_account_id: true,
+  folder_path: true,
+  uid_validity: true,
+  last_uid: true,
+  retry_uids: true,
+});
+
+export type InsertSyncCheckpoint = z.infer<typeof insertSyncCheckpointSchema>;
+export type SyncCheckpoint = typeof syncCheckpoints.$inferSelect;
+
+// Folders scanned on each check, and what to do with flagged messages in each
+export const monitoredFolders = pgTable("monitored_folders", {
+  id: serial("id").primaryKey(),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  folder_role: text("folder_role"), // 'inbox', 'junk', 'sent'; the path is detected on the server
+  folder_path: text("folder_path"), // Explicit path, used when folder_role is null
+  action: text("action").default("quarantine").notNull(), // 'quarantine', 'delete', 'log'; the Sent folder is always 'log'
+  is_active: boolean("is_active").default(true).notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMonitoredFolderSchema = createInsertSchema(monitoredFolders, {
+  folder_role: z.enum(['inbox', 'junk', 'sent']).nullable().optional(),
+  action: z.enum(['quarantine', 'delete', 'log']).optional(),
+}).pick({
+  child_account_id: true,
+  folder_role: true,
+  folder_path: true,
+  action: true,
+  is_active: true,
+});
+
+export type InsertMonitoredFolder = z.infer<typeof insertMonitoredFolderSchema>;
+export type MonitoredFolder = typeof monitoredFolders.$inferSelect;
+
+// Messages moved out of a child's mailbox into the quarantine folder
+export const quarantinedMessages = pgTable("quarantined_messages", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  activity_log_id: integer("activity_log_id").references(() => activityLogs.id),
+  original_folder: text("original_folder").notNull(),
+  quarantine_folder: text("quarantine_folder").notNull(),
+  quarantine_uid: integer("quarantine_uid"), // UID in the quarantine folder, when the server told or it could be worked out
+  quarantine_uid_validity: integer("quarantine_uid_validity"), // UIDVALIDITY of the quarantine folder when the UID was given
+  message_id_header: text("message_id_header"), // Message-ID, to find the message again when the UID is unknown or stale
+  subject: text("subject"),
+  sender_email: text("sender_email"),
+  reason: text("reason"),
+  features: jsonb("features"), // Word counts of the message, for learning from what the parent does with it
+  status: text("status").default("quarantined").notNull(), // 'quarantined', 'restored', 'purged', 'expired'
+  quarantined_at: timestamp("quarantined_at").defaultNow().notNull(),
+  expires_at: timestamp("expires_at").notNull(),
+  resolved_at: timestamp("resolved_at"),
+});
+
+export const insertQuarantinedMessageSchema = createInsertSchema(quarantinedMessages).pick({
+  user_id: true,
+  child_account_id: true,
+  activity_log_id: true,
+  original_folder: true,
+  quarantine_folder: true,
+  quarantine_uid: true,
+  quarantine_uid_validity: true,
+  message_id_header: true,
+  subject: true,
+  sender_email: true,
+  reason: true,
+  features: true,
+  expires_at: true,
+});
+
+export type InsertQuarantinedMessage = z.infer<typeof insertQuarantinedMessageSchema>;
+export type QuarantinedMessage = typeof quarantinedMessages.$inferSelect;
+
+// Messages from unknown senders held for a parent's approval (walled-garden mode)
+export const pendingApprovals = pgTable("pending_approvals", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  original_folder: text("original_folder").notNull(),
+  pending_folder: text("pending_folder").notNull(),
+  message_id_header: text("message_id_header"), // Message-ID, used to find the message again after the move
+  subject: text("subject"),
+  sender_email: text("sender_email").notNull(),
+  status: text("status").default("pending").notNull(), // 'pending', 'approved', 'rejected'
+  trusted_sender_id: integer("trusted_sender_id").references(() => trustedSenders.id), // Set when approval also trusted the sender
+  held_at: timestamp("held_at").defaultNow().notNull(),
+  resolved_at: timestamp("resolved_at"),
+});
+
+export const insertPendingApprovalSchema = createInsertSchema(pendingApprovals).pick({
+  user_id: true,
+  child_account_id: true,
+  original_folder: true,
+  pending_folder: true,
+  message_id_header: true,
+  subject: true,
+  sender_email: true,
+});
+
+export type InsertPendingApproval = z.infer<typeof insertPendingApprovalSchema>;
+export type PendingApproval = typeof pendingApprovals.$inferSelect;
+
+// Which attachment types are blocked for a child account
+export const attachmentPolicies = pgTable("attachment_policies", {
+  id: serial("id").primaryKey(),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  block_executables: boolean("block_executables").default(true).notNull(),
+  block_scripts: boolean("block_scripts").default(true).notNull(),
+  block_macro_documents: boolean("block_macro_documents").default(true).notNull(),
+  // Also covers archives that are too large, too deeply nested or in a format that cannot be opened
+  block_encrypted_archives: boolean("block_encrypted_archives").default(true).notNull(),
+  max_archive_depth: integer("max_archive_depth").default(3).notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAttachmentPolicySchema = createInsertSchema(attachmentPolicies, {
+  max_archive_depth: z.number().int().min(1).max(10).optional(),
+}).pick({
+  child_account_id: true,
+  block_executables: true,
+  block_scripts: true,
+  block_macro_documents: true,
+  block_encrypted_archives: true,
+  max_archive_depth: true,
+});
+
+export type InsertAttachmentPolicy = z.infer<typeof insertAttachmentPolicySchema>;
+export type AttachmentPolicy = typeof attachmentPolicies.$inferSelect;
+
+// Whether a content category is filtered for a child account, and how strictly
+export const categorySettings = pgTable("category_settings", {
+  id: serial("id").primaryKey(),
+  child_account_id: integer("child_account_id").notNull().references(() => childAccounts.id),
+  category: text("category", { enum: contentCategories }).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  sensitivity: text("sensitivity", { enum: ["low", "medium", "high"] }).default("medium").notNull(), // Scales the points the category's rules add
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCategorySettingSchema = createInsertSchema(categorySettings).pick({
+  child_account_id: true,
+  category: true,
+  enabled: true,
+  sensitivity: true,
+});
+
+export type InsertCategorySetting = z.infer<typeof insertCategorySettingSchema>;
+export type CategorySetting = typeof categorySettings.$inferSelect;